@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { isSameOriginRequest, verifyDashboardRequest } from '@/lib/dashboardAuth';
+import { isAdminAction, runAdminAction, type AdminActionInput } from '@/lib/adminActions';
+
+// Action buttons on the dashboard's session page (app/sessions/[sessionId]). Takes a form post
+// and redirects back to the page with the outcome.
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+export async function POST(req: Request, context: RouteContext) {
+  console.log('\n--- /api/admin/sessions POST endpoint hit ---');
+  // middleware.ts already checks these; checked again so the route is never open on its own
+  const auth = verifyDashboardRequest(req);
+  if (!auth.authorized) return NextResponse.json({ status: 'unauthorized' }, { status: 401 });
+  if (!isSameOriginRequest(req)) {
+    console.warn('Rejected cross-site dashboard action.');
+    return NextResponse.json({ status: 'cross_site_request' }, { status: 403 });
+  }
+
+  const { sessionId } = await context.params;
+  let action: FormDataEntryValue | null = null;
+  let input: AdminActionInput = {};
+  try {
+    const form = await req.formData();
+    action = form.get('action');
+    const draftId = form.get('draft_id');
+    const emailBody = form.get('email_body');
+    input = { draftId: typeof draftId === 'string' ? draftId : null, emailBody: typeof emailBody === 'string' ? emailBody : null };
+  } catch {
+    // Falls through to the invalid action response
+  }
+  if (!isAdminAction(action)) return NextResponse.json({ status: 'invalid_action' }, { status: 400 });
+
+  let notice: string;
+  try {
+    const outcome = await runAdminAction(sessionId, action, auth.username!, input);
+    if (outcome.status === 'not_found') return NextResponse.json(outcome, { status: 404 });
+    notice = outcome.detail;
+  } catch (error) {
+    console.error('Unhandled error in /api/admin/sessions:', error);
+    notice = 'Something went wrong. Check the logs.';
+  }
+  const location = new URL(`/sessions/${encodeURIComponent(sessionId)}`, req.url);
+  location.searchParams.set('notice', notice);
+  return NextResponse.redirect(location, 303);
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getResponseLinkConfig, verifyAvailabilityToken } from '@/lib/responseTokens';
+import { availabilitySubmissionSchema, handleAvailabilitySubmission } from '@/lib/availabilitySubmissions';
+
+// Submissions from the participant availability picker page (app/availability/[token]).
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+export async function POST(req: Request, context: RouteContext) {
+  console.log('\n--- /api/availability POST endpoint hit ---');
+  const config = getResponseLinkConfig();
+  if (!config) {
+    console.error('Availability: APP_BASE_URL or RESPONSE_TOKEN_SECRET is not set.');
+    return NextResponse.json({ status: 'disabled' }, { status: 404 });
+  }
+  const { token } = await context.params;
+  const verified = verifyAvailabilityToken(token, config.secret);
+  if (!verified.ok) {
+    console.warn(`Availability: Rejected token (${verified.reason}).`);
+    return NextResponse.json({ status: verified.reason === 'expired' ? 'expired' : 'invalid_link' }, { status: verified.reason === 'expired' ? 410 : 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ status: 'invalid' }, { status: 400 });
+  }
+  const submission = availabilitySubmissionSchema.safeParse(body);
+  if (!submission.success) return NextResponse.json({ status: 'invalid' }, { status: 400 });
+
+  console.log(`Availability: ${verified.payload.em} submitted ${submission.data.windows.length} window(s) for session ${verified.payload.sid}.`);
+  try {
+    const outcome = await handleAvailabilitySubmission(verified.payload, submission.data);
+    const statusCode = { recorded: 200, invalid: 400, closed: 410, busy: 503, failed: 500 }[outcome.status];
+    return NextResponse.json(outcome, { status: statusCode });
+  } catch (error) {
+    console.error('Unhandled error in /api/availability:', error);
+    return NextResponse.json({ status: 'failed' }, { status: 500 });
+  }
+}
@@ -1,19 +1,29 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '../../../../lib/supabaseClient';
+import { findSessionById, listSessionsByStatus, listOrganizerSettings, updateSession, insertSessionNudge } from '../../../../lib/sessionRepository';
+import { OrganizerSettings, ParticipantStatusDetail } from '../../../../lib/types';
 import { sendSchedulingEmail } from '../../../../lib/emailUtils';
+import { acquireLease, releaseLease, withSessionLease } from '../../../../lib/lease';
+import { resolveNudgePolicy, evaluateNudge } from '../../../../lib/nudgePolicy';
+import { renderPlainEmail, resolveBranding } from '../../../../lib/emailTemplates';
+import { resolveTimeZone } from '../../../../lib/timezone';
+import { transitionSession } from '../../../../lib/sessionStateMachine';
+import { timingSafeEqual } from 'crypto';
 import { Langfuse } from "langfuse";
 
-// Define participant status detail type (Duplicate from schedule route - consider sharing types)
-interface ParticipantStatusDetail {
-  email: string;
-  status: string; // 'pending', 'received', 'nudged_1', 'nudged_2', 'timed_out', 'escalated'
-  last_request_sent_at: string | null; // ISO string
-}
+// Lease name and TTL used to stop overlapping cron runs from double-nudging
+const NUDGE_LEASE_NAME = 'cron:nudge';
+const NUDGE_LEASE_TTL_SECONDS = 5 * 60;
 
-// Define nudge thresholds (in minutes for easier testing initially)
-const NUDGE1_THRESHOLD_MINUTES = 1; // Time after last_request_sent_at to send nudge 1
-const NUDGE2_THRESHOLD_MINUTES = 2; // Time after last_request_sent_at to send nudge 2
-const ESCALATION_THRESHOLD_MINUTES = 3; // Time after last_request_sent_at to escalate
+// Summary of a single cron run, returned in the JSON response
+interface NudgeRunSummary {
+  sessionsChecked: number;
+  nudgesSent: number;
+  escalations: number;
+  deferred: number;
+  organizerNotifications: number;
+  sessionsBusy: number;
+  failures: { sessionId: string; participant: string; reason: string }[];
+}
 
 const langfuse = new Langfuse({
   secretKey: process.env.LANGFUSE_SECRET_KEY,
@@ -24,21 +34,44 @@ const langfuse = new Langfuse({
 export async function GET(request: Request) {
   console.log('\n--- /api/cron/nudge GET endpoint hit ---');
 
-  // Optional: Secure the endpoint, e.g., check for a secret header/token
-  // const authToken = (request.headers.get('authorization') || '').split('Bearer ')[1];
-  // if (authToken !== process.env.CRON_SECRET) {
-  //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  // }
+  // --- Authenticate: a bearer token matching CRON_SECRET is mandatory ---
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Cron: CRON_SECRET is not set. Refusing to run.');
+    return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+  }
+  const authHeader = request.headers.get('authorization') || '';
+  const authToken = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+  const tokenBuffer = Buffer.from(authToken);
+  const secretBuffer = Buffer.from(cronSecret);
+  if (tokenBuffer.length !== secretBuffer.length || !timingSafeEqual(tokenBuffer, secretBuffer)) {
+    console.warn('Cron: Rejected request with missing or invalid bearer token.');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // --- Acquire lease so overlapping runs can't double-nudge ---
+  const leaseHolderId = await acquireLease(NUDGE_LEASE_NAME, NUDGE_LEASE_TTL_SECONDS);
+  if (!leaseHolderId) {
+    console.log('Cron: Another nudge run is in progress. Skipping.');
+    return NextResponse.json({ status: 'skipped', reason: 'run_in_progress' });
+  }
+
+  const summary: NudgeRunSummary = {
+    sessionsChecked: 0,
+    nudgesSent: 0,
+    escalations: 0,
+    deferred: 0,
+    organizerNotifications: 0,
+    sessionsBusy: 0,
+    failures: [],
+  };
 
   try {
     const now = new Date();
     console.log(`Cron job running at: ${now.toISOString()}`);
 
     // 1. Find sessions waiting for participant responses
-    const { data: pendingSessions, error: fetchError } = await supabase
-      .from('scheduling_sessions')
-      .select('session_id, organizer_email, meeting_topic, participant_status_details')
-      .eq('status', 'pending_participant_response');
+    const { data: pendingSessions, error: fetchError } = await listSessionsByStatus('pending_participant_response');
 
     if (fetchError) {
       console.error('Cron: Error fetching pending sessions:', fetchError);
@@ -47,141 +80,215 @@ export async function GET(request: Request) {
 
     if (!pendingSessions || pendingSessions.length === 0) {
       console.log('Cron: No sessions currently pending participant response.');
-      return NextResponse.json({ status: 'success', message: 'No pending sessions' });
+      return NextResponse.json({ status: 'success', message: 'No pending sessions', summary });
     }
 
     console.log(`Cron: Found ${pendingSessions.length} sessions to check.`);
+    summary.sessionsChecked = pendingSessions.length;
+
+    // Load per-organizer overrides (nudge policy, branding) for every organizer in this batch
+    const organizerEmails = [...new Set(pendingSessions.map(s => s.organizer_email))];
+    const { data: organizerSettings, error: settingsError } = await listOrganizerSettings(organizerEmails);
+    if (settingsError) {
+      console.error('Cron: Error fetching organizer settings (using global nudge policy and branding):', settingsError);
+    }
+    const settingsByOrganizer = organizerSettings || new Map<string, OrganizerSettings>();
 
     // 2. Process each session
-    for (const session of pendingSessions) {
-      console.log(`Cron: Processing session ${session.session_id}`);
-      let participantDetails: ParticipantStatusDetail[] = session.participant_status_details || [];
-      let detailsUpdated = false;
-      let sessionEscalated = false;
+    for (const listedSession of pendingSessions) {
+      // Work from a fresh copy under the session's lease, so a reply processed since the list was
+      // read isn't overwritten. A busy session is left for the next run.
+      const leased = await withSessionLease(listedSession.session_id, async (sessionId) => {
+        const { data: session, error: reloadError } = await findSessionById(sessionId);
+        if (reloadError || !session) {
+          console.error(`Cron: Error reloading session ${sessionId}:`, reloadError);
+          summary.failures.push({ sessionId, participant: '*', reason: 'session_reload_failed' });
+          return;
+        }
+        if (session.status !== 'pending_participant_response') {
+          console.log(`Cron: Session ${sessionId} is now ${session.status}. Skipping.`);
+          return;
+        }
 
-      for (let i = 0; i < participantDetails.length; i++) {
-        const participant = participantDetails[i];
+        console.log(`Cron: Processing session ${session.session_id}`);
+        let participantDetails: ParticipantStatusDetail[] = session.participant_status_details;
+        let detailsUpdated = false;
+        let sessionEscalated = false;
+        const policy = resolveNudgePolicy(settingsByOrganizer.get(session.organizer_email)?.nudge_policy, session.nudge_policy);
+        const branding = resolveBranding(settingsByOrganizer.get(session.organizer_email)?.branding);
+        const organizerTimeZone = resolveTimeZone(session.organizer_timezone);
 
-        if (participant.status === 'received' || !participant.last_request_sent_at) {
-          continue; // Skip if already received or initial request not yet sent (shouldn't happen in pending state)
-        }
+        for (let i = 0; i < participantDetails.length; i++) {
+          const participant = participantDetails[i];
 
-        const lastRequestTime = new Date(participant.last_request_sent_at);
-        const minutesSinceLastRequest = (now.getTime() - lastRequestTime.getTime()) / (1000 * 60);
-
-        let nextStatus = participant.status;
-        let emailSubject = '';
-        let emailBody = '';
-        let recipient = participant.email;
-        let isEscalation = false;
-
-        // Determine action based on status and time elapsed
-        if (participant.status === 'pending' && minutesSinceLastRequest >= NUDGE1_THRESHOLD_MINUTES) {
-          console.log(`Cron: Participant ${participant.email} needs Nudge 1.`);
-          nextStatus = 'nudged_1';
-          emailSubject = `Reminder: Availability for ${session.meeting_topic || 'meeting'}`;
-          emailBody = `Hi ${participant.email.split('@')[0]},\n\nJust a friendly reminder to share your availability for the meeting "${session.meeting_topic || 'meeting'}" requested by ${session.organizer_email}.\n\nPlease reply to this email with times you are available.\n\nThanks,\nAmy (Scheduling Assistant)`;
-        } else if (participant.status === 'nudged_1' && minutesSinceLastRequest >= NUDGE2_THRESHOLD_MINUTES) {
-           console.log(`Cron: Participant ${participant.email} needs Nudge 2.`);
-           nextStatus = 'nudged_2';
-           emailSubject = `Second Reminder: Availability for ${session.meeting_topic || 'meeting'}`;
-           emailBody = `Hi ${participant.email.split('@')[0]},\n\nFollowing up again on the request for your availability for the meeting "${session.meeting_topic || 'meeting'}" requested by ${session.organizer_email}.\n\nPlease let me know your availability as soon as possible.\n\nThanks,\nAmy (Scheduling Assistant)`;
-        } else if (participant.status === 'nudged_2' && minutesSinceLastRequest >= ESCALATION_THRESHOLD_MINUTES) {
-           console.log(`Cron: Participant ${participant.email} needs Escalation.`);
-           nextStatus = 'escalated'; 
-           sessionEscalated = true; 
-           recipient = session.organizer_email; 
-           isEscalation = true; // Flag this as an escalation email
-           emailSubject = `Action Required: Issue scheduling ${session.meeting_topic || 'meeting'}`;
-           emailBody = `Hi ${session.organizer_email.split('@')[0]},\n\nI haven't received an availability response from ${participant.email} for the meeting "${session.meeting_topic || 'meeting'}", even after sending two reminders.\n\nHow would you like to proceed?\n- Try scheduling with the participants who have responded?\n- Ask me to send another reminder?\n- Contact ${participant.email} directly?\n\nPlease let me know.\n\nThanks,\nAmy (Scheduling Assistant)`;
-        }
+          const action = evaluateNudge(participant, policy, now, {
+            participant: resolveTimeZone(participant.timezone),
+            organizer: organizerTimeZone,
+          });
+
+          if (action.type === 'wait') {
+            continue; // Already received, not due yet, or initial request not yet sent
+          }
+          if (action.type === 'defer') {
+            console.log(`Cron: Deferring action for ${participant.email} until ${action.until.toISOString()} (${action.reason}).`);
+            summary.deferred++;
+            continue;
+          }
+
+          let nextStatus = participant.status;
+          let emailSubject = '';
+          let emailBody = '';
+          let recipient = participant.email;
+          let isEscalation = false;
+          let isFirstNudge = false;
+
+          // Build the email for the action the policy picked
+          if (action.type === 'nudge') {
+            console.log(`Cron: Participant ${participant.email} needs Nudge ${action.nudgeNumber}.`);
+            nextStatus = `nudged_${action.nudgeNumber}`;
+            isFirstNudge = action.nudgeNumber === 1;
+            if (isFirstNudge) {
+              emailSubject = `Reminder: Availability for ${session.meeting_topic || 'meeting'}`;
+              emailBody = `Hi ${participant.email.split('@')[0]},\n\nJust a friendly reminder to share your availability for the meeting "${session.meeting_topic || 'meeting'}" requested by ${session.organizer_email}.\n\nPlease reply to this email with times you are available.`;
+            } else {
+              emailSubject = `${action.isFinalNudge ? 'Final' : 'Another'} Reminder: Availability for ${session.meeting_topic || 'meeting'}`;
+              emailBody = `Hi ${participant.email.split('@')[0]},\n\nFollowing up again on the request for your availability for the meeting "${session.meeting_topic || 'meeting'}" requested by ${session.organizer_email}.\n\nPlease let me know your availability as soon as possible.`;
+            }
+          } else {
+             console.log(`Cron: Participant ${participant.email} needs Escalation.`);
+             const remindersText = action.nudgesSent === 1 ? 'one reminder' : `${action.nudgesSent} reminders`;
+             nextStatus = 'escalated'; 
+             sessionEscalated = true; 
+             recipient = session.organizer_email; 
+             isEscalation = true; // Flag this as an escalation email
+             emailSubject = `Action Required: Issue scheduling ${session.meeting_topic || 'meeting'}`;
+             emailBody = `Hi ${session.organizer_email.split('@')[0]},\n\nI haven't received an availability response from ${participant.email} for the meeting "${session.meeting_topic || 'meeting'}"${action.nudgesSent > 0 ? `, even after sending ${remindersText}` : ''}.\n\nHow would you like to proceed?\n- Try scheduling with the participants who have responded?\n- Ask me to send another reminder?\n- Contact ${participant.email} directly?\n\nPlease let me know.`;
+          }
 
-        // If an action is needed, send email and update status
-        if (nextStatus !== participant.status) {
-          const pseudoTriggerId = `cron-nudge-${session.session_id}-${participant.email}`;
+          // If an action is needed, send email and update status
+          if (nextStatus !== participant.status) {
+            const pseudoTriggerId = `cron-nudge-${session.session_id}-${participant.email}`;
           
-          // Send Nudge/Escalation Email
-          const messageId = await sendSchedulingEmail({
-            to: recipient, // This is participant for Nudge 1/2, organizer for escalation
-            subject: emailSubject,
-            textBody: emailBody,
-            sessionId: session.session_id,
-            triggeringMessageId: pseudoTriggerId,
-            triggeringReferencesHeader: null,
-            sendAsGroup: false,
-          });
+            // Send Nudge/Escalation Email
+            const renderedEmail = renderPlainEmail(emailBody, branding);
+            const messageId = await sendSchedulingEmail({
+              to: recipient, // This is participant for Nudge 1/2, organizer for escalation
+              subject: emailSubject,
+              textBody: renderedEmail.textBody,
+              htmlBody: renderedEmail.htmlBody,
+              sessionId: session.session_id,
+              triggeringMessageId: pseudoTriggerId,
+              triggeringReferencesHeader: null,
+              sendAsGroup: false,
+            });
 
-          if (messageId) {
-            console.log(`Cron: Email sent (Message ID: ${messageId}), updating status for ${participant.email} to ${nextStatus}`);
-            // Update timestamp on nudge/escalation too, so thresholds reset relative to the last action
-            participantDetails[i] = { ...participant, status: nextStatus, last_request_sent_at: new Date().toISOString() }; 
-            detailsUpdated = true;
+            if (messageId) {
+              console.log(`Cron: Email sent (Message ID: ${messageId}), updating status for ${participant.email} to ${nextStatus}`);
+              // Update timestamp on nudge/escalation too, so thresholds reset relative to the last action
+              participantDetails[i] = { ...participant, status: nextStatus, last_request_sent_at: new Date().toISOString() }; 
+              detailsUpdated = true;
+              if (isEscalation) summary.escalations++;
+              else summary.nudgesSent++;
+              // Keep the history for the dashboard (the status only holds the latest nudge)
+              const { error: nudgeLogError } = await insertSessionNudge({
+                session_id: session.session_id,
+                participant_email: participant.email,
+                action: isEscalation ? 'escalation' : 'nudge',
+                nudge_number: action.type === 'nudge' ? action.nudgeNumber : null,
+                recipient_email: recipient,
+                message_id: messageId,
+              });
+              if (nudgeLogError) console.error(`Cron: Error logging nudge for ${participant.email}:`, nudgeLogError);
 
-            // --- NEW: Notify Organizer after Nudge 1 --- 
-            if (nextStatus === 'nudged_1' && !isEscalation) { // Check if it was Nudge 1 and not the final escalation
-                console.log(`Cron: Sending notification to organizer ${session.organizer_email} about Nudge 1 sent to ${participant.email}`);
-                const organizerSubject = `Update: Nudge sent for ${session.meeting_topic || 'meeting'}`;
-                const organizerBody = `Hi ${session.organizer_email.split('@')[0]},
+              // --- NEW: Notify Organizer after Nudge 1 --- 
+              if (isFirstNudge && policy.notifyOrganizerOnFirstNudge) {
+                  console.log(`Cron: Sending notification to organizer ${session.organizer_email} about Nudge 1 sent to ${participant.email}`);
+                  const organizerSubject = `Update: Nudge sent for ${session.meeting_topic || 'meeting'}`;
+                  const organizerBody = `Hi ${session.organizer_email.split('@')[0]},
 
-Just letting you know I've sent a reminder (Nudge 1) to ${participant.email} regarding their availability for the "${session.meeting_topic || 'meeting'}".
+  Just letting you know I've sent a reminder (Nudge 1) to ${participant.email} regarding their availability for the "${session.meeting_topic || 'meeting'}".
 
-I'll keep you posted.
+  I'll keep you posted.`;
 
-Thanks,
-Amy`;
+                  const renderedNotification = renderPlainEmail(organizerBody, branding);
+                  const pseudoOrganizerTriggerId = `cron-notify-organizer-${session.session_id}-${participant.email}`;
 
-                const pseudoOrganizerTriggerId = `cron-notify-organizer-${session.session_id}-${participant.email}`;
+                  const notificationId = await sendSchedulingEmail({
+                    to: session.organizer_email,
+                    subject: organizerSubject,
+                    textBody: renderedNotification.textBody,
+                    htmlBody: renderedNotification.htmlBody,
+                    sessionId: session.session_id,
+                    triggeringMessageId: pseudoOrganizerTriggerId, // Different ID for this notification
+                    triggeringReferencesHeader: null, // Don't thread this with the nudge itself
+                    sendAsGroup: false,
+                  });
+                  if (notificationId) {
+                    summary.organizerNotifications++;
+                    const { error: notificationLogError } = await insertSessionNudge({
+                      session_id: session.session_id,
+                      participant_email: participant.email,
+                      action: 'organizer_notification',
+                      nudge_number: 1,
+                      recipient_email: session.organizer_email,
+                      message_id: notificationId,
+                    });
+                    if (notificationLogError) console.error(`Cron: Error logging organizer notification for ${participant.email}:`, notificationLogError);
+                  } else {
+                    summary.failures.push({ sessionId: session.session_id, participant: participant.email, reason: 'organizer_notification_failed' });
+                  }
+              }
+              // --- End Notify Organizer --- 
 
-                await sendSchedulingEmail({
-                  to: session.organizer_email,
-                  subject: organizerSubject,
-                  textBody: organizerBody,
-                  sessionId: session.session_id,
-                  triggeringMessageId: pseudoOrganizerTriggerId, // Different ID for this notification
-                  triggeringReferencesHeader: null, // Don't thread this with the nudge itself
-                  sendAsGroup: false,
-                });
-                // We don't necessarily need to check the messageId for this notification,
-                // but could add logging if needed.
+            } else {
+              console.error(`Cron: Failed to send email for ${participant.email} in session ${session.session_id}`);
+              // Status is left unchanged, so the next run retries
+              summary.failures.push({ sessionId: session.session_id, participant: participant.email, reason: isEscalation ? 'escalation_send_failed' : 'nudge_send_failed' });
             }
-            // --- End Notify Organizer --- 
-
-          } else {
-            console.error(`Cron: Failed to send email for ${participant.email} in session ${session.session_id}`);
-            // Decide if we should retry later or just log
-          }
-        }
-      } // End loop through participants
-
-      // 3. Update database if changes were made
-      if (detailsUpdated) {
-          const updateData: { participant_status_details: ParticipantStatusDetail[]; status?: string } = {
-              participant_status_details: participantDetails,
-          };
-          if (sessionEscalated) {
-              console.log(`Cron: Session ${session.session_id} escalated to organizer.`);
-              updateData.status = 'escalated_to_organizer';
           }
+        } // End loop through participants
 
-          const { error: updateError } = await supabase
-              .from('scheduling_sessions')
-              .update(updateData)
-              .eq('session_id', session.session_id);
+        // 3. Update database if changes were made
+        if (detailsUpdated) {
+            if (sessionEscalated) {
+                console.log(`Cron: Session ${session.session_id} escalated to organizer.`);
+                // Conditional on the session still pending, so a reply processed meanwhile isn't overwritten
+                const transitionResult = await transitionSession({
+                    sessionId: session.session_id,
+                    from: 'pending_participant_response',
+                    to: 'escalated_to_organizer',
+                    cause: { type: 'cron_escalation', detail: 'participant_unresponsive' },
+                    updates: { participant_status_details: participantDetails },
+                });
+                if (!transitionResult.ok) {
+                    console.error(`Cron: Error escalating session ${session.session_id}: ${transitionResult.reason}`);
+                    summary.failures.push({ sessionId: session.session_id, participant: '*', reason: 'session_update_failed' });
+                }
+            } else {
+                const { error: updateError } = await updateSession(session.session_id, { participant_status_details: participantDetails });
 
-          if (updateError) {
-              console.error(`Cron: Error updating session ${session.session_id}:`, updateError);
-          }
+                if (updateError) {
+                    console.error(`Cron: Error updating session ${session.session_id}:`, updateError);
+                    summary.failures.push({ sessionId: session.session_id, participant: '*', reason: 'session_update_failed' });
+                }
+            }
+        }
+      }, 0);
+      if (!leased.acquired) {
+        console.log(`Cron: Session ${listedSession.session_id} is busy. Leaving it for the next run.`);
+        summary.sessionsBusy++;
       }
     } // End loop through sessions
 
-    console.log('Cron: Nudge check completed.');
-    return NextResponse.json({ status: 'success' });
+    console.log(`Cron: Nudge check completed. Nudges: ${summary.nudgesSent}, escalations: ${summary.escalations}, failures: ${summary.failures.length}.`);
+    return NextResponse.json({ status: 'success', summary });
 
   } catch (error) {
     console.error("Cron: Unhandled error in nudge job:", error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-    return NextResponse.json({ error: 'Internal Server Error', details: errorMessage }, { status: 500 });
+    return NextResponse.json({ error: 'Internal Server Error', details: errorMessage, summary }, { status: 500 });
   } finally {
+    await releaseLease(NUDGE_LEASE_NAME, leaseHolderId);
     await langfuse.shutdown();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { listSessionsByStatus, listOrganizerSettings, listSessionReminders, insertSessionReminder, findSessionById } from '../../../../lib/sessionRepository';
+import { OrganizerSettings } from '../../../../lib/types';
+import { sendSchedulingEmail } from '../../../../lib/emailUtils';
+import { acquireLease, releaseLease } from '../../../../lib/lease';
+import { resolveReminderOffsets, nextMeeting, dueReminderOffset, buildReminderEmail } from '../../../../lib/reminders';
+import { renderPlainEmail, resolveBranding } from '../../../../lib/emailTemplates';
+import { resolveTimeZone } from '../../../../lib/timezone';
+import { timingSafeEqual } from 'crypto';
+
+// Lease name and TTL used to stop overlapping cron runs from sending the same reminder twice
+const REMINDER_LEASE_NAME = 'cron:reminders';
+const REMINDER_LEASE_TTL_SECONDS = 5 * 60;
+
+// Summary of a single cron run, returned in the JSON response
+interface ReminderRunSummary {
+  sessionsChecked: number;
+  remindersSent: number;
+  failures: { sessionId: string; recipient: string; reason: string }[];
+}
+
+export async function GET(request: Request) {
+  console.log('\n--- /api/cron/reminders GET endpoint hit ---');
+
+  // --- Authenticate: a bearer token matching CRON_SECRET is mandatory ---
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Reminder cron: CRON_SECRET is not set. Refusing to run.');
+    return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+  }
+  const authHeader = request.headers.get('authorization') || '';
+  const authToken = authHeader.startsWith('Bearer ') ? authHeader.slice('Bearer '.length) : '';
+  const tokenBuffer = Buffer.from(authToken);
+  const secretBuffer = Buffer.from(cronSecret);
+  if (tokenBuffer.length !== secretBuffer.length || !timingSafeEqual(tokenBuffer, secretBuffer)) {
+    console.warn('Reminder cron: Rejected request with missing or invalid bearer token.');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // --- Acquire lease so overlapping runs can't double-remind ---
+  const leaseHolderId = await acquireLease(REMINDER_LEASE_NAME, REMINDER_LEASE_TTL_SECONDS);
+  if (!leaseHolderId) {
+    console.log('Reminder cron: Another reminder run is in progress. Skipping.');
+    return NextResponse.json({ status: 'skipped', reason: 'run_in_progress' });
+  }
+
+  const summary: ReminderRunSummary = { sessionsChecked: 0, remindersSent: 0, failures: [] };
+
+  try {
+    const now = new Date();
+
+    // 1. Only confirmed sessions get reminders, so cancelling (or reopening) a session stops them
+    const { data: confirmedSessions, error: fetchError } = await listSessionsByStatus('confirmed');
+    if (fetchError) {
+      console.error('Reminder cron: Error fetching confirmed sessions:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
+    }
+    if (!confirmedSessions || confirmedSessions.length === 0) {
+      return NextResponse.json({ status: 'success', message: 'No confirmed sessions', summary });
+    }
+    summary.sessionsChecked = confirmedSessions.length;
+
+    // Load per-organizer overrides (reminder offsets, branding) for every organizer in this batch
+    const organizerEmails = [...new Set(confirmedSessions.map(s => s.organizer_email))];
+    const { data: organizerSettings, error: settingsError } = await listOrganizerSettings(organizerEmails);
+    if (settingsError) {
+      console.error('Reminder cron: Error fetching organizer settings (using global reminder offsets and branding):', settingsError);
+    }
+    const settingsByOrganizer = organizerSettings || new Map<string, OrganizerSettings>();
+
+    // 2. Work out which reminder (if any) is due for each session's next meeting
+    for (const session of confirmedSessions) {
+      const settings = settingsByOrganizer.get(session.organizer_email);
+      const offsets = resolveReminderOffsets(settings?.reminder_offsets_minutes);
+      const meeting = nextMeeting(session, now);
+      if (offsets.length === 0 || !meeting) continue;
+
+      const { data: sentReminders, error: remindersError } = await listSessionReminders(session.session_id);
+      if (remindersError) {
+        console.error(`Reminder cron: Error loading reminders for session ${session.session_id} (skipping it):`, remindersError);
+        summary.failures.push({ sessionId: session.session_id, recipient: '*', reason: 'reminder_history_failed' });
+        continue;
+      }
+      const meetingStartIso = new Date(meeting.start).toISOString();
+      const sentForMeeting = (sentReminders || []).filter(r => Date.parse(r.meeting_start) === meeting.start);
+
+      const organizerTimeZone = resolveTimeZone(session.organizer_timezone);
+      const attendees = [
+        { email: session.organizer_email, timeZone: organizerTimeZone },
+        ...session.participant_status_details
+          .filter(p => p.status !== 'cancelled')
+          .map(p => ({ email: p.email, timeZone: resolveTimeZone(p.timezone) || organizerTimeZone })),
+      ];
+      const branding = resolveBranding(settings?.branding);
+
+      for (const attendee of attendees) {
+        const sentOffsets = sentForMeeting.filter(r => r.recipient_email.toLowerCase() === attendee.email.toLowerCase()).map(r => r.offset_minutes);
+        const offset = dueReminderOffset(meeting.start, offsets, now, sentOffsets);
+        if (offset === null) continue;
+
+        // Re-check right before sending: a cancellation or move processed during this run stops the reminder
+        const { data: current } = await findSessionById(session.session_id);
+        if (current?.status !== 'confirmed' || nextMeeting(current, now)?.start !== meeting.start) {
+          console.log(`Reminder cron: Session ${session.session_id} changed during this run. Skipping its reminders.`);
+          break;
+        }
+
+        const reminder = buildReminderEmail(session, meeting, attendee, now);
+        const renderedEmail = renderPlainEmail(reminder.body, branding);
+        const messageId = await sendSchedulingEmail({
+          to: attendee.email,
+          subject: reminder.subject,
+          textBody: renderedEmail.textBody,
+          htmlBody: renderedEmail.htmlBody,
+          sessionId: session.session_id,
+          triggeringMessageId: `cron-reminder-${session.session_id}-${meetingStartIso}-${offset}-${attendee.email}`,
+          triggeringReferencesHeader: null,
+          sendAsGroup: false,
+        });
+        if (!messageId) {
+          // Nothing is logged, so the next run retries while the reminder is still due
+          console.error(`Reminder cron: Failed to send the ${offset}-minute reminder to ${attendee.email} for session ${session.session_id}`);
+          summary.failures.push({ sessionId: session.session_id, recipient: attendee.email, reason: 'reminder_send_failed' });
+          continue;
+        }
+
+        summary.remindersSent++;
+        const { error: logError } = await insertSessionReminder({
+          session_id: session.session_id,
+          recipient_email: attendee.email,
+          meeting_start: meetingStartIso,
+          offset_minutes: offset,
+          message_id: messageId,
+        });
+        if (logError) console.error(`Reminder cron: Error logging reminder for ${attendee.email} in session ${session.session_id}:`, logError);
+      }
+    }
+
+    console.log(`Reminder cron: Completed. Reminders: ${summary.remindersSent}, failures: ${summary.failures.length}.`);
+    return NextResponse.json({ status: 'success', summary });
+
+  } catch (error) {
+    console.error('Reminder cron: Unhandled error in reminder job:', error);
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: 'Internal Server Error', details: errorMessage, summary }, { status: 500 });
+  } finally {
+    await releaseLease(REMINDER_LEASE_NAME, leaseHolderId);
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getResponseLinkConfig, verifyDraftToken, type DraftTokenPayload } from '@/lib/responseTokens';
+import { reviewDraft, type DraftReviewOutcome } from '@/lib/decisionDrafts';
+import { findSessionDraft } from '@/lib/sessionRepository';
+import { escapeHtml, resolveBranding } from '@/lib/emailTemplates';
+import { renderLinkPage } from '@/lib/linkPage';
+
+// Draft review links sent to organizers in draft mode (lib/decisionDrafts.ts). GET shows the
+// drafted email in an editable form; the form's POST approves or rejects it. As with the
+// one-click response links, GET never changes anything.
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+async function verify(context: RouteContext): Promise<{ payload: DraftTokenPayload } | { response: NextResponse }> {
+  const config = getResponseLinkConfig();
+  if (!config) {
+    console.error('Drafts: APP_BASE_URL or RESPONSE_TOKEN_SECRET is not set.');
+    return { response: renderLinkPage('Link unavailable', 'Review links are not enabled. Please use the scheduling dashboard instead.', 404) };
+  }
+  const { token } = await context.params;
+  const result = verifyDraftToken(token, config.secret);
+  if (!result.ok) {
+    console.warn(`Drafts: Rejected token (${result.reason}).`);
+    return result.reason === 'expired'
+      ? { response: renderLinkPage('Link expired', 'This link has expired. Please use the scheduling dashboard instead.', 410) }
+      : { response: renderLinkPage('Invalid link', "This link isn't valid.", 400) };
+  }
+  return { payload: result.payload };
+}
+
+function outcomePage(outcome: DraftReviewOutcome): NextResponse {
+  switch (outcome.status) {
+    case 'sent':
+      return renderLinkPage('Email sent', 'Your approved email is on its way.', 200);
+    case 'rejected':
+      return renderLinkPage('Draft rejected', "Nothing was sent. Reply to the thread with what you'd like to happen next.", 200);
+    case 'closed':
+      return renderLinkPage('This draft is closed', 'It was already reviewed, or a newer draft has replaced it. Please check your latest review email.', 410);
+    case 'not_found':
+      return renderLinkPage('Draft not found', "This draft doesn't exist anymore.", 404);
+    case 'busy':
+      return renderLinkPage('Please try again', "We're processing a reply for this meeting. Please try again in a moment.", 503);
+    case 'failed':
+      return renderLinkPage('Something went wrong', "We couldn't process your review. Please try again later.", 500);
+  }
+}
+
+export async function GET(_req: Request, context: RouteContext) {
+  const verified = await verify(context);
+  if ('response' in verified) return verified.response;
+
+  const { data: draft, error } = await findSessionDraft(verified.payload.did);
+  if (error) {
+    console.error(`Drafts: Supabase error loading draft ${verified.payload.did}:`, error);
+    return outcomePage({ status: 'failed' });
+  }
+  if (!draft) return outcomePage({ status: 'not_found' });
+  if (draft.status !== 'pending') return outcomePage({ status: 'closed' });
+
+  const accentColor = resolveBranding().accentColor;
+  const emailBody = typeof draft.decision.email_body === 'string' ? draft.decision.email_body : '';
+  const buttonStyle = 'padding:10px 18px;border-radius:4px;font-size:15px;cursor:pointer;';
+  const form = `<form method="post">
+<p style="margin:0 0 8px 0;font-size:14px;"><strong>Subject:</strong> ${escapeHtml(draft.subject)}</p>
+<textarea name="email_body" rows="14" style="width:100%;box-sizing:border-box;padding:8px;font-family:inherit;font-size:14px;">${escapeHtml(emailBody)}</textarea>
+<div style="margin-top:12px;display:flex;gap:8px;">
+<button type="submit" name="verdict" value="approve" style="${buttonStyle}border:0;background:${accentColor};color:#ffffff;">Approve and send</button>
+<button type="submit" name="verdict" value="reject" style="${buttonStyle}border:1px solid #cccccc;background:#ffffff;color:#222222;">Reject</button>
+</div>
+</form>`;
+  return renderLinkPage('Review draft', `To: ${draft.recipients.join(', ')}. Edit the text if needed, then approve or reject it.`, 200, form);
+}
+
+export async function POST(req: Request, context: RouteContext) {
+  console.log('\n--- /api/drafts POST endpoint hit ---');
+  const verified = await verify(context);
+  if ('response' in verified) return verified.response;
+  const { payload } = verified;
+
+  let verdict: FormDataEntryValue | null = null;
+  let emailBody: FormDataEntryValue | null = null;
+  try {
+    const form = await req.formData();
+    verdict = form.get('verdict');
+    emailBody = form.get('email_body');
+  } catch {
+    // Falls through to the invalid request page
+  }
+  if (verdict !== 'approve' && verdict !== 'reject') {
+    return renderLinkPage('Invalid request', 'Please use the Approve or Reject button.', 400);
+  }
+
+  console.log(`Drafts: ${payload.em} chose '${verdict}' for draft ${payload.did}.`);
+  try {
+    return outcomePage(await reviewDraft(payload.did, { verdict, emailBody: typeof emailBody === 'string' ? emailBody : null }, payload.em));
+  } catch (error) {
+    console.error('Unhandled error in /api/drafts:', error);
+    return outcomePage({ status: 'failed' });
+  }
+}
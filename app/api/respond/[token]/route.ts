@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getResponseLinkConfig, verifyResponseToken, type ResponseTokenPayload } from '@/lib/responseTokens';
+import { handleSlotResponse, type SlotResponseOutcome } from '@/lib/slotResponses';
+import { resolveBranding } from '@/lib/emailTemplates';
+import { formatInTimeZone } from '@/lib/timezone';
+import { renderLinkPage } from '@/lib/linkPage';
+
+// One-click responses to proposed time slots. GET shows what the link will do with a single
+// confirm button; the POST from that button records it. Mail scanners and link previews
+// follow GET links, so GET never changes anything.
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+async function verify(context: RouteContext): Promise<{ payload: ResponseTokenPayload } | { response: NextResponse }> {
+  const config = getResponseLinkConfig();
+  if (!config) {
+    console.error('Respond: APP_BASE_URL or RESPONSE_TOKEN_SECRET is not set.');
+    return { response: renderLinkPage('Link unavailable', 'Response links are not enabled. Please reply to the email instead.', 404) };
+  }
+  const { token } = await context.params;
+  const result = verifyResponseToken(token, config.secret);
+  if (!result.ok) {
+    console.warn(`Respond: Rejected token (${result.reason}).`);
+    return result.reason === 'expired'
+      ? { response: renderLinkPage('Link expired', 'This link has expired. Please reply to the email with the times that work for you.', 410) }
+      : { response: renderLinkPage('Invalid link', "This link isn't valid. Please reply to the email instead.", 400) };
+  }
+  return { payload: result.payload };
+}
+
+function outcomePage(outcome: SlotResponseOutcome): NextResponse {
+  switch (outcome.status) {
+    case 'recorded':
+      return outcome.response === 'accept'
+        ? renderLinkPage('Thanks!', "We've noted that this time works for you. Everyone will hear back once the others have responded.", 200)
+        : renderLinkPage('Thanks for letting us know', "We've noted that this time doesn't work for you. You can pick another option from the email, or reply to it with times that suit you.", 200);
+    case 'already_recorded':
+      return renderLinkPage('Already recorded', `You already said this time ${outcome.response === 'accept' ? 'works' : "doesn't work"} for you.`, 200);
+    case 'confirmed':
+      return renderLinkPage('Meeting confirmed', 'Everyone will receive a confirmation and a calendar invite by email.', 200);
+    case 'proposed_to_organizer':
+      return renderLinkPage('Thanks!', `${outcome.everyoneAccepted ? 'Everyone has' : 'All the required participants have'} accepted this time, so the organizer has been asked to confirm it.`, 200);
+    case 'asked_for_new_times':
+      return renderLinkPage('Thanks for letting us know', "None of the options worked for everyone, so we've asked for some new times by email.", 200);
+    case 'closed':
+      return renderLinkPage('This proposal is closed', 'These times are no longer open. Please check the latest email in the thread, or reply to it directly.', 410);
+    case 'busy':
+      return renderLinkPage('Please try again', "We're processing another response for this meeting. Please try again in a moment.", 503);
+    case 'failed':
+      return renderLinkPage('Something went wrong', "We couldn't record your response. Please reply to the email instead.", 500);
+  }
+}
+
+export async function GET(_req: Request, context: RouteContext) {
+  const verified = await verify(context);
+  if ('response' in verified) return verified.response;
+  const { payload } = verified;
+
+  const when = formatInTimeZone(new Date(payload.st), payload.tz);
+  const choice = payload.a === 'accept' ? 'works for you' : "doesn't work for you";
+  const form = `<form method="post"><button type="submit" style="padding:10px 18px;border:0;border-radius:4px;background:${resolveBranding().accentColor};color:#ffffff;font-size:15px;cursor:pointer;">Confirm</button></form>`;
+  return renderLinkPage(`Option ${payload.i + 1}`, `Confirm that ${when} ${choice}.`, 200, form);
+}
+
+export async function POST(_req: Request, context: RouteContext) {
+  console.log('\n--- /api/respond POST endpoint hit ---');
+  const verified = await verify(context);
+  if ('response' in verified) return verified.response;
+  const { payload } = verified;
+
+  console.log(`Respond: ${payload.em} chose '${payload.a}' for option ${payload.i + 1} of proposal ${payload.pid} (session ${payload.sid}).`);
+  try {
+    return outcomePage(await handleSlotResponse(payload));
+  } catch (error) {
+    console.error('Unhandled error in /api/respond:', error);
+    return outcomePage({ status: 'failed' });
+  }
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { canonicalizeTimeZone, formatRangeInTimeZone, getTimeZoneOffsetMinutes } from "@/lib/timezone";
+
+// Week grid (painted with the mouse or a finger) plus, when the assistant has proposed times, a list of
+// those options. Everything is shown in the chosen time zone and submitted as UTC windows.
+
+interface Interval {
+  start: number; // ms since epoch
+  end: number;
+}
+
+interface AvailabilityPickerProps {
+  token: string;
+  assistantName: string;
+  accentColor: string;
+  initialTimeZone: string | null;
+  durationMinutes: number;
+  proposedOptions: Interval[];
+  currentWindows: Interval[];
+  submitted: boolean;
+}
+
+const CELL_MINUTES = 30;
+const CELL_MS = CELL_MINUTES * 60 * 1000;
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 21;
+const MAX_WEEKS_AHEAD = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar date (as a UTC midnight timestamp) of an instant in a zone
+function zonedDate(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(new Date(instant));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || "0", 10);
+  return Date.UTC(get("year"), get("month") - 1, get("day"));
+}
+
+// The instant at a wall-clock time in a zone (re-checked once for DST changes)
+function zonedTimeToUtc(date: number, minutes: number, timeZone: string): number {
+  const wallClock = date + minutes * 60 * 1000;
+  const first = wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(wallClock)) * 60 * 1000;
+  return wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(first)) * 60 * 1000;
+}
+
+function splitIntoCells(windows: Interval[]): Set<number> {
+  const cells = new Set<number>();
+  for (const window of windows) {
+    for (let start = Math.ceil(window.start / CELL_MS) * CELL_MS; start + CELL_MS <= window.end; start += CELL_MS) cells.add(start);
+  }
+  return cells;
+}
+
+function mergeCells(cells: Set<number>): Interval[] {
+  const merged: Interval[] = [];
+  for (const start of [...cells].sort((a, b) => a - b)) {
+    const last = merged[merged.length - 1];
+    if (last && last.end === start) last.end = start + CELL_MS;
+    else merged.push({ start, end: start + CELL_MS });
+  }
+  return merged;
+}
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export default function AvailabilityPicker({ token, assistantName, accentColor, initialTimeZone, durationMinutes, proposedOptions, currentWindows, submitted }: AvailabilityPickerProps) {
+  const [timeZone, setTimeZone] = useState(initialTimeZone || "UTC");
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [cells, setCells] = useState(() => splitIntoCells(currentWindows));
+  const [chosenOptions, setChosenOptions] = useState<Set<number>>(new Set());
+  const [paintMode, setPaintMode] = useState<"add" | "remove" | null>(null);
+  const [state, setState] = useState<"idle" | "sending" | "sent" | "error">("idle");
+  const [message, setMessage] = useState<string | null>(submitted ? "You've already sent your availability. Sending it again replaces it." : null);
+
+  // Without a known zone, use the browser's (only known after hydration)
+  useEffect(() => {
+    if (!initialTimeZone) setTimeZone(browserTimeZone());
+  }, [initialTimeZone]);
+
+  useEffect(() => {
+    const stopPainting = () => setPaintMode(null);
+    window.addEventListener("pointerup", stopPainting);
+    return () => window.removeEventListener("pointerup", stopPainting);
+  }, []);
+
+  const timeZones = useMemo(() => {
+    const supported = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+    return supported.includes(timeZone) ? supported : [timeZone, ...supported];
+  }, [timeZone]);
+
+  // Monday of the displayed week, then one column per day
+  const days = useMemo(() => {
+    const today = zonedDate(Date.now(), timeZone);
+    const monday = today - ((new Date(today).getUTCDay() + 6) % 7) * DAY_MS + weekOffset * 7 * DAY_MS;
+    return Array.from({ length: 7 }, (_, index) => monday + index * DAY_MS);
+  }, [timeZone, weekOffset]);
+  const rowMinutes = useMemo(
+    () => Array.from({ length: ((DAY_END_HOUR - DAY_START_HOUR) * 60) / CELL_MINUTES }, (_, index) => DAY_START_HOUR * 60 + index * CELL_MINUTES),
+    []
+  );
+
+  const paint = (cellStart: number, mode: "add" | "remove") => {
+    setCells(previous => {
+      const next = new Set(previous);
+      if (mode === "add") next.add(cellStart);
+      else next.delete(cellStart);
+      return next;
+    });
+  };
+
+  const toggleOption = (index: number) => {
+    setChosenOptions(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  async function submit() {
+    const windows = [...mergeCells(cells), ...[...chosenOptions].map(index => proposedOptions[index])];
+    if (windows.length === 0) {
+      setMessage("Pick at least one time first.");
+      return;
+    }
+    setState("sending");
+    try {
+      const response = await fetch(`/api/availability/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          timeZone,
+          windows: windows.map(window => ({ start: new Date(window.start).toISOString(), end: new Date(window.end).toISOString() })),
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setState("sent");
+        setMessage(result.waitingForOthers
+          ? `Thanks! ${assistantName} will get back to you once everyone has replied.`
+          : `Thanks! Everyone has replied, so ${assistantName} is now finding a time with the organizer.`);
+        return;
+      }
+      setState("error");
+      setMessage({
+        invalid: "Those times couldn't be used. Please pick times in the future.",
+        closed: `${assistantName} isn't collecting times for this meeting anymore. Please check the latest email.`,
+        expired: "This link has expired. Please reply to the email instead.",
+        busy: `${assistantName} is processing another reply for this meeting. Please try again in a moment.`,
+      }[result.status as string] || "Something went wrong. Please try again, or reply to the email instead.");
+    } catch {
+      setState("error");
+      setMessage("Something went wrong. Please try again, or reply to the email instead.");
+    }
+  }
+
+  const now = Date.now();
+  const formatHour = (minutes: number) =>
+    new Date(Date.UTC(2000, 0, 1, 0, minutes)).toLocaleTimeString("en-US", { timeZone: "UTC", hour: "numeric", minute: "2-digit" });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <label className="flex flex-col gap-1 text-sm max-w-xs">
+        Time zone
+        <select className="rounded border border-black/20 dark:border-white/20 bg-transparent px-2 py-1" value={timeZone} onChange={event => setTimeZone(canonicalizeTimeZone(event.target.value) || "UTC")}>
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, " ")}</option>
+          ))}
+        </select>
+      </label>
+
+      {proposedOptions.length > 0 && (
+        <section>
+          <h2 className="font-semibold mb-2">Proposed times</h2>
+          <ul className="flex flex-col gap-2">
+            {proposedOptions.map((option, index) => (
+              <li key={option.start}>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={chosenOptions.has(index)} onChange={() => toggleOption(index)} />
+                  Option {index + 1}: {formatRangeInTimeZone(option.start, option.end, timeZone)}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <div className="flex items-center justify-between mb-2 gap-2">
+          <h2 className="font-semibold">
+            {proposedOptions.length > 0 ? "Or paint" : "Paint"} the times you&apos;re free ({durationMinutes} minutes needed)
+          </h2>
+          <div className="flex gap-2 text-sm">
+            <button type="button" className="rounded border border-black/20 dark:border-white/20 px-2 py-1 disabled:opacity-40" disabled={weekOffset === 0} onClick={() => setWeekOffset(weekOffset - 1)}>
+              Previous week
+            </button>
+            <button type="button" className="rounded border border-black/20 dark:border-white/20 px-2 py-1 disabled:opacity-40" disabled={weekOffset === MAX_WEEKS_AHEAD} onClick={() => setWeekOffset(weekOffset + 1)}>
+              Next week
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto select-none touch-none">
+          <table className="border-collapse text-xs w-full">
+            <thead>
+              <tr>
+                <th />
+                {days.map(day => (
+                  <th key={day} className="px-1 py-1 font-medium">
+                    {new Date(day).toLocaleDateString("en-US", { timeZone: "UTC", weekday: "short", month: "short", day: "numeric" })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rowMinutes.map(minutes => (
+                <tr key={minutes}>
+                  <td className="pr-2 text-right align-top whitespace-nowrap opacity-60">{minutes % 60 === 0 ? formatHour(minutes) : ""}</td>
+                  {days.map(day => {
+                    const cellStart = zonedTimeToUtc(day, minutes, timeZone);
+                    const past = cellStart + CELL_MS <= now;
+                    const selected = cells.has(cellStart);
+                    return (
+                      <td
+                        key={day}
+                        className={`h-5 min-w-12 border border-black/10 dark:border-white/10 ${past ? "opacity-30" : "cursor-pointer"}`}
+                        style={selected ? { background: accentColor } : undefined}
+                        onPointerDown={event => {
+                          if (past) return;
+                          event.preventDefault();
+                          const mode = selected ? "remove" : "add";
+                          setPaintMode(mode);
+                          paint(cellStart, mode);
+                        }}
+                        onPointerEnter={() => {
+                          if (!past && paintMode) paint(cellStart, paintMode);
+                        }}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          className="rounded px-4 py-2 text-white disabled:opacity-50"
+          style={{ background: accentColor }}
+          disabled={state === "sending"}
+          onClick={submit}
+        >
+          {state === "sending" ? "Sending..." : "Send my availability"}
+        </button>
+        {message && <p className={state === "error" ? "text-red-600" : ""}>{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import { getResponseLinkConfig, verifyAvailabilityToken } from "@/lib/responseTokens";
+import { loadAvailabilityPicker } from "@/lib/availabilitySubmissions";
+import { resolveBranding } from "@/lib/emailTemplates";
+import AvailabilityPicker from "./AvailabilityPicker";
+
+// Per-participant availability page linked from the assistant's availability requests. The token in
+// the URL identifies the session and participant (see lib/responseTokens.ts).
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Pick your times",
+  robots: { index: false, follow: false },
+};
+
+type PageProps = { params: Promise<{ token: string }> };
+
+function Notice({ title, message }: { title: string; message: string }) {
+  return (
+    <main className="min-h-screen flex items-start justify-center px-4 py-12">
+      <div className="w-full max-w-md rounded border border-black/10 dark:border-white/15 p-6">
+        <h1 className="text-xl font-semibold mb-3">{title}</h1>
+        <p className="leading-relaxed">{message}</p>
+      </div>
+    </main>
+  );
+}
+
+export default async function AvailabilityPage({ params }: PageProps) {
+  const config = getResponseLinkConfig();
+  if (!config) {
+    return <Notice title="Link unavailable" message="The availability page isn't enabled. Please reply to the email instead." />;
+  }
+  const { token } = await params;
+  const verified = verifyAvailabilityToken(token, config.secret);
+  if (!verified.ok) {
+    return verified.reason === "expired"
+      ? <Notice title="Link expired" message="This link has expired. Please reply to the email with the times that work for you." />
+      : <Notice title="Invalid link" message="This link isn't valid. Please reply to the email instead." />;
+  }
+
+  const state = await loadAvailabilityPicker(verified.payload);
+  const branding = resolveBranding();
+  if (state.status !== "open") {
+    return state.status === "closed"
+      ? <Notice title="No longer collecting times" message={`${branding.assistantName} isn't waiting for your availability for this meeting anymore. Please check the latest email in the thread, or reply to it directly.`} />
+      : <Notice title="Something went wrong" message="We couldn't load this page. Please try again later, or reply to the email instead." />;
+  }
+
+  return (
+    <main className="min-h-screen px-4 py-10">
+      <div className="mx-auto w-full max-w-4xl">
+        <p className="text-sm opacity-70 mb-1">{[branding.assistantName, branding.companyName].filter(Boolean).join(" · ")}</p>
+        <h1 className="text-2xl font-semibold mb-1">{state.topic}</h1>
+        <p className="mb-6 opacity-80">
+          {state.organizerName} would like to meet for {state.durationMinutes} minutes. Let {branding.assistantName} know when you&apos;re free.
+        </p>
+        <AvailabilityPicker
+          token={token}
+          assistantName={branding.assistantName}
+          accentColor={branding.accentColor}
+          initialTimeZone={state.timeZone}
+          durationMinutes={state.durationMinutes}
+          proposedOptions={state.proposedOptions}
+          currentWindows={state.currentWindows}
+          submitted={state.submitted}
+        />
+      </div>
+    </main>
+  );
+}
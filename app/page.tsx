@@ -1,103 +1,91 @@
-import Image from "next/image";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { listSessions } from "@/lib/sessionRepository";
+import { SESSION_STATUSES } from "@/lib/sessionStateMachine";
+
+// Admin dashboard: every scheduling session, newest activity first. Behind Basic auth (middleware.ts).
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Scheduling sessions",
+  robots: { index: false, follow: false },
+};
+
+type PageProps = { searchParams: Promise<{ status?: string; organizer?: string }> };
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return "-";
+  return new Date(value).toLocaleString("en-US", { timeZone: "UTC", dateStyle: "medium", timeStyle: "short" }) + " UTC";
+}
+
+export default async function DashboardPage({ searchParams }: PageProps) {
+  const { status, organizer } = await searchParams;
+  const statusFilter = status && (SESSION_STATUSES as readonly string[]).includes(status) ? status : null;
+  const organizerFilter = organizer?.trim().toLowerCase() || null;
+  const { data: sessions, error } = await listSessions({ status: statusFilter, organizerEmail: organizerFilter });
+  if (error) console.error("Dashboard: Supabase error listing sessions:", error);
 
-export default function Home() {
   return (
-    <div className="grid grid-rows-[20px_1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 gap-16 sm:p-20 font-[family-name:var(--font-geist-sans)]">
-      <main className="flex flex-col gap-[32px] row-start-2 items-center sm:items-start">
-        <Image
-          className="dark:invert"
-          src="/next.svg"
-          alt="Next.js logo"
-          width={180}
-          height={38}
-          priority
-        />
-        <ol className="list-inside list-decimal text-sm/6 text-center sm:text-left font-[family-name:var(--font-geist-mono)]">
-          <li className="mb-2 tracking-[-.01em]">
-            Get started by editing{" "}
-            <code className="bg-black/[.05] dark:bg-white/[.06] px-1 py-0.5 rounded font-[family-name:var(--font-geist-mono)] font-semibold">
-              app/page.tsx
-            </code>
-            .
-          </li>
-          <li className="tracking-[-.01em]">
-            Save and see your changes instantly.
-          </li>
-        </ol>
+    <main className="min-h-screen px-4 py-10">
+      <div className="mx-auto w-full max-w-6xl">
+        <h1 className="text-2xl font-semibold mb-6">Scheduling sessions</h1>
+
+        <form method="get" className="flex flex-wrap items-end gap-4 mb-6 text-sm">
+          <label className="flex flex-col gap-1">
+            Status
+            <select name="status" defaultValue={statusFilter || ""} className="rounded border border-black/20 dark:border-white/20 bg-transparent px-2 py-1">
+              <option value="">All</option>
+              {SESSION_STATUSES.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Organizer email
+            <input name="organizer" type="email" defaultValue={organizerFilter || ""} className="rounded border border-black/20 dark:border-white/20 bg-transparent px-2 py-1" />
+          </label>
+          <button type="submit" className="rounded border border-black/20 dark:border-white/20 px-3 py-1">Filter</button>
+          {(statusFilter || organizerFilter) && <Link href="/" className="underline py-1">Clear</Link>}
+        </form>
 
-        <div className="flex gap-4 items-center flex-col sm:flex-row">
-          <a
-            className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-foreground text-background gap-2 hover:bg-[#383838] dark:hover:bg-[#ccc] font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 sm:w-auto"
-            href="https://vercel.com/new?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            <Image
-              className="dark:invert"
-              src="/vercel.svg"
-              alt="Vercel logomark"
-              width={20}
-              height={20}
-            />
-            Deploy now
-          </a>
-          <a
-            className="rounded-full border border-solid border-black/[.08] dark:border-white/[.145] transition-colors flex items-center justify-center hover:bg-[#f2f2f2] dark:hover:bg-[#1a1a1a] hover:border-transparent font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 w-full sm:w-auto md:w-[158px]"
-            href="https://nextjs.org/docs?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-            target="_blank"
-            rel="noopener noreferrer"
-          >
-            Read our docs
-          </a>
-        </div>
-      </main>
-      <footer className="row-start-3 flex gap-[24px] flex-wrap items-center justify-center">
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org/learn?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/file.svg"
-            alt="File icon"
-            width={16}
-            height={16}
-          />
-          Learn
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://vercel.com/templates?framework=next.js&utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/window.svg"
-            alt="Window icon"
-            width={16}
-            height={16}
-          />
-          Examples
-        </a>
-        <a
-          className="flex items-center gap-2 hover:underline hover:underline-offset-4"
-          href="https://nextjs.org?utm_source=create-next-app&utm_medium=appdir-template-tw&utm_campaign=create-next-app"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <Image
-            aria-hidden
-            src="/globe.svg"
-            alt="Globe icon"
-            width={16}
-            height={16}
-          />
-          Go to nextjs.org →
-        </a>
-      </footer>
-    </div>
+        {error ? (
+          <p className="text-red-600">Couldn&apos;t load sessions. Check the logs.</p>
+        ) : sessions.length === 0 ? (
+          <p className="opacity-70">No sessions match.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left border-b border-black/10 dark:border-white/15">
+                  <th className="py-2 pr-4">Topic</th>
+                  <th className="py-2 pr-4">Organizer</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Participants</th>
+                  <th className="py-2 pr-4">Created</th>
+                  <th className="py-2">Updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map(session => (
+                  <tr key={session.session_id} className="border-b border-black/5 dark:border-white/10 align-top">
+                    <td className="py-2 pr-4">
+                      <Link href={`/sessions/${session.session_id}`} className="underline">{session.meeting_topic || "(no topic)"}</Link>
+                    </td>
+                    <td className="py-2 pr-4">{session.organizer_email}</td>
+                    <td className="py-2 pr-4 font-[family-name:var(--font-geist-mono)]">{session.status}</td>
+                    <td className="py-2 pr-4">
+                      {session.participant_status_details.filter(p => p.status === "received").length}/{session.participant_status_details.length} replied
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatTimestamp(session.created_at)}</td>
+                    <td className="py-2 whitespace-nowrap">{formatTimestamp(session.updated_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
   );
 }
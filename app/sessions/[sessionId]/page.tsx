@@ -0,0 +1,254 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  findSessionById,
+  listSessionDecisions,
+  listSessionDrafts,
+  listSessionEvents,
+  listSessionMessages,
+  listSessionNudges,
+  listSessionReminders,
+} from "@/lib/sessionRepository";
+import type { SessionDecision, SessionMessage } from "@/lib/types";
+import { isRequiredParticipant } from "@/lib/quorum";
+import { describeRecurrence } from "@/lib/recurrence";
+
+// Dashboard page for one session: participants, status history, nudges, reminders, and the email thread
+// interleaved with the decisions behind each reply. Actions post to app/api/admin/sessions/[sessionId].
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Scheduling session",
+  robots: { index: false, follow: false },
+};
+
+type PageProps = {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ notice?: string }>;
+};
+
+type TimelineEntry =
+  | { kind: "message"; at: string; message: SessionMessage }
+  | { kind: "decision"; at: string; decision: SessionDecision };
+
+const ACTION_BUTTONS = [
+  { action: "resend", label: "Resend last email", help: "Sends the last email again, with fresh response links." },
+  { action: "advance", label: "Force advance", help: "Stops waiting for replies and asks the AI for the next step now." },
+  { action: "cancel", label: "Cancel session", help: "Emails everyone that the meeting is cancelled." },
+];
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return "-";
+  return new Date(value).toLocaleString("en-US", { timeZone: "UTC", dateStyle: "medium", timeStyle: "short" }) + " UTC";
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-lg font-semibold mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+export default async function SessionPage({ params, searchParams }: PageProps) {
+  const { sessionId } = await params;
+  const { notice } = await searchParams;
+
+  const { data: session, error } = await findSessionById(sessionId);
+  if (error) {
+    console.error(`Dashboard: Supabase error loading session ${sessionId}:`, error);
+    return <main className="px-4 py-10"><p className="text-red-600">Couldn&apos;t load this session. Check the logs.</p></main>;
+  }
+  if (!session) notFound();
+
+  const [messages, decisions, events, nudges, drafts, reminders] = await Promise.all([
+    listSessionMessages(sessionId),
+    listSessionDecisions(sessionId),
+    listSessionEvents(sessionId),
+    listSessionNudges(sessionId),
+    listSessionDrafts(sessionId),
+    listSessionReminders(sessionId),
+  ]);
+  const pendingDrafts = (drafts.data || []).filter(draft => draft.status === "pending");
+  for (const result of [messages, decisions, events, nudges, drafts, reminders]) {
+    if (result.error) console.error(`Dashboard: Supabase error loading history for session ${sessionId}:`, result.error);
+  }
+
+  const timeline: TimelineEntry[] = [
+    ...(messages.data || []).map(message => ({ kind: "message" as const, at: message.created_at, message })),
+    ...(decisions.data || []).map(decision => ({ kind: "decision" as const, at: decision.created_at, decision })),
+  ].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+  return (
+    <main className="min-h-screen px-4 py-10">
+      <div className="mx-auto w-full max-w-5xl">
+        <Link href="/" className="text-sm underline">All sessions</Link>
+        <h1 className="text-2xl font-semibold mt-2 mb-1">{session.meeting_topic || "(no topic)"}</h1>
+        <p className="mb-6 opacity-80">
+          {session.organizer_name ? `${session.organizer_name} <${session.organizer_email}>` : session.organizer_email}
+          {" · "}
+          <span className="font-[family-name:var(--font-geist-mono)]">{session.status}</span>
+        </p>
+
+        {notice && <p className="mb-6 rounded border border-black/10 dark:border-white/15 px-4 py-2">{notice}</p>}
+
+        <Section title="Actions">
+          <div className="flex flex-wrap gap-4">
+            {ACTION_BUTTONS.map(button => (
+              <form key={button.action} method="post" action={`/api/admin/sessions/${session.session_id}`} className="flex flex-col gap-1 max-w-56">
+                <input type="hidden" name="action" value={button.action} />
+                <button type="submit" className="rounded border border-black/20 dark:border-white/20 px-3 py-1 text-sm">{button.label}</button>
+                <span className="text-xs opacity-70">{button.help}</span>
+              </form>
+            ))}
+          </div>
+        </Section>
+
+        {pendingDrafts.length > 0 && (
+          <Section title="Draft awaiting approval">
+            {pendingDrafts.map(draft => (
+              <form key={draft.draft_id} method="post" action={`/api/admin/sessions/${session.session_id}`} className="flex flex-col gap-2 text-sm">
+                <input type="hidden" name="draft_id" value={draft.draft_id} />
+                <p className="opacity-70">
+                  {formatTimestamp(draft.created_at)} · <span className="font-[family-name:var(--font-geist-mono)]">{String(draft.decision.next_step)}</span> to {draft.recipients.join(", ")}
+                </p>
+                <textarea name="email_body" rows={10} defaultValue={typeof draft.decision.email_body === "string" ? draft.decision.email_body : ""} className="rounded border border-black/20 dark:border-white/20 bg-transparent p-2" />
+                <div className="flex gap-2">
+                  <button type="submit" name="action" value="approve_draft" className="rounded border border-black/20 dark:border-white/20 px-3 py-1">Approve and send</button>
+                  <button type="submit" name="action" value="reject_draft" className="rounded border border-black/20 dark:border-white/20 px-3 py-1">Reject</button>
+                </div>
+              </form>
+            ))}
+          </Section>
+        )}
+
+        <Section title="Details">
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm">
+            <dt className="opacity-70">Session ID</dt><dd className="font-[family-name:var(--font-geist-mono)]">{session.session_id}</dd>
+            <dt className="opacity-70">Duration</dt><dd>{session.meeting_duration || "-"}</dd>
+            <dt className="opacity-70">Location</dt><dd>{session.meeting_location || (session.is_virtual ? "Virtual" : "-")}</dd>
+            <dt className="opacity-70">Quorum rule</dt><dd>{session.quorum_rule || "Organizer default"}</dd>
+            <dt className="opacity-70">Draft mode</dt><dd>{session.draft_mode === null ? "Organizer default" : session.draft_mode ? "On" : "Off"}</dd>
+            <dt className="opacity-70">Organizer time zone</dt><dd>{session.organizer_timezone || "-"}</dd>
+            <dt className="opacity-70">Confirmed time</dt><dd>{formatTimestamp(session.confirmed_datetime)}</dd>
+            <dt className="opacity-70">Recurrence</dt><dd>{describeRecurrence(session.recurrence_rule) || "One-off"}</dd>
+            {session.recurrence_exceptions.length > 0 && (
+              <>
+                <dt className="opacity-70">Exceptions</dt>
+                <dd>
+                  {session.recurrence_exceptions.map(exception => (
+                    <div key={exception.occurrence_start}>
+                      {formatTimestamp(exception.occurrence_start)}: {exception.new_start ? `moved to ${formatTimestamp(exception.new_start)}` : "cancelled"}
+                    </div>
+                  ))}
+                </dd>
+              </>
+            )}
+            <dt className="opacity-70">Created</dt><dd>{formatTimestamp(session.created_at)}</dd>
+            <dt className="opacity-70">Updated</dt><dd>{formatTimestamp(session.updated_at)}</dd>
+          </dl>
+        </Section>
+
+        <Section title="Participants">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left border-b border-black/10 dark:border-white/15">
+                <th className="py-1 pr-4">Email</th>
+                <th className="py-1 pr-4">Status</th>
+                <th className="py-1 pr-4">Attendance</th>
+                <th className="py-1 pr-4">Last request sent</th>
+                <th className="py-1">Time zone</th>
+              </tr>
+            </thead>
+            <tbody>
+              {session.participant_status_details.map(participant => (
+                <tr key={participant.email} className="border-b border-black/5 dark:border-white/10">
+                  <td className="py-1 pr-4">{participant.email}</td>
+                  <td className="py-1 pr-4 font-[family-name:var(--font-geist-mono)]">{participant.status}</td>
+                  <td className="py-1 pr-4">{isRequiredParticipant(participant) ? "Required" : "Optional"}</td>
+                  <td className="py-1 pr-4">{formatTimestamp(participant.last_request_sent_at)}</td>
+                  <td className="py-1">{participant.timezone || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Status history">
+          <ul className="text-sm flex flex-col gap-1">
+            {(events.data || []).map(event => (
+              <li key={event.event_id}>
+                {formatTimestamp(event.created_at)}: {event.from_status ?? "(new)"} → {event.to_status}{" "}
+                <span className="opacity-70">[{event.cause}{event.detail ? `: ${event.detail}` : ""}{event.actor_email ? ` by ${event.actor_email}` : ""}]</span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+
+        <Section title="Nudges">
+          {(nudges.data || []).length === 0 ? (
+            <p className="text-sm opacity-70">No reminders sent.</p>
+          ) : (
+            <ul className="text-sm flex flex-col gap-1">
+              {(nudges.data || []).map(nudge => (
+                <li key={nudge.nudge_id}>
+                  {formatTimestamp(nudge.created_at)}:{" "}
+                  {nudge.action === "nudge" ? `Reminder ${nudge.nudge_number ?? ""} to ${nudge.recipient_email}`
+                    : nudge.action === "escalation" ? `Escalated ${nudge.participant_email} to ${nudge.recipient_email}`
+                    : `Told ${nudge.recipient_email} that ${nudge.participant_email} was reminded`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        <Section title="Meeting reminders">
+          {(reminders.data || []).length === 0 ? (
+            <p className="text-sm opacity-70">No meeting reminders sent.</p>
+          ) : (
+            <ul className="text-sm flex flex-col gap-1">
+              {(reminders.data || []).map(reminder => (
+                <li key={reminder.reminder_id}>
+                  {formatTimestamp(reminder.created_at)}: {reminder.offset_minutes}-minute reminder to {reminder.recipient_email}{" "}
+                  <span className="opacity-70">(for {formatTimestamp(reminder.meeting_start)})</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        <Section title="Thread">
+          <ol className="flex flex-col gap-3">
+            {timeline.map(entry => entry.kind === "message" ? (
+              <li key={`message-${entry.message.message_id}`} className="rounded border border-black/10 dark:border-white/15 p-3">
+                <p className="text-xs opacity-70 mb-2">
+                  {formatTimestamp(entry.at)} · {entry.message.message_type} · {entry.message.sender_email || "?"} → {entry.message.recipient_email || "?"}
+                </p>
+                <p className="text-sm font-medium mb-1">{entry.message.subject}</p>
+                <pre className="text-sm whitespace-pre-wrap font-[family-name:var(--font-geist-sans)]">{entry.message.body_text}</pre>
+              </li>
+            ) : (
+              <li key={`decision-${entry.decision.decision_id}`} className="rounded border border-dashed border-black/20 dark:border-white/20 p-3 text-sm">
+                <p className="text-xs opacity-70 mb-1">
+                  {formatTimestamp(entry.at)} · decision ({entry.decision.cause}{entry.decision.actor_email ? ` by ${entry.decision.actor_email}` : ""})
+                </p>
+                <p>
+                  <span className="font-[family-name:var(--font-geist-mono)]">{String(entry.decision.decision.next_step)}</span>
+                  {entry.decision.outcome === "rejected_illegal_transition" && <span className="text-red-600"> (rejected: illegal transition)</span>}
+                  {entry.decision.outcome === "send_failed" && <span className="text-red-600"> (email failed to send)</span>}
+                </p>
+                <details className="mt-1">
+                  <summary className="cursor-pointer opacity-70">Full decision</summary>
+                  <pre className="text-xs whitespace-pre-wrap mt-1">{JSON.stringify(entry.decision.decision, null, 2)}</pre>
+                </details>
+              </li>
+            ))}
+          </ol>
+        </Section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,77 @@
+-- Core scheduling tables: sessions, their email messages and discarded agent emails.
+
+create extension if not exists pgcrypto;
+
+-- Keeps updated_at current on every update
+create or replace function set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create table scheduling_sessions (
+  session_id uuid primary key default gen_random_uuid(),
+  organizer_email text not null,
+  organizer_name text,
+  meeting_topic text,
+  participants text[] not null default '{}',
+  status text not null default 'pending_participant_response',
+  -- One entry per participant: { email, status, last_request_sent_at, timezone? } (see lib/types.ts)
+  participant_status_details jsonb not null default '[]'::jsonb,
+  organizer_timezone text,
+  -- Legacy: per-participant zones now live in participant_status_details[].timezone
+  participant_timezones jsonb,
+  meeting_duration text,
+  meeting_location text,
+  is_virtual boolean,
+  confirmed_datetime timestamptz,
+  webhook_target_address text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz default now(),
+  constraint scheduling_sessions_participant_status_details_is_array
+    check (jsonb_typeof(participant_status_details) = 'array')
+);
+
+create index scheduling_sessions_status_idx on scheduling_sessions (status);
+
+create trigger scheduling_sessions_set_updated_at
+  before update on scheduling_sessions
+  for each row execute function set_updated_at();
+
+create table session_messages (
+  message_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  -- Message-ID header (inbound) or Postmark MessageID (outbound); used for In-Reply-To lookups
+  postmark_message_id text,
+  sender_email text,
+  recipient_email text,
+  subject text,
+  body_text text,
+  body_html text,
+  in_reply_to_message_id text,
+  message_type text not null,
+  created_at timestamptz not null default now(),
+  constraint session_messages_message_type_check
+    check (message_type in ('human_organizer', 'human_participant', 'ai_agent'))
+);
+
+create index session_messages_session_id_created_at_idx on session_messages (session_id, created_at);
+create index session_messages_postmark_message_id_idx on session_messages (postmark_message_id);
+
+create table discarded_agent_emails (
+  log_id uuid primary key default gen_random_uuid(),
+  received_at timestamptz not null default now(),
+  postmark_message_id text,
+  subject text,
+  from_email text,
+  to_recipients text,
+  cc_recipients text,
+  in_reply_to_header text,
+  body_text text,
+  reason text default 'loop detected',
+  full_payload jsonb
+);
@@ -0,0 +1,18 @@
+-- Structured availability windows extracted from participant replies (lib/availability.ts).
+
+create table participant_availability (
+  availability_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  participant_email text not null,
+  start_utc timestamptz not null,
+  end_utc timestamptz not null,
+  timezone text,
+  confidence numeric not null default 1,
+  source_message_id text,
+  created_at timestamptz not null default now(),
+  constraint participant_availability_window_check check (end_utc > start_utc),
+  constraint participant_availability_confidence_check check (confidence >= 0 and confidence <= 1)
+);
+
+create index participant_availability_session_participant_idx
+  on participant_availability (session_id, participant_email);
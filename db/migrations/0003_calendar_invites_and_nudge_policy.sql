@@ -0,0 +1,10 @@
+-- iCalendar SEQUENCE tracking (lib/calendarInvite.ts) and nudge policy overrides (lib/nudgePolicy.ts).
+
+alter table scheduling_sessions
+  add column ics_sequence integer,
+  add column nudge_policy jsonb;
+
+create table organizer_settings (
+  organizer_email text primary key,
+  nudge_policy jsonb
+);
@@ -0,0 +1,13 @@
+-- Webhook idempotency (lib/inboundReceipts.ts) and expiring locks (lib/lease.ts).
+-- Both rely on the primary key raising unique_violation (23505) for a second claim.
+
+create table inbound_message_receipts (
+  message_id text primary key,
+  received_at timestamptz not null default now()
+);
+
+create table leases (
+  lease_name text primary key,
+  holder_id text not null,
+  expires_at timestamptz not null
+);
@@ -0,0 +1,27 @@
+-- Session status audit timeline and the set of valid statuses (lib/sessionStateMachine.ts).
+
+alter table scheduling_sessions
+  add constraint scheduling_sessions_status_check check (status in (
+    'pending_participant_response',
+    'pending_organizer_confirmation',
+    'escalated_to_organizer',
+    'confirmed',
+    'cancelled',
+    'error'
+  )) not valid; -- Rows written before the state machine may hold other statuses
+
+create table session_events (
+  event_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  cause text not null,
+  detail text,
+  actor_email text,
+  message_id text,
+  created_at timestamptz not null default now(),
+  constraint session_events_cause_check
+    check (cause in ('session_created', 'participant_reply', 'ai_decision', 'cron_escalation', 'admin_action'))
+);
+
+create index session_events_session_id_created_at_idx on session_events (session_id, created_at);
@@ -0,0 +1,4 @@
+-- Per-organizer email branding overrides (lib/emailTemplates.ts).
+
+alter table organizer_settings
+  add column branding jsonb;
@@ -0,0 +1,24 @@
+-- One-click slot responses from proposal emails (lib/slotResponses.ts, app/api/respond/[token]/route.ts).
+
+alter table scheduling_sessions
+  add column active_proposal_id uuid;
+
+create table slot_responses (
+  response_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  proposal_id uuid not null,
+  responder_email text not null,
+  option_index integer not null,
+  slot_start timestamptz not null,
+  slot_end timestamptz not null,
+  response text not null check (response in ('accept', 'decline')),
+  created_at timestamptz not null default now(),
+  unique (proposal_id, responder_email, option_index)
+);
+
+create index slot_responses_session_id_idx on slot_responses (session_id);
+
+alter table session_events drop constraint session_events_cause_check;
+alter table session_events
+  add constraint session_events_cause_check
+    check (cause in ('session_created', 'participant_reply', 'ai_decision', 'slot_response', 'cron_escalation', 'admin_action'));
@@ -0,0 +1,5 @@
+-- Web availability picker for participants (app/availability/[token], lib/availabilitySubmissions.ts).
+
+-- Options of the open proposal ([{ "start": ISO, "end": ISO }]), offered on the picker page
+alter table scheduling_sessions
+  add column active_proposal_options jsonb;
@@ -0,0 +1,31 @@
+-- Decision and nudge history for the admin dashboard (app/page.tsx, app/sessions/[sessionId]).
+
+-- Every decision carried out for a session (lib/decisionExecutor.ts), whether it came from the
+-- AI or was built in code (one-click responses, admin actions)
+create table session_decisions (
+  decision_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  cause text not null check (cause in ('ai_decision', 'slot_response', 'admin_action')),
+  trigger_message_id text,
+  actor_email text,
+  decision jsonb not null,
+  outcome text not null check (outcome in ('executed', 'rejected_illegal_transition')),
+  outgoing_message_id text,
+  created_at timestamptz not null default now()
+);
+
+create index session_decisions_session_id_created_at_idx on session_decisions (session_id, created_at);
+
+-- Reminders and escalations sent by the nudge cron (app/api/cron/nudge/route.ts)
+create table session_nudges (
+  nudge_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  participant_email text not null,
+  action text not null check (action in ('nudge', 'escalation', 'organizer_notification')),
+  nudge_number integer,
+  recipient_email text not null,
+  message_id text,
+  created_at timestamptz not null default now()
+);
+
+create index session_nudges_session_id_created_at_idx on session_nudges (session_id, created_at);
@@ -0,0 +1,28 @@
+-- Draft mode: the AI's emails to participants wait for the organizer's approval (lib/decisionDrafts.ts).
+
+-- Per-organizer default, and a per-session override (null inherits the organizer's setting)
+alter table organizer_settings
+  add column draft_mode boolean not null default false;
+
+alter table scheduling_sessions
+  add column draft_mode boolean;
+
+-- AI decisions held for review. Only approved drafts are sent (and saved as ai_agent messages).
+create table session_drafts (
+  draft_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  decision jsonb not null,
+  recipients text[] not null default '{}',
+  subject text not null,
+  trigger_message_id text not null,
+  references_header text,
+  actor_email text not null,
+  reschedule boolean not null default false,
+  session_updates jsonb,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'superseded')),
+  reviewed_by text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index session_drafts_session_id_status_idx on session_drafts (session_id, status);
@@ -0,0 +1,12 @@
+-- Participants added, dropped or replaced by email after the session was created (lib/participantChanges.ts).
+
+-- Newcomers' availability requests, and status changes caused by a participant change
+alter table session_events drop constraint session_events_cause_check;
+alter table session_events
+  add constraint session_events_cause_check
+    check (cause in ('session_created', 'participant_reply', 'participant_change', 'ai_decision', 'slot_response', 'cron_escalation', 'admin_action'));
+
+alter table session_decisions drop constraint session_decisions_cause_check;
+alter table session_decisions
+  add constraint session_decisions_cause_check
+    check (cause in ('ai_decision', 'slot_response', 'admin_action', 'participant_change'));
@@ -0,0 +1,9 @@
+-- Optional attendees and quorum-based scheduling (lib/quorum.ts). Whether each participant is
+-- required lives in participant_status_details (jsonb, key 'required'), so only the rule needs columns.
+
+-- Per-organizer default (null falls back to QUORUM_RULE, then 'required'), and a per-session override
+alter table organizer_settings
+  add column quorum_rule text check (quorum_rule in ('all', 'required', 'majority'));
+
+alter table scheduling_sessions
+  add column quorum_rule text check (quorum_rule in ('all', 'required', 'majority'));
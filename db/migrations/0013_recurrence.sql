@@ -0,0 +1,7 @@
+-- Recurring meetings (lib/recurrence.ts). A session's series is an RRULE value such as
+-- 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU'; confirmed_datetime stays the start of its first occurrence.
+
+alter table scheduling_sessions
+  add column recurrence_rule text,
+  -- Occurrences moved or cancelled on their own: [{ "occurrence_start": iso, "new_start": iso | null }]
+  add column recurrence_exceptions jsonb;
@@ -0,0 +1,21 @@
+-- Pre-meeting reminders for confirmed sessions (lib/reminders.ts, app/api/cron/reminders/route.ts).
+
+-- Minutes before the meeting at which attendees are reminded, e.g. '{1440,60}'. Null falls back
+-- to REMINDER_OFFSETS_MINUTES; an empty array turns reminders off for the organizer.
+alter table organizer_settings
+  add column reminder_offsets_minutes integer[];
+
+-- One row per reminder sent, per recipient. meeting_start is the start the reminder was for, so a
+-- moved meeting or the next occurrence of a series gets its own reminders.
+create table session_reminders (
+  reminder_id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references scheduling_sessions (session_id) on delete cascade,
+  recipient_email text not null,
+  meeting_start timestamptz not null,
+  offset_minutes integer not null,
+  message_id text,
+  created_at timestamptz not null default now(),
+  unique (session_id, meeting_start, offset_minutes, recipient_email)
+);
+
+create index session_reminders_session_id_created_at_idx on session_reminders (session_id, created_at);
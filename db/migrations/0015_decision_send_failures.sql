@@ -0,0 +1,5 @@
+-- Decisions whose email failed to send leave the session unchanged (lib/decisionExecutor.ts)
+alter table session_decisions drop constraint session_decisions_outcome_check;
+alter table session_decisions
+  add constraint session_decisions_outcome_check
+    check (outcome in ('executed', 'rejected_illegal_transition', 'send_failed'));
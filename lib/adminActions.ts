@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto';
+import { schedulingDecisionSchema, type SchedulingDecision } from './schedulingDecision';
+import type { SchedulingSession } from './types';
+import { findSessionById, findSessionDraft, listSessionDecisions, listSessionMessages } from './sessionRepository';
+import { withSessionLease } from './lease';
+import { executeSchedulingDecision } from './decisionExecutor';
+import { decideNextStep } from './schedulingAgent';
+import { transitionSession } from './sessionStateMachine';
+import { executeOrDraftDecision, reviewDraft, type DecisionOrDraftOutcome } from './decisionDrafts';
+
+// Actions an admin can take on a session from the dashboard (app/sessions/[sessionId]):
+//   - cancel:  process_cancellation, emailing everyone (with an ICS CANCEL if it was confirmed)
+//   - resend:  carries out the last decision that sent an email again (fresh links, same thread)
+//   - advance: stops waiting for replies and asks the AI for the next step right away (held for
+//              review like any other AI decision when the session is in draft mode)
+//   - approve_draft / reject_draft: reviews a draft held in draft mode (lib/decisionDrafts.ts)
+// All of them go through lib/decisionExecutor.ts, under the same session lease as the webhook.
+
+export const ADMIN_ACTIONS = ['cancel', 'resend', 'advance', 'approve_draft', 'reject_draft'] as const;
+export type AdminAction = typeof ADMIN_ACTIONS[number];
+
+// Form fields used by the draft actions
+export interface AdminActionInput {
+  draftId?: string | null;
+  emailBody?: string | null;
+}
+
+export type AdminActionOutcome = {
+  status: 'done' | 'not_found' | 'not_allowed' | 'busy' | 'failed';
+  detail: string;
+};
+
+// Statuses force-advance can move on from
+const ADVANCEABLE_STATUSES = ['pending_participant_response', 'pending_organizer_confirmation', 'escalated_to_organizer', 'error'];
+
+const FORCE_ADVANCE_INSTRUCTION =
+  "An admin asked you to move this session forward now. Don't wait for further replies: work with the participants who have replied (and the availability they gave), and tell the organizer who hasn't replied if that matters.";
+
+export function isAdminAction(value: unknown): value is AdminAction {
+  return typeof value === 'string' && (ADMIN_ACTIONS as readonly string[]).includes(value);
+}
+
+function describeOutcome(decision: SchedulingDecision, outcome: DecisionOrDraftOutcome): AdminActionOutcome {
+  if (outcome.status === 'drafted') {
+    return { status: 'done', detail: `Held '${decision.next_step}' as a draft for the organizer to review.` };
+  }
+  if (outcome.status === 'draft_failed') {
+    return { status: 'failed', detail: `Couldn't save '${decision.next_step}' as a draft. Nothing was sent.` };
+  }
+  if (outcome.status === 'rejected_illegal_transition') {
+    return { status: 'failed', detail: `'${decision.next_step}' is not allowed from '${outcome.from}'.` };
+  }
+  if (outcome.status === 'send_failed') {
+    return { status: 'failed', detail: `Couldn't send the email for '${decision.next_step}'. The session was not changed.` };
+  }
+  return outcome.outgoingMessageId
+    ? { status: 'done', detail: `Carried out '${decision.next_step}' and sent the email.` }
+    : { status: 'done', detail: `Carried out '${decision.next_step}' (no email was sent).` };
+}
+
+async function cancelSession(session: SchedulingSession, subject: string, triggerMessageId: string, actor: string): Promise<AdminActionOutcome> {
+  if (session.status === 'cancelled') return { status: 'not_allowed', detail: 'The session is already cancelled.' };
+
+  const topic = session.meeting_topic || 'the meeting';
+  const body = session.status === 'confirmed'
+    ? `Hi everyone,\n\n"${topic}" has been cancelled. The calendar invite is withdrawn, so it should disappear from your calendar.`
+    : `Hi everyone,\n\nScheduling for "${topic}" has been cancelled, so there's nothing more you need to do.`;
+  const decision: SchedulingDecision = { next_step: 'process_cancellation', recipients: [], email_body: body, intro: body };
+  const outcome = await executeSchedulingDecision(decision, {
+    session,
+    currentStatus: session.status,
+    participantDetails: session.participant_status_details,
+    subject,
+    trigger: { messageId: triggerMessageId, referencesHeader: null, actorEmail: actor, cause: 'admin_action' },
+    reschedule: false,
+  });
+  return describeOutcome(decision, outcome);
+}
+
+async function resendLastEmail(session: SchedulingSession, subject: string, actor: string): Promise<AdminActionOutcome> {
+  const { data: decisions, error } = await listSessionDecisions(session.session_id);
+  if (error) {
+    console.error(`Supabase error loading decisions for session ${session.session_id}:`, error);
+    return { status: 'failed', detail: "Couldn't load the session's decisions." };
+  }
+  const lastSent = [...decisions].reverse().find(entry => entry.outcome === 'executed' && entry.outgoing_message_id);
+  if (!lastSent) return { status: 'not_allowed', detail: 'No email from a logged decision to resend.' };
+  const parsed = schedulingDecisionSchema.safeParse(lastSent.decision);
+  if (!parsed.success) return { status: 'not_allowed', detail: 'The last decision can no longer be read.' };
+
+  const outcome = await executeSchedulingDecision(parsed.data, {
+    session,
+    currentStatus: session.status,
+    participantDetails: session.participant_status_details,
+    subject,
+    trigger: { messageId: lastSent.outgoing_message_id!, referencesHeader: null, actorEmail: actor, cause: 'admin_action' },
+    reschedule: false,
+  });
+  return describeOutcome(parsed.data, outcome);
+}
+
+async function forceAdvance(session: SchedulingSession, subject: string, triggerMessageId: string, actor: string): Promise<AdminActionOutcome> {
+  if (!ADVANCEABLE_STATUSES.includes(session.status)) {
+    return { status: 'not_allowed', detail: `A '${session.status}' session can't be advanced.` };
+  }
+
+  let currentStatus = session.status;
+  if (currentStatus !== 'pending_organizer_confirmation') {
+    const transitionResult = await transitionSession({
+      sessionId: session.session_id,
+      from: currentStatus,
+      to: 'pending_organizer_confirmation',
+      cause: { type: 'admin_action', detail: 'force_advance', actor },
+    });
+    if (!transitionResult.ok) return { status: 'failed', detail: `Couldn't move the session on (${transitionResult.reason}).` };
+    currentStatus = 'pending_organizer_confirmation';
+  }
+
+  // An AI decision like any other, so draft mode holds it for the organizer's review
+  const decision = await decideNextStep({ session, participantDetails: session.participant_status_details, instruction: FORCE_ADVANCE_INSTRUCTION });
+  const outcome = await executeOrDraftDecision(decision, {
+    session,
+    currentStatus,
+    participantDetails: session.participant_status_details,
+    subject,
+    trigger: { messageId: triggerMessageId, referencesHeader: null, actorEmail: actor, cause: 'admin_action' },
+    reschedule: false,
+  });
+  return describeOutcome(decision, outcome);
+}
+
+async function reviewSessionDraft(sessionId: string, action: 'approve_draft' | 'reject_draft', input: AdminActionInput, actor: string): Promise<AdminActionOutcome> {
+  if (!input.draftId) return { status: 'not_allowed', detail: 'No draft was given.' };
+  const { data: draft, error } = await findSessionDraft(input.draftId);
+  if (error) {
+    console.error(`Supabase error loading draft ${input.draftId}:`, error);
+    return { status: 'failed', detail: "Couldn't load the draft." };
+  }
+  if (!draft || draft.session_id !== sessionId) return { status: 'not_found', detail: 'Draft not found.' };
+
+  const outcome = await reviewDraft(draft.draft_id, { verdict: action === 'approve_draft' ? 'approve' : 'reject', emailBody: input.emailBody }, actor);
+  switch (outcome.status) {
+    case 'sent':
+      return { status: 'done', detail: 'Approved the draft and sent the email.' };
+    case 'rejected':
+      return { status: 'done', detail: 'Rejected the draft. Nothing was sent.' };
+    case 'closed':
+      return { status: 'not_allowed', detail: 'The draft was already reviewed, superseded, or can no longer be sent.' };
+    case 'not_found':
+      return { status: 'not_found', detail: 'Draft not found.' };
+    case 'busy':
+      return { status: 'busy', detail: 'The session is being processed. Try again in a moment.' };
+    case 'failed':
+      return { status: 'failed', detail: "Couldn't review the draft. Check the logs." };
+  }
+}
+
+/**
+ * Runs a dashboard action on a session. `actor` is the dashboard user, recorded as the
+ * actor in session_events and session_decisions.
+ */
+export async function runAdminAction(sessionId: string, action: AdminAction, actor: string, input: AdminActionInput = {}): Promise<AdminActionOutcome> {
+  // Draft reviews take the session lease themselves
+  if (action === 'approve_draft' || action === 'reject_draft') return reviewSessionDraft(sessionId, action, input, actor);
+
+  const leased = await withSessionLease(sessionId, async (): Promise<AdminActionOutcome> => {
+    const { data: session, error } = await findSessionById(sessionId);
+    if (error) {
+      console.error(`Supabase error loading session ${sessionId} for admin action '${action}':`, error);
+      return { status: 'failed', detail: "Couldn't load the session." };
+    }
+    if (!session) return { status: 'not_found', detail: 'Session not found.' };
+    console.log(`Admin: ${actor} requested '${action}' on session ${sessionId} (status '${session.status}').`);
+
+    // Outgoing emails are threaded onto the latest message in the conversation
+    const { data: messages } = await listSessionMessages(sessionId);
+    const lastMessage = messages?.at(-1);
+    const subject = [...(messages || [])].reverse().find(m => m.message_type === 'ai_agent')?.subject || session.meeting_topic || 'Meeting';
+    const triggerMessageId = lastMessage?.postmark_message_id || `admin-${action}-${randomUUID()}`;
+
+    switch (action) {
+      case 'cancel':
+        return await cancelSession(session, subject, triggerMessageId, actor);
+      case 'resend':
+        return await resendLastEmail(session, subject, actor);
+      case 'advance':
+        return await forceAdvance(session, subject, triggerMessageId, actor);
+    }
+  });
+  return leased.acquired ? leased.result : { status: 'busy', detail: 'The session is being processed. Try again in a moment.' };
+}
@@ -0,0 +1,174 @@
+import { getLanguageModel } from './languageModel';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import type { Langfuse } from 'langfuse';
+import { deleteParticipantAvailability, insertParticipantAvailability, listParticipantAvailability } from './sessionRepository';
+import type { AvailabilityWindow } from './slotEngine';
+import { resolveTimeZone } from './timezone';
+import { SERIES_CHECK_OCCURRENCES } from './recurrence';
+
+// Zod schema for a single availability window extracted from a reply
+const availabilitySlotSchema = z.object({
+  start: z.string().describe("Start of the window as an ISO 8601 UTC timestamp (e.g. 2025-04-15T15:00:00Z)."),
+  end: z.string().describe("End of the window as an ISO 8601 UTC timestamp. Must be after start."),
+  timezone: z.string().nullable().describe("The time zone the participant expressed this window in, as written or as an IANA ID (e.g. 'America/New_York'). Null if unknown."),
+  confidence: z.number().min(0).max(1).describe("How confident you are that this window is correct (0-1). Use lower values for vague phrases like 'mornings' or when the time zone had to be guessed."),
+});
+
+// Zod schema for the availability extraction pass
+const availabilityExtractionSchema = z.object({
+  slots: z.array(availabilitySlotSchema).describe("Every window in which the participant said they are available. Empty if they gave no availability."),
+});
+
+export type AvailabilitySlot = z.infer<typeof availabilitySlotSchema>;
+
+// Stored availability for one participant
+export interface StoredParticipantAvailability {
+  timezone: string | null; // Most recently stated time zone, if any
+  windows: AvailabilityWindow[];
+}
+
+const availabilitySystemMessage = `You extract meeting availability from a single email reply.
+Convert every time window the sender says they are AVAILABLE into explicit UTC intervals.
+
+Rules:
+*   Resolve relative dates ("tomorrow", "next Tuesday", "this week") against the reference date provided.
+*   If the sender states a time zone, use it. Otherwise use the time zone hint provided. If neither is known, assume UTC and lower the confidence.
+*   Expand ranges such as "Tuesday or Wednesday 2-4pm" into one slot per day.
+*   Vague windows map to: morning 09:00-12:00, afternoon 12:00-17:00, evening 17:00-20:00, "any time"/"all day" 09:00-17:00 (local time), with confidence of at most 0.6.
+*   Do NOT include times the sender says they are busy or unavailable.
+*   Ignore quoted text from earlier emails in the thread (lines starting with ">" or below "On ... wrote:").
+*   If the email contains no availability, return an empty slots array.`;
+
+/**
+ * Runs a second generateObject pass over a participant's reply to turn free-text
+ * availability into explicit UTC intervals.
+ */
+export async function extractParticipantAvailability({
+  emailBody,
+  senderEmail,
+  referenceDate,
+  timezoneHint,
+  recurring = false,
+  trace,
+}: {
+  emailBody: string;
+  senderEmail: string;
+  referenceDate: Date;
+  timezoneHint: string | null;
+  recurring?: boolean; // The meeting repeats, so recurring availability ("Tuesdays are free") matters
+  trace?: ReturnType<Langfuse['trace']>;
+}): Promise<AvailabilitySlot[]> {
+  const prompt = `Reference date (when this email was sent): ${referenceDate.toISOString()}
+Time zone hint: ${timezoneHint || 'Unknown'}
+Sender: ${senderEmail}${recurring ? `
+Meeting: recurring. Expand availability that repeats ("Tuesday afternoons are always free", "any Monday") into one slot per matching day over the next ${SERIES_CHECK_OCCURRENCES} weeks.` : ''}
+
+Email body:
+${emailBody}`;
+
+  const lfGeneration = trace?.generation({
+    name: 'availability-extraction',
+    input: prompt,
+    model: 'gpt-4o',
+    metadata: { senderEmail, schemaUsed: 'availabilityExtractionSchema' },
+  });
+
+  try {
+    const { object, usage } = await generateObject({
+      model: getLanguageModel(),
+      schema: availabilityExtractionSchema,
+      system: availabilitySystemMessage,
+      prompt,
+    });
+    lfGeneration?.end({ output: object, usage });
+
+    // Drop anything the model produced that isn't a usable interval
+    const validSlots = object.slots.filter(slot => {
+      const start = Date.parse(slot.start);
+      const end = Date.parse(slot.end);
+      return !isNaN(start) && !isNaN(end) && end > start;
+    });
+    console.log(`Extracted ${validSlots.length} availability slot(s) for ${senderEmail}.`);
+    return validSlots;
+  } catch (error) {
+    console.error(`Error extracting availability for ${senderEmail}:`, error);
+    lfGeneration?.end({ output: { error: error instanceof Error ? error.message : String(error) }, level: 'ERROR' });
+    return [];
+  }
+}
+
+/**
+ * Stores a participant's extracted availability, replacing any windows
+ * previously extracted for them in this session.
+ */
+export async function saveParticipantAvailability(
+  sessionId: string,
+  participantEmail: string,
+  slots: AvailabilitySlot[],
+  sourceMessageId: string | null,
+): Promise<void> {
+  if (slots.length === 0) {
+    console.log(`No availability slots to save for ${participantEmail}. Keeping any existing windows.`);
+    return;
+  }
+
+  const { error: deleteError } = await deleteParticipantAvailability(sessionId, participantEmail);
+  if (deleteError) {
+    console.error(`Supabase error clearing previous availability for ${participantEmail}:`, deleteError);
+  }
+
+  const { error: insertError } = await insertParticipantAvailability(
+    slots.map(slot => ({
+      session_id: sessionId,
+      participant_email: participantEmail.toLowerCase(),
+      start_utc: new Date(slot.start).toISOString(),
+      end_utc: new Date(slot.end).toISOString(),
+      // Store the canonical IANA zone; fall back to the raw string so nothing is lost
+      timezone: resolveTimeZone(slot.timezone) || slot.timezone,
+      confidence: slot.confidence,
+      source_message_id: sourceMessageId,
+    }))
+  );
+  if (insertError) {
+    console.error(`Supabase error saving availability for ${participantEmail}:`, insertError);
+  } else {
+    console.log(`Saved ${slots.length} availability slot(s) for ${participantEmail}.`);
+  }
+}
+
+/**
+ * Loads all stored availability for a session, keyed by lower-cased participant email.
+ */
+export async function loadSessionAvailability(sessionId: string): Promise<Map<string, StoredParticipantAvailability>> {
+  const availability = new Map<string, StoredParticipantAvailability>();
+  const { data, error } = await listParticipantAvailability(sessionId);
+
+  if (error) {
+    console.error(`Supabase error loading availability for session ${sessionId}:`, error);
+    return availability;
+  }
+
+  for (const row of data || []) {
+    const email = row.participant_email.toLowerCase();
+    const entry = availability.get(email) || { timezone: null, windows: [] };
+    entry.windows.push({
+      start: Date.parse(row.start_utc),
+      end: Date.parse(row.end_utc),
+      confidence: row.confidence ?? undefined,
+    });
+    if (row.timezone) entry.timezone = row.timezone;
+    availability.set(email, entry);
+  }
+  return availability;
+}
+
+/**
+ * Deletes a participant's stored availability, e.g. once they are removed from the session.
+ */
+export async function clearParticipantAvailability(sessionId: string, participantEmail: string): Promise<void> {
+  const { error } = await deleteParticipantAvailability(sessionId, participantEmail);
+  if (error) {
+    console.error(`Supabase error clearing availability for ${participantEmail}:`, error);
+  }
+}
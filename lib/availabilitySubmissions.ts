@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { ParticipantStatusDetail, SchedulingSession } from './types';
+import type { AvailabilityTokenPayload } from './responseTokens';
+import { findSessionById, insertSessionMessage, listSessionMessages, updateSession } from './sessionRepository';
+import { withSessionLease } from './lease';
+import { loadSessionAvailability, saveParticipantAvailability } from './availability';
+import { mergeIntervals, type TimeInterval } from './slotEngine';
+import { parseDurationMinutes } from './calendarInvite';
+import { canonicalizeTimeZone, formatRangeInTimeZone, resolveTimeZone } from './timezone';
+import { transitionSession } from './sessionStateMachine';
+import { getNameFromEmail, sameEmail } from './decisionExecutor';
+import { executeOrDraftDecision } from './decisionDrafts';
+import { decideNextStep } from './schedulingAgent';
+import { hasQuorum, loadQuorumRule } from './quorum';
+
+// Availability submitted on the participant picker page (app/availability/[token]). A
+// submission is handled exactly like an email reply with availability: the windows are stored
+// in participant_availability, the participant is marked 'received', the submission is added
+// to the conversation, and once every participant has replied the AI decides the next step.
+
+// How far ahead a submitted window may reach
+const MAX_WINDOW_HORIZON_DAYS = 90;
+
+export const availabilitySubmissionSchema = z.object({
+  timeZone: z.string().nullable(), // Zone the participant picked the times in
+  windows: z.array(z.object({ start: z.string(), end: z.string() })).min(1).max(200), // ISO instants
+});
+
+export type AvailabilitySubmission = z.infer<typeof availabilitySubmissionSchema>;
+
+// What the picker page needs to render
+export type AvailabilityPickerState =
+  | {
+      status: 'open';
+      topic: string;
+      organizerName: string;
+      durationMinutes: number;
+      timeZone: string | null; // Participant's known zone; the page falls back to the browser's
+      proposedOptions: TimeInterval[];
+      currentWindows: TimeInterval[];
+      submitted: boolean;
+    }
+  | { status: 'closed' | 'failed' };
+
+export type AvailabilitySubmissionOutcome =
+  | { status: 'recorded'; waitingForOthers: boolean }
+  | { status: 'invalid' | 'closed' | 'busy' | 'failed' };
+
+// The picker is only open while participants are being asked for their availability
+function findOpenParticipant(session: SchedulingSession | null, email: string): ParticipantStatusDetail | null {
+  if (!session || session.status !== 'pending_participant_response') return null;
+  const participant = session.participant_status_details.find(p => sameEmail(p.email, email));
+  return participant && participant.status !== 'cancelled' ? participant : null;
+}
+
+/**
+ * Loads what the picker page shows for a verified token, or 'closed' once the session no
+ * longer needs this participant's availability.
+ */
+export async function loadAvailabilityPicker(payload: AvailabilityTokenPayload): Promise<AvailabilityPickerState> {
+  const { data: session, error } = await findSessionById(payload.sid);
+  if (error) {
+    console.error(`Supabase error loading session ${payload.sid} for the availability picker:`, error);
+    return { status: 'failed' };
+  }
+  const participant = findOpenParticipant(session, payload.em);
+  if (!session || !participant) return { status: 'closed' };
+
+  const stored = (await loadSessionAvailability(session.session_id)).get(payload.em.toLowerCase());
+  return {
+    status: 'open',
+    topic: session.meeting_topic || 'Meeting',
+    organizerName: session.organizer_name || getNameFromEmail(session.organizer_email),
+    durationMinutes: parseDurationMinutes(session.meeting_duration),
+    timeZone: resolveTimeZone(participant.timezone) || resolveTimeZone(stored?.timezone),
+    proposedOptions: (session.active_proposal_options || []).map(option => ({ start: Date.parse(option.start), end: Date.parse(option.end) })),
+    currentWindows: (stored?.windows || []).map(({ start, end }) => ({ start, end })),
+    submitted: participant.status === 'received',
+  };
+}
+
+// Valid windows within the horizon, merged, or an empty list
+function normalizeWindows(windows: AvailabilitySubmission['windows']): TimeInterval[] {
+  const now = Date.now();
+  const horizonEnd = now + MAX_WINDOW_HORIZON_DAYS * 24 * 60 * 60 * 1000;
+  const valid = windows
+    .map(window => ({ start: Date.parse(window.start), end: Date.parse(window.end) }))
+    .filter(window => !isNaN(window.start) && !isNaN(window.end) && window.end > window.start && window.end > now && window.start < horizonEnd);
+  return mergeIntervals(valid);
+}
+
+/**
+ * Records a participant's availability from the picker page and, if they were the last one
+ * to reply, asks the AI for the next step and carries it out.
+ */
+export async function handleAvailabilitySubmission(payload: AvailabilityTokenPayload, submission: AvailabilitySubmission): Promise<AvailabilitySubmissionOutcome> {
+  const windows = normalizeWindows(submission.windows);
+  if (windows.length === 0) return { status: 'invalid' };
+  const timeZone = canonicalizeTimeZone(submission.timeZone);
+
+  const leased = await withSessionLease(payload.sid, async (): Promise<AvailabilitySubmissionOutcome> => {
+    const { data: session, error: sessionError } = await findSessionById(payload.sid);
+    if (sessionError) {
+      console.error(`Supabase error loading session ${payload.sid} for an availability submission:`, sessionError);
+      return { status: 'failed' };
+    }
+    const participant = findOpenParticipant(session, payload.em);
+    if (!session || !participant) return { status: 'closed' };
+    const sessionId = session.session_id;
+
+    // Keep the submission in the conversation, so the AI sees it like an email reply
+    const submissionMessageId = `availability-form-${randomUUID()}`;
+    const { data: messages } = await listSessionMessages(sessionId);
+    const lastAgentEmail = [...(messages || [])].reverse().find(m => m.message_type === 'ai_agent');
+    const windowLines = windows.map(window => `- ${formatRangeInTimeZone(window.start, window.end, timeZone)}`);
+    const { error: messageError } = await insertSessionMessage({
+      session_id: sessionId,
+      postmark_message_id: submissionMessageId,
+      sender_email: participant.email,
+      recipient_email: null,
+      subject: lastAgentEmail?.subject || session.meeting_topic,
+      body_text: `[Availability form] I'm available:\n${windowLines.join('\n')}`,
+      message_type: 'human_participant',
+      in_reply_to_message_id: lastAgentEmail?.postmark_message_id || null,
+    });
+    if (messageError) console.error('Supabase error saving availability form message:', messageError);
+
+    await saveParticipantAvailability(
+      sessionId,
+      participant.email,
+      windows.map(window => ({ start: new Date(window.start).toISOString(), end: new Date(window.end).toISOString(), timezone: timeZone, confidence: 1 })),
+      submissionMessageId
+    );
+
+    // Same status update as an email reply
+    const participantDetails = session.participant_status_details.map(p =>
+      sameEmail(p.email, participant.email) ? { ...p, status: 'received', timezone: timeZone || p.timezone || null } : p
+    );
+    const { error: statusUpdateError } = await updateSession(sessionId, { participant_status_details: participantDetails });
+    if (statusUpdateError) console.error('Supabase error updating participant status:', statusUpdateError);
+
+    if (!hasQuorum(participantDetails, await loadQuorumRule(session))) {
+      console.log(`Session ${sessionId}: Waiting for replies from other participants. No AI action taken.`);
+      return { status: 'recorded', waitingForOthers: true };
+    }
+
+    console.log(`Session ${sessionId}: Enough participants have replied. Proceeding to contact organizer.`);
+    let currentStatus = session.status;
+    const transitionResult = await transitionSession({
+      sessionId,
+      from: currentStatus,
+      to: 'pending_organizer_confirmation',
+      cause: { type: 'participant_reply', actor: participant.email, messageId: submissionMessageId },
+    });
+    if (transitionResult.ok) currentStatus = 'pending_organizer_confirmation';
+
+    const aiDecision = await decideNextStep({ session, participantDetails });
+    const outcome = await executeOrDraftDecision(aiDecision, {
+      session,
+      currentStatus,
+      participantDetails,
+      subject: lastAgentEmail?.subject || session.meeting_topic || 'Meeting',
+      trigger: {
+        messageId: lastAgentEmail?.postmark_message_id || submissionMessageId,
+        referencesHeader: null,
+        actorEmail: participant.email,
+        cause: 'ai_decision',
+      },
+      reschedule: false,
+    });
+    if (outcome.status === 'rejected_illegal_transition') {
+      console.warn(`Session ${sessionId}: AI decision after availability form was rejected (${outcome.from} -> ${outcome.to}).`);
+    } else if (outcome.status === 'send_failed') {
+      console.error(`Session ${sessionId}: the email for the AI decision after availability form failed to send.`);
+    }
+    return { status: 'recorded', waitingForOthers: false };
+  });
+  return leased.acquired ? leased.result : { status: 'busy' };
+}
@@ -0,0 +1,236 @@
+import type { EmailAttachment } from './emailTransport';
+import { getTimeZoneOffsetMinutes } from './timezone';
+
+// Define interface for a calendar attendee
+interface CalendarAttendee {
+  email: string;
+  name?: string | null;
+}
+
+// Define interface for calendar invite parameters
+interface CalendarInviteParams {
+  sessionId: string;
+  method: 'REQUEST' | 'CANCEL';
+  sequence: number;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  organizer: CalendarAttendee;
+  attendees: CalendarAttendee[];
+  recurrenceRule?: string | null; // RRULE value for the whole series (see lib/recurrence.ts)
+  recurrenceId?: Date | null; // Original start of the one occurrence this update or cancellation is about
+  timeZone?: string | null; // Zone the series repeats in; recurring events are written in its local time
+}
+
+const DEFAULT_MEETING_DURATION_MINUTES = 60;
+
+/**
+ * Builds a stable iCalendar UID for a scheduling session so that later
+ * updates and cancellations replace the same event in attendees' calendars.
+ */
+export function getCalendarEventUid(sessionId: string): string {
+  const baseFromAddress = process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com';
+  const domain = baseFromAddress.split('@')[1] || 'yourdomain.com';
+  return `${sessionId}@${domain}`;
+}
+
+/**
+ * Converts the free-text meeting_duration stored on a session (e.g. "30 minutes",
+ * "1 hour", "1.5 hrs", "1 hour 30 minutes") into minutes.
+ * Falls back to 60 minutes when the duration is missing or cannot be parsed.
+ */
+export function parseDurationMinutes(duration: string | null | undefined): number {
+  if (!duration) return DEFAULT_MEETING_DURATION_MINUTES;
+
+  const hoursMatch = duration.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i);
+  const minutesMatch = duration.match(/(\d+)\s*(?:minutes?|mins?|m)\b/i);
+
+  let total = 0;
+  if (hoursMatch) total += parseFloat(hoursMatch[1]) * 60;
+  if (minutesMatch) total += parseInt(minutesMatch[1], 10);
+
+  if (total > 0) return Math.round(total);
+
+  // Fall back to a bare number, which is almost always minutes in practice
+  const bareNumber = duration.match(/\d+/);
+  if (bareNumber) return parseInt(bareNumber[0], 10);
+
+  return DEFAULT_MEETING_DURATION_MINUTES;
+}
+
+// Format a Date as an iCalendar UTC date-time (e.g. 20250415T150000Z)
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Format a Date as local time in a zone (e.g. 20250415T110000), for use with TZID
+function formatIcsLocalDate(date: Date, timeZone: string): string {
+  return formatIcsDate(new Date(date.getTime() + getTimeZoneOffsetMinutes(timeZone, date) * 60000)).replace(/Z$/, '');
+}
+
+// Format an offset in minutes as an iCalendar UTC offset (e.g. -0400)
+function formatIcsOffset(offsetMinutes: number): string {
+  const abs = Math.abs(offsetMinutes);
+  return `${offsetMinutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Builds a VTIMEZONE for a zone from the offset changes the runtime knows about, from a year
+ * before to two years after `around`. Each change becomes its own observance, so no
+ * transition rules need to be guessed; a zone without DST gets a single STANDARD observance.
+ */
+function buildVTimezone(timeZone: string, around: Date): string[] {
+  const hour = 60 * 60 * 1000;
+  const offsetAt = (ms: number) => getTimeZoneOffsetMinutes(timeZone, new Date(ms));
+  const from = Math.floor(around.getTime() / hour) * hour - 365 * 24 * hour;
+  const to = around.getTime() + 2 * 365 * 24 * hour;
+
+  const observances: string[] = [];
+  for (let day = from; day < to; day += 24 * hour) {
+    const before = offsetAt(day);
+    const after = offsetAt(day + 24 * hour);
+    if (before === after) continue;
+    // Narrow the change down to the hour it happens in
+    let low = day;
+    let high = day + 24 * hour;
+    while (high - low > hour) {
+      const mid = low + Math.floor((high - low) / hour / 2) * hour;
+      if (offsetAt(mid) === before) low = mid;
+      else high = mid;
+    }
+    const kind = after > before ? 'DAYLIGHT' : 'STANDARD';
+    observances.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatIcsDate(new Date(high + before * 60000)).replace(/Z$/, '')}`,
+      `TZOFFSETFROM:${formatIcsOffset(before)}`,
+      `TZOFFSETTO:${formatIcsOffset(after)}`,
+      `END:${kind}`,
+    );
+  }
+  if (observances.length === 0) {
+    const offset = formatIcsOffset(offsetAt(around.getTime()));
+    observances.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+  return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+// Escape TEXT values per RFC 5545 section 3.3.11
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Quote a parameter value (e.g. CN) if it contains characters that require it
+function formatIcsParam(value: string): string {
+  const cleaned = value.replace(/"/g, "'");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+// Fold content lines longer than 75 octets per RFC 5545 section 3.1
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatAttendee(attendee: CalendarAttendee, role: 'ORGANIZER' | 'ATTENDEE'): string {
+  const cn = attendee.name ? `;CN=${formatIcsParam(attendee.name)}` : '';
+  if (role === 'ORGANIZER') {
+    return `ORGANIZER${cn}:mailto:${attendee.email}`;
+  }
+  return `ATTENDEE${cn};ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`;
+}
+
+/**
+ * Generates an RFC 5545 iCalendar document for a scheduling session. A recurring series
+ * carries an RRULE; an update or cancellation of a single occurrence carries RECURRENCE-ID
+ * instead. Both are written in the series' local time (with a VTIMEZONE) when its zone is
+ * known, so occurrences keep their wall-clock time across DST changes.
+ */
+export function buildCalendarInvite({
+  sessionId,
+  method,
+  sequence,
+  start,
+  durationMinutes,
+  summary,
+  description,
+  location,
+  organizer,
+  attendees,
+  recurrenceRule,
+  recurrenceId,
+  timeZone,
+}: CalendarInviteParams): string {
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+  const recurring = Boolean(recurrenceRule || recurrenceId);
+  const zone = recurring && timeZone && timeZone !== 'UTC' ? timeZone : null;
+  const formatTime = (name: string, date: Date) =>
+    (zone ? `${name};TZID=${zone}:${formatIcsLocalDate(date, zone)}` : `${name}:${formatIcsDate(date)}`);
+
+  // Organizer should not be listed twice if they also appear in the attendee list
+  const uniqueAttendees = attendees.filter(
+    (a, index, all) =>
+      a.email.toLowerCase() !== organizer.email.toLowerCase() &&
+      all.findIndex(other => other.email.toLowerCase() === a.email.toLowerCase()) === index
+  );
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'PRODID:-//Amy Scheduling Assistant//scheduler-v4//EN',
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...(zone ? buildVTimezone(zone, start) : []),
+    'BEGIN:VEVENT',
+    `UID:${getCalendarEventUid(sessionId)}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    formatTime('DTSTART', start),
+    formatTime('DTEND', end),
+    ...(recurrenceId ? [formatTime('RECURRENCE-ID', recurrenceId)] : recurrenceRule ? [`RRULE:${recurrenceRule}`] : []),
+    `SEQUENCE:${sequence}`,
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    formatAttendee(organizer, 'ORGANIZER'),
+    formatAttendee(organizer, 'ATTENDEE'),
+    ...uniqueAttendees.map(a => formatAttendee(a, 'ATTENDEE')),
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Wraps an iCalendar document as an email attachment.
+ */
+export function createCalendarAttachment(icsContent: string, method: 'REQUEST' | 'CANCEL'): EmailAttachment {
+  return {
+    Name: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    Content: Buffer.from(icsContent, 'utf-8').toString('base64'),
+    ContentType: `text/calendar; charset=utf-8; method=${method}`,
+    ContentID: null,
+  };
+}
@@ -0,0 +1,78 @@
+// HTTP Basic auth for the admin dashboard (app/page.tsx, app/sessions/*, app/api/admin/*),
+// checked in middleware.ts and again by the admin API routes. Runs in the Edge runtime, so it
+// avoids Node APIs (Buffer, crypto).
+
+export const DASHBOARD_REALM = 'Scheduler dashboard';
+
+interface DashboardAuthResult {
+  authorized: boolean;
+  reason: 'verified' | 'not_configured' | 'missing_basic_auth' | 'invalid_basic_auth';
+  username: string | null;
+}
+
+// Constant-time string comparison to avoid leaking the password through timing
+function safeEqual(a: string, b: string): boolean {
+  const bytesA = new TextEncoder().encode(a);
+  const bytesB = new TextEncoder().encode(b);
+  if (bytesA.length !== bytesB.length) return false;
+  let difference = 0;
+  for (let i = 0; i < bytesA.length; i++) difference |= bytesA[i] ^ bytesB[i];
+  return difference === 0;
+}
+
+function decodeBase64(value: string): string | null {
+  try {
+    return new TextDecoder().decode(Uint8Array.from(atob(value), char => char.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks a request's Basic credentials against DASHBOARD_USERNAME / DASHBOARD_PASSWORD.
+ * Unlike the inbound webhook, the dashboard is closed when they aren't set: it shows every
+ * conversation and can send email.
+ */
+export function verifyDashboardRequest(req: Request): DashboardAuthResult {
+  const username = process.env.DASHBOARD_USERNAME;
+  const password = process.env.DASHBOARD_PASSWORD;
+  if (!username || !password) {
+    return { authorized: false, reason: 'not_configured', username: null };
+  }
+
+  const authHeader = req.headers.get('authorization') || '';
+  if (!authHeader.startsWith('Basic ')) {
+    return { authorized: false, reason: 'missing_basic_auth', username: null };
+  }
+  const decoded = decodeBase64(authHeader.slice('Basic '.length)) || '';
+  const separatorIndex = decoded.indexOf(':');
+  const providedUser = separatorIndex >= 0 ? decoded.slice(0, separatorIndex) : decoded;
+  const providedPassword = separatorIndex >= 0 ? decoded.slice(separatorIndex + 1) : '';
+  // Evaluate both comparisons so timing doesn't reveal which one failed
+  const userOk = safeEqual(providedUser, username);
+  const passwordOk = safeEqual(providedPassword, password);
+  if (!userOk || !passwordOk) {
+    return { authorized: false, reason: 'invalid_basic_auth', username: null };
+  }
+  return { authorized: true, reason: 'verified', username: providedUser };
+}
+
+/**
+ * Whether a form post to the dashboard's API comes from the dashboard itself. Browsers resend
+ * Basic credentials on cross-site form submissions, so a page an admin visits could otherwise
+ * press the action buttons for them (CSRF). Browsers send Sec-Fetch-Site and/or Origin on
+ * every POST; requests with neither (curl, scripts) aren't cross-site and are allowed.
+ */
+export function isSameOriginRequest(req: Request): boolean {
+  const fetchSite = req.headers.get('sec-fetch-site');
+  if (fetchSite) return fetchSite === 'same-origin';
+
+  const origin = req.headers.get('origin');
+  if (!origin) return true;
+  const host = req.headers.get('x-forwarded-host') || req.headers.get('host') || new URL(req.url).host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false; // Includes "null", sent by sandboxed and privacy-sensitive contexts
+  }
+}
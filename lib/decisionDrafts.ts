@@ -0,0 +1,219 @@
+import { schedulingDecisionSchema, type SchedulingDecision } from './schedulingDecision';
+import type { SchedulingSession, SessionDraft } from './types';
+import {
+  closePendingDraft,
+  findOrganizerSettings,
+  findSessionById,
+  findSessionDraft,
+  insertSessionDraft,
+  supersedePendingDrafts,
+} from './sessionRepository';
+import {
+  executeSchedulingDecision,
+  getNameFromEmail,
+  getNextSessionStatus,
+  isOccurrenceChange,
+  selectRecipients,
+  type DecisionOutcome,
+  type ExecuteDecisionParams,
+} from './decisionExecutor';
+import { sendSchedulingEmail } from './emailUtils';
+import { renderPlainEmail, resolveBranding } from './emailTemplates';
+import { createDraftToken, getResponseLinkConfig } from './responseTokens';
+import { withSessionLease } from './lease';
+import { canTransition, isSessionStatus } from './sessionStateMachine';
+
+// Draft mode: for organizers (organizer_settings.draft_mode) or sessions
+// (scheduling_sessions.draft_mode) that want to review the AI's emails, a decision that would
+// email anyone other than the organizer is stored in session_drafts instead of being sent. The
+// organizer gets a review email linking to app/api/drafts/[token] (also on the dashboard), and
+// only an approved draft is carried out by lib/decisionExecutor.ts, which saves it as an
+// ai_agent message. A newer decision for the session supersedes any pending draft.
+
+export type DecisionOrDraftOutcome =
+  | DecisionOutcome
+  | { status: 'drafted'; draftId: string }
+  | { status: 'draft_failed' };
+
+export interface DraftReview {
+  verdict: 'approve' | 'reject';
+  emailBody?: string | null; // The organizer's edited text, if any
+}
+
+export type DraftReviewOutcome = {
+  status: 'sent' | 'rejected' | 'closed' | 'not_found' | 'busy' | 'failed';
+  outgoingMessageId?: string | null;
+};
+
+/**
+ * Whether a session's AI emails wait for approval. The session's setting wins over the
+ * organizer's; if the organizer's settings can't be loaded, emails are held rather than sent.
+ */
+export async function isDraftModeEnabled(session: SchedulingSession): Promise<boolean> {
+  if (session.draft_mode !== null) return session.draft_mode;
+  const { data: settings, error } = await findOrganizerSettings(session.organizer_email);
+  if (error) {
+    console.error(`Supabase error loading organizer settings for ${session.organizer_email} (holding the email as a draft):`, error);
+    return true;
+  }
+  return settings?.draft_mode ?? false;
+}
+
+function draftReviewBody(session: SchedulingSession, draft: SessionDraft, decision: SchedulingDecision, reviewLink: string | null): string {
+  const organizerName = session.organizer_name || getNameFromEmail(session.organizer_email);
+  const where = reviewLink
+    ? `Approve, edit or reject it here: ${reviewLink}`
+    : 'You can approve, edit or reject it from the scheduling dashboard.';
+  return `Hi ${organizerName},
+
+I've drafted the email below to ${draft.recipients.join(', ')} about "${session.meeting_topic || 'your meeting'}". It won't be sent until you approve it.
+
+${where}
+
+---
+
+${decision.email_body.trim()}`;
+}
+
+async function sendDraftReviewEmail(session: SchedulingSession, draft: SessionDraft, decision: SchedulingDecision): Promise<void> {
+  const config = getResponseLinkConfig();
+  const reviewLink = config
+    ? `${config.baseUrl}/api/drafts/${createDraftToken({ did: draft.draft_id, em: session.organizer_email }, config.secret, config.ttlHours)}`
+    : null;
+
+  const { data: organizerSettings, error: settingsError } = await findOrganizerSettings(session.organizer_email);
+  if (settingsError) console.error('Supabase error loading organizer settings (using default branding):', settingsError);
+  const rendered = renderPlainEmail(draftReviewBody(session, draft, decision, reviewLink), resolveBranding(organizerSettings?.branding));
+
+  const messageId = await sendSchedulingEmail({
+    to: session.organizer_email,
+    subject: `Draft for review: ${draft.subject}`,
+    textBody: rendered.textBody,
+    htmlBody: rendered.htmlBody,
+    sessionId: session.session_id,
+    triggeringMessageId: `draft-review-${draft.draft_id}`,
+    triggeringReferencesHeader: null, // Kept out of the participants' thread
+    sendAsGroup: false,
+  });
+  if (!messageId) console.error(`Failed to send the review email for draft ${draft.draft_id} (session ${session.session_id}).`);
+}
+
+/**
+ * Carries out an AI decision, or holds it as a draft if the session is in draft mode and the
+ * email would reach anyone but the organizer. Decisions with an illegal transition are passed
+ * to the executor, which rejects and logs them.
+ */
+export async function executeOrDraftDecision(decision: SchedulingDecision, params: ExecuteDecisionParams): Promise<DecisionOrDraftOutcome> {
+  const { session, currentStatus, participantDetails, subject, trigger, reschedule } = params;
+
+  const recipients = selectRecipients(decision, session.organizer_email, participantDetails);
+  const reachesGuests = recipients.some(address => address.toLowerCase() !== session.organizer_email.toLowerCase());
+  const nextStatus = getNextSessionStatus(decision.next_step, currentStatus, isOccurrenceChange(decision, session));
+  const illegal = !!nextStatus && isSessionStatus(currentStatus)
+    && !canTransition(currentStatus, nextStatus, { reschedule: reschedule || decision.next_step === 'reschedule_requested' });
+  if (!reachesGuests || illegal || !(await isDraftModeEnabled(session))) {
+    return executeSchedulingDecision(decision, params);
+  }
+
+  const { error: supersedeError } = await supersedePendingDrafts(session.session_id);
+  if (supersedeError) console.error(`Supabase error superseding drafts for session ${session.session_id}:`, supersedeError);
+
+  const { data: draft, error } = await insertSessionDraft({
+    session_id: session.session_id,
+    decision,
+    recipients,
+    subject,
+    trigger_message_id: trigger.messageId,
+    references_header: trigger.referencesHeader,
+    actor_email: trigger.actorEmail,
+    reschedule,
+    session_updates: params.sessionUpdates && Object.keys(params.sessionUpdates).length > 0 ? params.sessionUpdates : null,
+  });
+  if (error) {
+    console.error(`Supabase error saving draft for session ${session.session_id} (nothing sent):`, error);
+    return { status: 'draft_failed' };
+  }
+  console.log(`Session ${session.session_id} is in draft mode. Held '${decision.next_step}' to ${recipients.join(', ')} as draft ${draft.draft_id}.`);
+
+  await sendDraftReviewEmail(session, draft, decision);
+  return { status: 'drafted', draftId: draft.draft_id };
+}
+
+/**
+ * Approves (optionally with an edited text) or rejects a pending draft, under the session
+ * lease. An approved draft is carried out against the session as it is now, so one the
+ * session has moved past is closed instead of sent.
+ */
+export async function reviewDraft(draftId: string, review: DraftReview, reviewer: string): Promise<DraftReviewOutcome> {
+  const { data: initialDraft, error: initialError } = await findSessionDraft(draftId);
+  if (initialError) {
+    console.error(`Supabase error loading draft ${draftId}:`, initialError);
+    return { status: 'failed' };
+  }
+  if (!initialDraft) return { status: 'not_found' };
+  if (initialDraft.status !== 'pending') return { status: 'closed' };
+
+  const sessionId = initialDraft.session_id;
+  const leased = await withSessionLease(sessionId, async (): Promise<DraftReviewOutcome> => {
+    // Re-read under the lease: a reply may have superseded it in the meantime
+    const { data: draft, error: draftError } = await findSessionDraft(draftId);
+    if (draftError || !draft) {
+      console.error(`Supabase error reloading draft ${draftId}:`, draftError);
+      return { status: 'failed' };
+    }
+    if (draft.status !== 'pending') return { status: 'closed' };
+    const reviewed = { reviewed_by: reviewer, reviewed_at: new Date().toISOString() };
+
+    if (review.verdict === 'reject') {
+      const { error } = await closePendingDraft(draftId, { status: 'rejected', ...reviewed });
+      if (error) {
+        console.error(`Supabase error rejecting draft ${draftId}:`, error);
+        return { status: 'failed' };
+      }
+      console.log(`Draft ${draftId} for session ${sessionId} was rejected by ${reviewer}.`);
+      return { status: 'rejected' };
+    }
+
+    const parsed = schedulingDecisionSchema.safeParse(draft.decision);
+    const { data: session, error: sessionError } = await findSessionById(sessionId);
+    if (!parsed.success || sessionError || !session) {
+      console.error(`Could not load draft ${draftId} or its session for approval:`, parsed.error ?? sessionError);
+      return { status: 'failed' };
+    }
+
+    // An edited text replaces the AI's; its intro/closing are dropped so the HTML part
+    // is rendered from the edited text too
+    const editedBody = review.emailBody?.trim();
+    const decision: SchedulingDecision = editedBody && editedBody !== parsed.data.email_body.trim()
+      ? { ...parsed.data, email_body: editedBody, intro: undefined, closing: undefined }
+      : parsed.data;
+
+    const outcome = await executeSchedulingDecision(decision, {
+      session,
+      currentStatus: session.status,
+      participantDetails: session.participant_status_details,
+      subject: draft.subject,
+      trigger: { messageId: draft.trigger_message_id, referencesHeader: draft.references_header, actorEmail: draft.actor_email, cause: 'ai_decision' },
+      reschedule: draft.reschedule,
+      sessionUpdates: draft.session_updates ?? undefined,
+    });
+
+    // The send failed: the draft stays pending so the organizer can approve it again
+    if (outcome.status === 'send_failed') {
+      console.error(`Draft ${draftId} for session ${sessionId} was approved by ${reviewer}, but the email could not be sent. Leaving it pending.`);
+      return { status: 'failed' };
+    }
+
+    const closedAs = outcome.status === 'executed' ? 'approved' : 'superseded';
+    const { error: closeError } = await closePendingDraft(draftId, { status: closedAs, ...reviewed });
+    if (closeError) console.error(`Supabase error closing draft ${draftId}:`, closeError);
+
+    if (outcome.status === 'rejected_illegal_transition') {
+      console.warn(`Draft ${draftId} can no longer be sent (${outcome.from} -> ${outcome.to}).`);
+      return { status: 'closed' };
+    }
+    console.log(`Draft ${draftId} for session ${sessionId} was approved by ${reviewer}${decision === parsed.data ? '' : ' with edits'}.`);
+    return { status: 'sent', outgoingMessageId: outcome.outgoingMessageId };
+  });
+  return leased.acquired ? leased.result : { status: 'busy' };
+}
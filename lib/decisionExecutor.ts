@@ -0,0 +1,568 @@
+import { randomUUID } from 'crypto';
+import type { SchedulingDecision } from './schedulingDecision';
+import type { ParticipantStatusDetail, RecurrenceException, SchedulingSession, SchedulingSessionUpdate } from './types';
+import type { EmailAttachment } from './emailTransport';
+import { findOrganizerSettings, insertSessionDecision, insertSessionMessage, updateSession } from './sessionRepository';
+import { sendSchedulingEmail } from './emailUtils';
+import { clearParticipantAvailability } from './availability';
+import { buildCalendarInvite, createCalendarAttachment, parseDurationMinutes } from './calendarInvite';
+import { resolveTimeZone } from './timezone';
+import { alignRecurrenceToStart, describeRecurrence } from './recurrence';
+import { getValidOptions, renderSchedulingEmail, resolveBranding, type DisplayTimeZone, type ResponseLink } from './emailTemplates';
+import { createAvailabilityToken, createResponseToken, getResponseLinkConfig } from './responseTokens';
+import { canTransition, isSessionStatus, transitionSession, type SessionStatus } from './sessionStateMachine';
+
+// Carries out a scheduling decision: picks the recipients, validates the status transition,
+// builds calendar attachments, renders and sends the email, and updates the session.
+// Shared by the inbound webhook (decisions from the AI), the one-click response links
+// (decisions built in code, see lib/slotResponses.ts), the dashboard's admin actions and the
+// availability requests sent to newly added participants (lib/participantChanges.ts).
+// Every decision is logged in session_decisions for the dashboard.
+
+// What triggered the decision; the outgoing email is threaded onto `messageId`
+export interface DecisionTrigger {
+  messageId: string;
+  referencesHeader: string | null;
+  actorEmail: string;
+  cause: 'ai_decision' | 'slot_response' | 'admin_action' | 'participant_change';
+}
+
+export interface ExecuteDecisionParams {
+  session: SchedulingSession; // As loaded before processing the trigger
+  currentStatus: string; // May be ahead of session.status (e.g. after the participant_reply transition)
+  participantDetails: ParticipantStatusDetail[];
+  subject: string; // Subject of the thread
+  trigger: DecisionTrigger;
+  reschedule: boolean; // Whether leaving 'confirmed' is allowed
+  sessionUpdates?: SchedulingSessionUpdate; // Extra fields to write with the status (e.g. duration detected in the email)
+}
+
+export type DecisionOutcome =
+  | { status: 'rejected_illegal_transition'; from: string; to: SessionStatus }
+  | { status: 'executed'; outgoingMessageId: string | null }
+  | { status: 'send_failed' };
+
+/**
+ * Whether two email addresses are the same, ignoring case. A missing address matches nothing.
+ */
+export function sameEmail(a: string, b: string | null | undefined): boolean {
+  return !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Extracts and capitalizes a display name from an email address ('john.doe@x' -> 'John.doe').
+ */
+export function getNameFromEmail(email: string | null): string {
+  if (!email) return 'there'; // Default if email is missing
+  const namePart = email.split('@')[0];
+  // Basic capitalization, handles simple cases like 'john.doe' -> 'John.doe'
+  // More complex logic could be added if needed (e.g., removing numbers, dots)
+  return namePart.charAt(0).toUpperCase() + namePart.slice(1);
+}
+
+// Helper function to extract meeting date and time from email body
+function extractConfirmedDateTime(emailBody: string): string | null {
+  // Look for the date and time in the final confirmation email format
+  // Format is typically:
+  // Date: Tuesday, April 15, 2025
+  // Time: 3:00 PM - 4:00 PM EST
+
+  let dateMatch = emailBody.match(/Date:\s*([^\n]+)/);
+  let timeMatch = emailBody.match(/Time:\s*([^\n]+)/);
+
+  if (!dateMatch || !timeMatch) return null;
+
+  const dateStr = dateMatch[1].trim();
+  const timeStr = timeMatch[1].trim();
+
+  console.log(`Extracted date: ${dateStr}, time: ${timeStr}`);
+
+  try {
+    // Try to parse the date and time into a standardized format
+    // This is a simple implementation - a more robust solution would use a date library
+    const combinedStr = `${dateStr} ${timeStr.split('-')[0].trim()}`;
+    const date = new Date(combinedStr);
+
+    if (isNaN(date.getTime())) {
+      console.log(`Could not parse date/time: ${combinedStr}`);
+      return null;
+    }
+
+    // Return in ISO format
+    return date.toISOString();
+  } catch (e) {
+    console.error('Error parsing confirmed date/time:', e);
+    return null;
+  }
+}
+
+/**
+ * Whether a decision moves or cancels a single occurrence of a confirmed recurring series
+ * rather than the whole series.
+ */
+export function isOccurrenceChange(decision: SchedulingDecision, session: SchedulingSession): boolean {
+  return decision.recurrence_scope === 'occurrence'
+    && !!session.recurrence_rule
+    && !!session.confirmed_datetime
+    && (decision.next_step === 'send_final_confirmation' || decision.next_step === 'process_cancellation');
+}
+
+/**
+ * The status a session moves to when a decision is carried out, or the current status if
+ * the step doesn't change it. Cancelling one occurrence of a series leaves it confirmed.
+ */
+export function getNextSessionStatus(nextStep: SchedulingDecision['next_step'], currentStatus: string, occurrenceOnly = false): SessionStatus | null {
+  switch (nextStep) {
+    case 'ask_participant_availability':
+    case 'propose_time_to_participant':
+    case 'reschedule_requested':
+      return 'pending_participant_response'; // Waiting for participants again
+    case 'propose_time_to_organizer':
+    case 'request_clarification':
+      return 'pending_organizer_confirmation'; // Waiting for organizer
+    case 'send_final_confirmation':
+      return 'confirmed';
+    case 'process_cancellation':
+      return occurrenceOnly ? 'confirmed' : 'cancelled';
+    case 'inform_organizer_of_participant_cancellation':
+      // If just informing organizer, the session state likely goes back to waiting for organizer.
+      // A confirmed meeting stays confirmed until the organizer decides what to do.
+      return currentStatus !== 'confirmed' ? 'pending_organizer_confirmation' : 'confirmed';
+    case 'error_cannot_schedule':
+      return 'error';
+    default:
+      // 'no_action_needed' doesn't change the status from the previous state
+      return isSessionStatus(currentStatus) ? currentStatus : null;
+  }
+}
+
+/**
+ * Who a decision's email goes to: the participants the AI chose for participant steps (never
+ * the organizer), the organizer for organizer steps, and everyone for confirmations and
+ * cancellations. The agent's own addresses are always left out.
+ */
+export function selectRecipients(decision: SchedulingDecision, sessionOrganizer: string | null, participantDetails: ParticipantStatusDetail[]): string[] {
+  const { next_step, recipients: aiSuggestedRecipients } = decision;
+  let finalRecipients: string[] = [];
+  const agentEmail = (process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com').toLowerCase();
+  const agentBase = agentEmail.split('@')[0];
+  const agentDomain = agentEmail.split('@')[1];
+
+  if (next_step === 'ask_participant_availability' || next_step === 'propose_time_to_participant') {
+    finalRecipients = aiSuggestedRecipients || [];
+    // Ensure organizer is not included if asking participants
+    if (sessionOrganizer) {
+      finalRecipients = finalRecipients.filter(r => r.toLowerCase() !== sessionOrganizer.toLowerCase());
+    }
+    console.log(`Step requires emailing participant(s). Using decision recipients: ${finalRecipients.join(', ')}`);
+  } else if (next_step === 'reschedule_requested') {
+    // The participants being asked again, plus the organizer when someone else asked to move it
+    finalRecipients = aiSuggestedRecipients || [];
+    console.log(`Step reopens a confirmed meeting. Using decision recipients: ${finalRecipients.join(', ')}`);
+  } else if (next_step === 'propose_time_to_organizer' || next_step === 'request_clarification') {
+    if (sessionOrganizer) {
+      finalRecipients = [sessionOrganizer];
+      console.log(`Step requires emailing organizer. Using DB organizer: ${sessionOrganizer}`);
+    } else {
+      console.error(`Cannot perform step ${next_step}: Session organizer is unknown.`);
+      finalRecipients = [];
+    }
+  } else if (next_step === 'send_final_confirmation') {
+    // Final confirmation includes everyone
+    const allParties = [
+      ...(sessionOrganizer ? [sessionOrganizer] : []),
+      ...(participantDetails.map((p: ParticipantStatusDetail) => p.email)) // Get emails from details
+    ];
+    finalRecipients = [...new Set(allParties)]; // Ensure uniqueness
+    console.log(`Step requires emailing everyone. Final list: ${finalRecipients.join(', ')}`);
+  } else if (next_step === 'process_cancellation') {
+    // Cancellation also includes everyone
+    const allParties = [
+      ...(sessionOrganizer ? [sessionOrganizer] : []),
+      ...(participantDetails.map((p: ParticipantStatusDetail) => p.email))
+    ];
+    finalRecipients = [...new Set(allParties)]; // Ensure uniqueness
+    console.log(`Step requires emailing everyone about cancellation. Final list: ${finalRecipients.join(', ')}`);
+  } else if (next_step === 'inform_organizer_of_participant_cancellation') {
+    // This step only emails the organizer
+    if (sessionOrganizer) {
+      finalRecipients = [sessionOrganizer];
+      console.log(`Step requires informing organizer (${sessionOrganizer}) about participant cancellation.`);
+    } else {
+      console.error('Cannot inform organizer of cancellation: Organizer email not found.');
+      finalRecipients = [];
+    }
+  } else {
+    console.log(`Step is ${next_step}. No email recipients.`);
+    finalRecipients = [];
+  }
+
+  // Safeguard: Filter out agent's own addresses
+  finalRecipients = finalRecipients.filter(email => {
+    const lcEmail = email.toLowerCase();
+    const isAgentBase = lcEmail === agentEmail;
+    const isAgentHashed = lcEmail.startsWith(agentBase + '+') && lcEmail.endsWith('@' + agentDomain);
+    return !isAgentBase && !isAgentHashed;
+  });
+
+  return finalRecipients;
+}
+
+async function logDecision(decision: SchedulingDecision, sessionId: string, trigger: DecisionTrigger, outcome: DecisionOutcome): Promise<void> {
+  const { error } = await insertSessionDecision({
+    session_id: sessionId,
+    cause: trigger.cause,
+    trigger_message_id: trigger.messageId,
+    actor_email: trigger.actorEmail,
+    decision,
+    outcome: outcome.status,
+    outgoing_message_id: outcome.status === 'executed' ? outcome.outgoingMessageId : null,
+  });
+  if (error) console.error(`Supabase error logging decision for session ${sessionId}:`, error);
+}
+
+/**
+ * Carries out a scheduling decision for a session. The transition is validated before any
+ * email goes out; an illegal one is rejected and nothing is sent or written. If the email
+ * fails to send, the session is left as it was (`send_failed`) so the decision can be retried.
+ */
+export async function executeSchedulingDecision(decision: SchedulingDecision, params: ExecuteDecisionParams): Promise<DecisionOutcome> {
+  const { session, currentStatus, subject, trigger } = params;
+  // reschedule_requested is itself the request to move the meeting
+  const reschedule = params.reschedule || decision.next_step === 'reschedule_requested';
+  const sessionId = session.session_id;
+  let participantDetails = params.participantDetails;
+  const sessionOrganizer = session.organizer_email;
+  const sessionOrganizerName = session.organizer_name || getNameFromEmail(sessionOrganizer);
+  const organizerTimeZone = resolveTimeZone(session.organizer_timezone);
+
+  let outgoingMessageId: string | null = null;
+  const { next_step, email_body } = decision;
+
+  // --- Validate the status transition before any email goes out ---
+  const occurrenceOnly = isOccurrenceChange(decision, session);
+  const nextSessionStatus = getNextSessionStatus(next_step, currentStatus, occurrenceOnly);
+  if (nextSessionStatus && isSessionStatus(currentStatus) && !canTransition(currentStatus, nextSessionStatus, { reschedule })) {
+    console.warn(`Decision '${next_step}' would move session ${sessionId} from '${currentStatus}' to '${nextSessionStatus}'. Illegal transition; no email sent.`);
+    const rejected: DecisionOutcome = { status: 'rejected_illegal_transition', from: currentStatus, to: nextSessionStatus };
+    await logDecision(decision, sessionId, trigger, rejected);
+    return rejected;
+  }
+
+  // Determine recipients based on the chosen next_step and session data
+  const finalRecipients = selectRecipients(decision, sessionOrganizer, participantDetails);
+
+  // --- Update last_request_sent_at for participants being contacted (saved with the session below) ---
+  let requestTimesUpdated = false;
+  if (next_step === 'ask_participant_availability' || next_step === 'propose_time_to_participant' || next_step === 'reschedule_requested') {
+    const nowISO = new Date().toISOString();
+    participantDetails = participantDetails.map((p: ParticipantStatusDetail) => {
+      if (finalRecipients.includes(p.email)) {
+        console.log(`Updating last_request_sent_at for ${p.email}`);
+        requestTimesUpdated = true;
+        // The nudge logic resets the status, so only the timestamp changes here
+        return { ...p, last_request_sent_at: nowISO };
+      }
+      return p;
+    });
+  }
+
+  // --- Determine confirmed date/time (needed for the calendar invite and the session update) ---
+  let confirmedDateTime: string | null = null;
+  if (next_step === 'send_final_confirmation') {
+    confirmedDateTime = decision.confirmed_datetime || extractConfirmedDateTime(email_body);
+    if (!confirmedDateTime) {
+      console.log(`Could not extract confirmed date/time from final confirmation email`);
+    }
+  }
+
+  // Duration/location as they will be after this decision (e.g. a slot response sets the duration)
+  const meetingDuration = params.sessionUpdates?.meeting_duration ?? session.meeting_duration;
+  const meetingLocation = params.sessionUpdates?.meeting_location ?? session.meeting_location;
+  const isVirtual = params.sessionUpdates?.is_virtual ?? session.is_virtual;
+  let recurrenceRule = params.sessionUpdates?.recurrence_rule !== undefined ? params.sessionUpdates.recurrence_rule : session.recurrence_rule;
+  // A series moved to another weekday repeats on that day from now on
+  if (recurrenceRule && !occurrenceOnly && confirmedDateTime && !isNaN(Date.parse(confirmedDateTime))) {
+    recurrenceRule = alignRecurrenceToStart(recurrenceRule, new Date(confirmedDateTime), organizerTimeZone);
+  }
+
+  // --- Build ICS calendar attachments (invite, updated invite or cancellation) ---
+  // The event UID is derived from the session ID, so every later REQUEST/CANCEL replaces the
+  // same event in attendees' calendars. SEQUENCE must increase on each revision (RFC 5546).
+  let emailAttachments: EmailAttachment[] = [];
+  let nextIcsSequence: number | null = null;
+  const previousConfirmedDateTime: string | null = session.confirmed_datetime || null;
+  const previousIcsSequence: number = session.ics_sequence ?? 0;
+
+  // For a single occurrence of a series: its original start, which identifies it in calendars
+  // (RECURRENCE-ID). The AI may name an occurrence that was already moved by its new start.
+  let occurrenceStart: string | null = null;
+  if (occurrenceOnly) {
+    const named = Date.parse(decision.occurrence_start || '');
+    if (isNaN(named)) {
+      console.warn(`Occurrence change for session ${sessionId} without a valid occurrence_start ("${decision.occurrence_start}"). Skipping calendar update.`);
+    } else {
+      const moved = session.recurrence_exceptions.find(exception => exception.new_start && Date.parse(exception.new_start) === named);
+      occurrenceStart = moved ? moved.occurrence_start : new Date(named).toISOString();
+    }
+  }
+
+  const buildSessionCalendarAttachment = (method: 'REQUEST' | 'CANCEL', sequence: number, startIso: string, recurrenceIdIso: string | null = null): EmailAttachment | null => {
+    const meetingStart = new Date(startIso);
+    if (isNaN(meetingStart.getTime())) {
+      console.warn(`Meeting date/time "${startIso}" is not a valid date. Skipping calendar ${method}.`);
+      return null;
+    }
+    const icsContent = buildCalendarInvite({
+      sessionId,
+      method,
+      sequence,
+      start: meetingStart,
+      durationMinutes: parseDurationMinutes(meetingDuration),
+      summary: session.meeting_topic || subject.replace(/^(?:re|fwd?):\s*/i, ''),
+      description: email_body,
+      location: meetingLocation || (isVirtual ? 'Virtual' : null),
+      organizer: { email: sessionOrganizer || trigger.actorEmail, name: sessionOrganizerName },
+      attendees: participantDetails.map((p: ParticipantStatusDetail) => ({ email: p.email })),
+      recurrenceRule,
+      recurrenceId: recurrenceIdIso ? new Date(recurrenceIdIso) : null,
+      timeZone: organizerTimeZone,
+    });
+    console.log(`Built ICS ${method} (SEQUENCE:${sequence}) for session ${sessionId} starting ${meetingStart.toISOString()}.`);
+    return createCalendarAttachment(icsContent, method);
+  };
+
+  if (occurrenceOnly) {
+    // One occurrence moved (REQUEST) or cancelled (CANCEL); the rest of the series is unchanged
+    const sequence = previousIcsSequence + 1;
+    const attachment = !occurrenceStart
+      ? null
+      : next_step === 'send_final_confirmation'
+        ? (confirmedDateTime ? buildSessionCalendarAttachment('REQUEST', sequence, confirmedDateTime, occurrenceStart) : null)
+        : buildSessionCalendarAttachment('CANCEL', sequence, occurrenceStart, occurrenceStart);
+    if (attachment) {
+      emailAttachments = [attachment];
+      nextIcsSequence = sequence;
+    }
+  } else if (next_step === 'send_final_confirmation' && confirmedDateTime) {
+    // A confirmation on a session that already had a confirmed time is a reschedule: send an
+    // updated REQUEST with the same UID and a bumped SEQUENCE.
+    const sequence = previousConfirmedDateTime ? previousIcsSequence + 1 : 0;
+    const attachment = buildSessionCalendarAttachment('REQUEST', sequence, confirmedDateTime);
+    if (attachment) {
+      emailAttachments = [attachment];
+      nextIcsSequence = sequence;
+    }
+  } else if (next_step === 'process_cancellation' && session.status === 'confirmed' && previousConfirmedDateTime) {
+    // Remove the stale event from attendees' calendars
+    const sequence = previousIcsSequence + 1;
+    const attachment = buildSessionCalendarAttachment('CANCEL', sequence, previousConfirmedDateTime);
+    if (attachment) {
+      emailAttachments = [attachment];
+      nextIcsSequence = sequence;
+    }
+  }
+
+  // --- One-click response links for proposals ---
+  // Each recipient gets their own signed links, tied to a new proposal ID that replaces any
+  // earlier proposal's (see lib/slotResponses.ts).
+  let proposalId: string | null = null;
+  const validOptions = getValidOptions(decision.proposed_options);
+  const responseLinkConfig = getResponseLinkConfig();
+  if ((next_step === 'propose_time_to_organizer' || next_step === 'propose_time_to_participant') && validOptions.length > 0) {
+    if (responseLinkConfig) proposalId = randomUUID();
+    else console.log('APP_BASE_URL or RESPONSE_TOKEN_SECRET not set. Sending proposal without response links.');
+  }
+  const responseLinksFor = (recipient: string): ResponseLink[] | undefined => {
+    if (!proposalId || !responseLinkConfig) return undefined;
+    const { baseUrl, secret, ttlHours } = responseLinkConfig;
+    const recipientZone = sameEmail(recipient, sessionOrganizer)
+      ? organizerTimeZone
+      : resolveTimeZone(participantDetails.find(p => sameEmail(p.email, recipient))?.timezone);
+    return validOptions.map((option, index) => {
+      const linkFor = (action: 'accept' | 'decline') => {
+        const token = createResponseToken(
+          { sid: sessionId, pid: proposalId!, em: recipient, i: index, n: validOptions.length, st: option.start, en: option.end, a: action, tz: recipientZone },
+          secret,
+          ttlHours
+        );
+        return `${baseUrl}/api/respond/${token}`;
+      };
+      return { accept: linkFor('accept'), decline: linkFor('decline') };
+    });
+  };
+
+  // --- Availability picker links ---
+  // Participants asked for their availability (or offered options) can also answer on a web
+  // page instead of replying (app/availability/[token]).
+  const offerAvailabilityPicker = !!responseLinkConfig && (next_step === 'ask_participant_availability' || next_step === 'propose_time_to_participant' || next_step === 'reschedule_requested');
+  const availabilityLinkFor = (recipient: string): string | undefined => {
+    if (!offerAvailabilityPicker || !participantDetails.some(p => sameEmail(p.email, recipient))) return undefined;
+    const { baseUrl, secret, ttlHours } = responseLinkConfig!;
+    return `${baseUrl}/availability/${createAvailabilityToken({ sid: sessionId, em: recipient }, secret, ttlHours)}`;
+  };
+
+  // --- Send Email if needed ---
+  if (finalRecipients.length > 0 && email_body && email_body.trim().length > 0) {
+    console.log(`Attempting email send. Recipients: ${finalRecipients.join(', ')}`);
+    const outgoingSubject = subject.startsWith('Re:') ? subject : `Re: ${subject}`;
+
+    // Log details before sending
+    console.log(`  Subject: ${outgoingSubject}`);
+    console.log(`  Body snippet: ${email_body.substring(0, 100)}...`);
+
+    // Determine sendAsGroup flag
+    const sendAsGroup = next_step === 'send_final_confirmation' || next_step === 'process_cancellation';
+
+    // --- Render the branded HTML part (email_body stays the plain-text fallback) ---
+    const { data: organizerSettings, error: organizerSettingsError } = sessionOrganizer
+      ? await findOrganizerSettings(sessionOrganizer)
+      : { data: null, error: null };
+    if (organizerSettingsError) {
+      console.error('Supabase error loading organizer settings (using default branding):', organizerSettingsError);
+    }
+    // One entry per distinct zone, labelled with everyone in it
+    const displayZones: DisplayTimeZone[] = [];
+    const addDisplayZone = (label: string, timeZone: string | null) => {
+      if (!timeZone) return;
+      const existing = displayZones.find(z => z.timeZone === timeZone);
+      if (existing) existing.label += `, ${label}`;
+      else displayZones.push({ label, timeZone });
+    };
+    if (sessionOrganizer) addDisplayZone(sessionOrganizerName, organizerTimeZone);
+    for (const p of participantDetails) {
+      if (p.status !== 'cancelled') addDisplayZone(getNameFromEmail(p.email), resolveTimeZone(p.timezone));
+    }
+    const branding = resolveBranding(organizerSettings?.branding);
+    const renderFor = (recipient: string | null) => renderSchedulingEmail(
+      { ...decision, proposed_options: validOptions.length > 0 ? validOptions : decision.proposed_options },
+      {
+        topic: session.meeting_topic || subject.replace(/^(?:re|fwd?):\s*/i, ''),
+        duration: meetingDuration || null,
+        durationMinutes: parseDurationMinutes(meetingDuration),
+        location: meetingLocation || (isVirtual ? 'Virtual' : null),
+        organizer: sessionOrganizer,
+        attendees: participantDetails.map((p: ParticipantStatusDetail) => p.email),
+        confirmedStart: next_step === 'send_final_confirmation' ? confirmedDateTime : previousConfirmedDateTime,
+        recurrence: describeRecurrence(recurrenceRule),
+        occurrenceStart,
+        previousStart: next_step === 'send_final_confirmation' && previousConfirmedDateTime && Date.parse(previousConfirmedDateTime) !== Date.parse(confirmedDateTime || '')
+          ? previousConfirmedDateTime
+          : null,
+      },
+      displayZones,
+      branding,
+      recipient ? responseLinksFor(recipient) : undefined,
+      recipient ? availabilityLinkFor(recipient) : undefined
+    );
+    const renderedEmail = renderFor(null);
+
+    console.log(`  Calling sendSchedulingEmail function...`);
+
+    outgoingMessageId = await sendSchedulingEmail({
+      to: finalRecipients,
+      subject: outgoingSubject,
+      textBody: renderedEmail.textBody,
+      htmlBody: renderedEmail.htmlBody,
+      sessionId,
+      triggeringMessageId: trigger.messageId,
+      triggeringReferencesHeader: trigger.referencesHeader,
+      sendAsGroup: sendAsGroup,
+      attachments: emailAttachments,
+      personalize: proposalId || offerAvailabilityPicker ? renderFor : undefined,
+    });
+
+    // --- Save Response ---
+    if (outgoingMessageId) { // Only save if email was sent successfully (got an ID)
+      console.log(`  sendSchedulingEmail returned message ID: ${outgoingMessageId}. Proceeding to save AI response.`);
+      console.log("Saving AI response to DB.");
+      const { error: aiSaveError } = await insertSessionMessage({
+        session_id: sessionId,
+        postmark_message_id: outgoingMessageId,
+        sender_email: process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com',
+        recipient_email: finalRecipients.join(', ') || null,
+        subject: outgoingSubject,
+        body_text: email_body,
+        body_html: renderedEmail.htmlBody,
+        message_type: 'ai_agent',
+        in_reply_to_message_id: trigger.messageId,
+      });
+      if (aiSaveError) console.error('Supabase error saving AI message:', aiSaveError);
+      else console.log("AI Response saved to DB.");
+    } else {
+      console.error(`ERROR: sendSchedulingEmail failed to return a message ID. Email likely not sent to ${finalRecipients.join(', ')}. Session left unchanged.`);
+      const sendFailed: DecisionOutcome = { status: 'send_failed' };
+      await logDecision(decision, sessionId, trigger, sendFailed);
+      return sendFailed;
+    }
+
+  } else {
+    // Log why email wasn't attempted
+    if (finalRecipients.length === 0) {
+      console.log(`Email not sent: No valid final recipients determined for next_step: ${next_step}.`);
+    } else if (!email_body || email_body.trim().length === 0) {
+      console.log(`Email not sent: Decision has an empty email body for next_step: ${next_step}.`);
+    } else {
+      console.log(`Email not sent: Conditions not met (Recipients: ${finalRecipients.length}, Body exists: ${!!email_body}). Next step: ${next_step}.`);
+    }
+  }
+
+  // --- Update Session State ---
+  const sessionUpdateData: SchedulingSessionUpdate = { ...params.sessionUpdates };
+  if (requestTimesUpdated) {
+    sessionUpdateData.participant_status_details = participantDetails;
+  }
+  if (occurrenceOnly) {
+    // The series keeps its first occurrence; the moved or cancelled one is recorded as an exception
+    if (occurrenceStart && outgoingMessageId && (next_step === 'process_cancellation' || confirmedDateTime)) {
+      const exception: RecurrenceException = { occurrence_start: occurrenceStart, new_start: next_step === 'send_final_confirmation' ? confirmedDateTime : null };
+      sessionUpdateData.recurrence_exceptions = [
+        ...session.recurrence_exceptions.filter(existing => Date.parse(existing.occurrence_start) !== Date.parse(occurrenceStart!)),
+        exception,
+      ];
+    }
+  } else if (next_step === 'send_final_confirmation' && confirmedDateTime) {
+    sessionUpdateData.confirmed_datetime = confirmedDateTime;
+    // A (re)confirmed series starts over without exceptions
+    if (recurrenceRule) {
+      sessionUpdateData.recurrence_rule = recurrenceRule;
+      sessionUpdateData.recurrence_exceptions = [];
+    }
+  }
+  // Only persist the new SEQUENCE if the ICS revision was actually delivered
+  if (nextIcsSequence !== null && outgoingMessageId) {
+    sessionUpdateData.ics_sequence = nextIcsSequence;
+  }
+  // Participants asked again for a reschedule start over: pending, without their old availability
+  if (next_step === 'reschedule_requested' && outgoingMessageId) {
+    const askedAgain = participantDetails.filter(p => finalRecipients.some(recipient => sameEmail(recipient, p.email)));
+    for (const p of askedAgain) await clearParticipantAvailability(sessionId, p.email);
+    sessionUpdateData.participant_status_details = participantDetails.map(p => (askedAgain.includes(p) ? { ...p, status: 'pending' } : p));
+  }
+  // Any email that goes out closes the previous proposal's links; a new proposal opens its own
+  if (outgoingMessageId) {
+    sessionUpdateData.active_proposal_id = proposalId;
+    sessionUpdateData.active_proposal_options = proposalId ? validOptions.map(({ start, end }) => ({ start, end })) : null;
+  }
+
+  if (nextSessionStatus && nextSessionStatus !== currentStatus) {
+    // Status change: validated and recorded in session_events together with the other updates
+    const transitionResult = await transitionSession({
+      sessionId,
+      from: currentStatus,
+      to: nextSessionStatus,
+      cause: { type: trigger.cause, detail: next_step, actor: trigger.actorEmail, messageId: trigger.messageId },
+      reschedule,
+      updates: sessionUpdateData,
+    });
+    if (!transitionResult.ok) console.error(`Failed to update session ${sessionId} status: ${transitionResult.reason}`);
+  } else if (Object.keys(sessionUpdateData).length > 0) {
+    const { error: updateSessionError } = await updateSession(sessionId, sessionUpdateData);
+
+    if (updateSessionError) console.error('Supabase error updating final session info:', updateSessionError);
+  }
+
+  const executed: DecisionOutcome = { status: 'executed', outgoingMessageId };
+  await logDecision(decision, sessionId, trigger, executed);
+  return executed;
+}
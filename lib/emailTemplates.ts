@@ -0,0 +1,377 @@
+import { z } from 'zod';
+import type { SchedulingDecision } from './schedulingDecision';
+import { formatRangeInTimeZone } from './timezone';
+
+// Branding applied to every outgoing email. Stored as JSON in EMAIL_BRANDING (global) and
+// organizer_settings.branding (per organizer).
+export const emailBrandingSchema = z.object({
+  // Name the assistant signs with and shows in the header
+  assistantName: z.string().min(1),
+  // Shown next to the assistant name in the header and in the footer
+  companyName: z.string().nullable(),
+  // Absolute URL of a logo shown in the header instead of the assistant name
+  logoUrl: z.string().url().nullable(),
+  // Hex color for the header bar, table headings and card borders
+  accentColor: z.string().regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/),
+  // Plain-text sign-off appended to both parts. Null uses "Thanks,\n<assistantName>".
+  signature: z.string().nullable(),
+  // Small print under the message, e.g. a legal notice
+  footerText: z.string().nullable(),
+});
+
+export type EmailBranding = z.infer<typeof emailBrandingSchema>;
+
+// Overrides may set any subset of fields
+const emailBrandingOverrideSchema = emailBrandingSchema.partial();
+
+export const DEFAULT_BRANDING: EmailBranding = {
+  assistantName: 'Amy',
+  companyName: null,
+  logoUrl: null,
+  accentColor: '#2f6fde',
+  signature: null,
+  footerText: null,
+};
+
+// Parse an override from JSON/JSONB, ignoring (and logging) anything invalid
+function parseBrandingOverride(raw: unknown, source: string): Partial<EmailBranding> {
+  if (raw === null || raw === undefined || raw === '') return {};
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      console.warn(`Ignoring email branding from ${source}: not valid JSON.`);
+      return {};
+    }
+  }
+  const result = emailBrandingOverrideSchema.safeParse(value);
+  if (!result.success) {
+    console.warn(`Ignoring email branding from ${source}: ${result.error.message}`);
+    return {};
+  }
+  return result.data;
+}
+
+/**
+ * Resolves the effective branding. Later layers win:
+ * defaults < EMAIL_BRANDING env var < organizer override.
+ */
+export function resolveBranding(organizerOverride?: unknown): EmailBranding {
+  return {
+    ...DEFAULT_BRANDING,
+    ...parseBrandingOverride(process.env.EMAIL_BRANDING, 'EMAIL_BRANDING'),
+    ...parseBrandingOverride(organizerOverride, 'organizer_settings'),
+  };
+}
+
+export function getSignature(branding: EmailBranding): string {
+  return branding.signature ?? `Thanks,\n${branding.assistantName}`;
+}
+
+export interface RenderedEmail {
+  textBody: string;
+  htmlBody: string;
+}
+
+// A column in the options table / a line in the confirmation card, e.g. "Alice, Bob" in America/New_York
+export interface DisplayTimeZone {
+  label: string;
+  timeZone: string;
+}
+
+// One-click response URLs for one proposed option (see lib/responseTokens.ts)
+export interface ResponseLink {
+  accept: string;
+  decline: string;
+}
+
+// Session facts the structured templates show alongside the AI's text
+export interface MeetingDetails {
+  topic: string | null;
+  duration: string | null; // As stored on the session, e.g. "30 minutes"; shown only when known
+  durationMinutes: number; // Used for end times
+  location: string | null;
+  organizer: string | null;
+  attendees: string[];
+  confirmedStart: string | null; // ISO; the confirmed (or, for cancellations, previously confirmed) start
+  recurrence: string | null; // How a recurring series repeats, e.g. "Every week on Tuesday"
+  occurrenceStart: string | null; // ISO; original start of the one occurrence being moved or cancelled
+  previousStart: string | null; // ISO; the earlier confirmed start when a confirmed meeting is moved
+}
+
+// --- HTML helpers ---
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Blank lines separate paragraphs; single newlines become <br>
+function paragraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block.length > 0)
+    .map(block => `<p style="margin:0 0 16px 0;">${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+function card(accentColor: string, title: string, rows: [string, string][]): string {
+  const body = rows
+    .map(([label, value]) =>
+      `<tr><td style="padding:4px 12px 4px 0;color:#666666;vertical-align:top;white-space:nowrap;">${escapeHtml(label)}</td>` +
+      `<td style="padding:4px 0;vertical-align:top;">${value}</td></tr>`)
+    .join('\n');
+  return `<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;margin:0 0 16px 0;border:1px solid ${accentColor};border-left-width:4px;border-radius:4px;">
+<tr><td style="padding:12px 16px;">
+<div style="font-size:16px;font-weight:bold;color:${accentColor};margin:0 0 8px 0;">${escapeHtml(title)}</div>
+<table role="presentation" cellpadding="0" cellspacing="0">
+${body}
+</table>
+</td></tr>
+</table>`;
+}
+
+function zonesOrUtc(zones: DisplayTimeZone[]): DisplayTimeZone[] {
+  return zones.length > 0 ? zones : [{ label: 'UTC', timeZone: 'UTC' }];
+}
+
+// One line per zone, e.g. "Tue, Apr 22, 2025, 11:00 AM - 11:30 AM EDT (Alice)"
+function localTimes(start: Date, end: Date, zones: DisplayTimeZone[]): string {
+  return zonesOrUtc(zones)
+    .map(zone => `${escapeHtml(formatRangeInTimeZone(start, end, zone.timeZone))} <span style="color:#666666;">(${escapeHtml(zone.label)})</span>`)
+    .join('<br>');
+}
+
+function detailRows(meeting: MeetingDetails, start: Date | null, zones: DisplayTimeZone[]): [string, string][] {
+  const rows: [string, string][] = [];
+  if (meeting.topic) rows.push(['Topic', escapeHtml(meeting.topic)]);
+  if (start) rows.push(['When', localTimes(start, new Date(start.getTime() + meeting.durationMinutes * 60 * 1000), zones)]);
+  if (meeting.recurrence && !meeting.occurrenceStart) rows.push(['Repeats', escapeHtml(meeting.recurrence)]);
+  if (meeting.duration) rows.push(['Duration', escapeHtml(meeting.duration)]);
+  if (meeting.location) rows.push(['Location', escapeHtml(meeting.location)]);
+  return rows;
+}
+
+// --- Structured blocks, one per next_step ---
+
+type ProposedOption = NonNullable<SchedulingDecision['proposed_options']>[number];
+
+/**
+ * The proposed options with parseable, non-empty time ranges. Response links are indexed
+ * against this list, so callers creating links must use it too.
+ */
+export function getValidOptions(options: ProposedOption[] | undefined): ProposedOption[] {
+  return (options || []).filter(option => {
+    const start = new Date(option.start).getTime();
+    const end = new Date(option.end).getTime();
+    return !isNaN(start) && !isNaN(end) && end > start;
+  });
+}
+
+function button(href: string, label: string, color: string): string {
+  return `<a href="${escapeHtml(href)}" style="display:inline-block;margin:0 6px 6px 0;padding:6px 12px;border-radius:4px;background:${color};color:#ffffff;text-decoration:none;font-size:13px;white-space:nowrap;">${escapeHtml(label)}</a>`;
+}
+
+function optionsTable(options: ProposedOption[], zones: DisplayTimeZone[], branding: EmailBranding, links?: ResponseLink[]): string | null {
+  const valid = getValidOptions(options)
+    .map(option => ({ start: new Date(option.start), end: new Date(option.end), note: option.note }));
+  if (valid.length === 0) return null;
+  const withLinks = !!links && links.length === valid.length;
+
+  const columns = zonesOrUtc(zones);
+  const cell = 'padding:8px 12px;border-bottom:1px solid #e5e5e5;text-align:left;vertical-align:top;';
+  const header = ['Option', ...columns.map(zone => zone.label), ...(withLinks ? ['Respond'] : [])]
+    .map(label => `<th style="${cell}background:${branding.accentColor};color:#ffffff;">${escapeHtml(label)}</th>`)
+    .join('');
+  const rows = valid.map((option, index) => {
+    const times = columns.map(zone => `<td style="${cell}">${escapeHtml(formatRangeInTimeZone(option.start, option.end, zone.timeZone))}</td>`).join('');
+    const note = option.note ? `<br><span style="color:#666666;font-weight:normal;">${escapeHtml(option.note)}</span>` : '';
+    const respond = withLinks
+      ? `<td style="${cell}">${button(links![index].accept, 'Works for me', branding.accentColor)}${button(links![index].decline, "Doesn't work", '#888888')}</td>`
+      : '';
+    return `<tr><td style="${cell}font-weight:bold;">${index + 1}${note}</td>${times}${respond}</tr>`;
+  });
+  return `<table cellpadding="0" cellspacing="0" style="width:100%;border-collapse:collapse;margin:0 0 16px 0;font-size:14px;">
+<tr>${header}</tr>
+${rows.join('\n')}
+</table>`;
+}
+
+function confirmationCard(meeting: MeetingDetails, zones: DisplayTimeZone[], branding: EmailBranding): string | null {
+  if (!meeting.confirmedStart) return null;
+  const start = new Date(meeting.confirmedStart);
+  if (isNaN(start.getTime())) return null;
+  const rows = detailRows(meeting, start, zones);
+  // A moved meeting (or occurrence) shows where it was moved from
+  const movedFrom = meeting.occurrenceStart || meeting.previousStart;
+  const originalStart = movedFrom ? new Date(movedFrom) : null;
+  if (originalStart && !isNaN(originalStart.getTime())) {
+    rows.splice(rows.findIndex(([label]) => label === 'When') + 1, 0, ['Was', localTimes(originalStart, new Date(originalStart.getTime() + meeting.durationMinutes * 60 * 1000), zones)]);
+  }
+  const attendees = [
+    ...(meeting.organizer ? [`${escapeHtml(meeting.organizer)} (Organizer)`] : []),
+    ...meeting.attendees.filter(email => email !== meeting.organizer).map(escapeHtml),
+  ];
+  if (attendees.length > 0) rows.push(['Attendees', attendees.join('<br>')]);
+  const title = meeting.occurrenceStart ? 'Occurrence moved' : originalStart ? 'Meeting moved' : 'Meeting confirmed';
+  return card(branding.accentColor, title, rows);
+}
+
+function cancellationNotice(meeting: MeetingDetails, zones: DisplayTimeZone[]): string {
+  const rows: [string, string][] = [];
+  if (meeting.topic) rows.push(['Topic', escapeHtml(meeting.topic)]);
+  // A single cancelled occurrence shows that occurrence; the series goes on
+  const wasStart = meeting.occurrenceStart || meeting.confirmedStart;
+  const start = wasStart ? new Date(wasStart) : null;
+  if (start && !isNaN(start.getTime())) {
+    rows.push(['Was', localTimes(start, new Date(start.getTime() + meeting.durationMinutes * 60 * 1000), zones)]);
+  }
+  if (meeting.recurrence) rows.push([meeting.occurrenceStart ? 'Series' : 'Repeated', `${escapeHtml(meeting.recurrence)}${meeting.occurrenceStart ? ' (continues)' : ''}`]);
+  return card('#c0392b', meeting.occurrenceStart ? 'Occurrence cancelled' : 'Meeting cancelled', rows);
+}
+
+// The currently booked time, for emails asking for availability to move it
+function rescheduleCard(meeting: MeetingDetails, zones: DisplayTimeZone[], branding: EmailBranding): string {
+  const rows: [string, string][] = [];
+  if (meeting.topic) rows.push(['Topic', escapeHtml(meeting.topic)]);
+  const start = meeting.confirmedStart ? new Date(meeting.confirmedStart) : null;
+  if (start && !isNaN(start.getTime())) {
+    rows.push(['Currently', localTimes(start, new Date(start.getTime() + meeting.durationMinutes * 60 * 1000), zones)]);
+  }
+  if (meeting.duration) rows.push(['Duration', escapeHtml(meeting.duration)]);
+  return card(branding.accentColor, 'Finding a new time', rows);
+}
+
+function requestDetailsCard(meeting: MeetingDetails, branding: EmailBranding): string {
+  return card(branding.accentColor, 'Meeting details', detailRows(meeting, null, []));
+}
+
+function availabilityPickerButton(link: string, branding: EmailBranding): string {
+  return `<p style="margin:0 0 16px 0;">Prefer a calendar? ${button(link, 'Pick your times online', branding.accentColor)}</p>`;
+}
+
+// --- Layout ---
+
+function layout(content: string, branding: EmailBranding): string {
+  const headerName = [branding.assistantName, branding.companyName].filter(Boolean).join(' · ');
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(headerName)}" style="max-height:40px;border:0;">`
+    : `<span style="font-size:18px;font-weight:bold;color:#ffffff;">${escapeHtml(headerName)}</span>`;
+  const footerLines = [branding.footerText, branding.companyName ? `Sent by ${branding.assistantName}, scheduling assistant for ${branding.companyName}` : null]
+    .filter((line): line is string => !!line)
+    .map(line => `<p style="margin:0 0 4px 0;">${escapeHtml(line)}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="margin:0;padding:0;background:#f4f4f4;">
+<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;background:#f4f4f4;">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;max-width:600px;background:#ffffff;font-family:Arial,Helvetica,sans-serif;font-size:15px;line-height:1.5;color:#222222;">
+<tr><td style="padding:16px 24px;background:${branding.accentColor};">${header}</td></tr>
+<tr><td style="padding:24px;">
+${content}
+<!--notes-->
+</td></tr>
+</table>
+<div style="max-width:600px;padding:12px 24px;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#888888;">
+${footerLines}
+</div>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+/**
+ * Adds a paragraph after the message (before the footer), e.g. "Please reply directly to me only."
+ */
+export function appendHtmlNote(htmlBody: string, note: string): string {
+  const paragraph = paragraphs(note);
+  return htmlBody.includes('<!--notes-->')
+    ? htmlBody.replace('<!--notes-->', `${paragraph}\n<!--notes-->`)
+    : htmlBody + paragraph;
+}
+
+/**
+ * Renders a plain message (nudges, notifications, steps without a structured block) in the
+ * branded layout. The signature is appended to both parts.
+ */
+export function renderPlainEmail(body: string, branding: EmailBranding): RenderedEmail {
+  const signature = getSignature(branding);
+  return {
+    textBody: `${body.trimEnd()}\n\n${signature}`,
+    htmlBody: layout(`${paragraphs(body)}\n${paragraphs(signature)}`, branding),
+  };
+}
+
+// Plain-text version of the response links, added to the text part
+function responseLinksText(options: ProposedOption[], zones: DisplayTimeZone[], links: ResponseLink[]): string {
+  const zone = zonesOrUtc(zones)[0];
+  const lines = getValidOptions(options).map((option, index) => [
+    `Option ${index + 1}: ${formatRangeInTimeZone(new Date(option.start), new Date(option.end), zone.timeZone)}`,
+    `  Works for me: ${links[index].accept}`,
+    `  Doesn't work: ${links[index].decline}`,
+  ].join('\n'));
+  return `Respond with one click:\n\n${lines.join('\n\n')}`;
+}
+
+/**
+ * Renders the AI's decision as a multipart email. The structured block for the step (options
+ * table, confirmation card, cancellation notice) is built from session data and the decision's
+ * structured fields; the AI's email_body is kept as the text part. Falls back to the plain layout
+ * when the decision lacks what the block needs. `responseLinks` (one per valid proposed option)
+ * adds one-click accept/decline buttons to proposals, and the same links to the text part;
+ * `availabilityLink` adds a link to the recipient's availability picker page.
+ */
+export function renderSchedulingEmail(
+  decision: SchedulingDecision,
+  meeting: MeetingDetails,
+  zones: DisplayTimeZone[],
+  branding: EmailBranding,
+  responseLinks?: ResponseLink[],
+  availabilityLink?: string
+): RenderedEmail {
+  let block: string | null = null;
+  switch (decision.next_step) {
+    case 'propose_time_to_organizer':
+    case 'propose_time_to_participant':
+      block = decision.proposed_options ? optionsTable(decision.proposed_options, zones, branding, responseLinks) : null;
+      break;
+    case 'send_final_confirmation':
+      block = confirmationCard(meeting, zones, branding);
+      break;
+    case 'process_cancellation':
+      block = cancellationNotice(meeting, zones);
+      break;
+    case 'ask_participant_availability':
+      block = requestDetailsCard(meeting, branding);
+      break;
+    case 'reschedule_requested':
+      block = rescheduleCard(meeting, zones, branding);
+      break;
+  }
+
+  const linksText = responseLinks && responseLinks.length > 0 && decision.proposed_options
+    ? `\n\n${responseLinksText(decision.proposed_options, zones, responseLinks)}`
+    : '';
+  const pickerText = availabilityLink ? `\n\nPrefer a calendar? Pick your times online: ${availabilityLink}` : '';
+  if (!block || !decision.intro) return renderPlainEmail(decision.email_body.trimEnd() + linksText + pickerText, branding);
+
+  const signature = getSignature(branding);
+  const pickerBlock = availabilityLink ? availabilityPickerButton(availabilityLink, branding) : '';
+  const content = [paragraphs(decision.intro), block, pickerBlock, decision.closing ? paragraphs(decision.closing) : '', paragraphs(signature)]
+    .filter(part => part.length > 0)
+    .join('\n');
+  return {
+    textBody: `${decision.email_body.trimEnd()}${linksText}${pickerText}\n\n${signature}`,
+    htmlBody: layout(content, branding),
+  };
+}
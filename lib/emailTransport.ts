@@ -0,0 +1,74 @@
+import { createPostmarkTransport } from './transports/postmarkTransport';
+import { createSmtpTransport } from './transports/smtpTransport';
+import { createFileTransport } from './transports/fileTransport';
+
+// --- Transport-neutral email types ---
+// Header and attachment shapes match Postmark's, so existing code and the Postmark adapter pass them through unchanged.
+
+export interface EmailHeader {
+  Name: string;
+  Value: string;
+}
+
+export interface EmailAttachment {
+  Name: string;
+  Content: string; // Base64
+  ContentType: string;
+  ContentID?: string | null;
+}
+
+export interface OutboundEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  textBody: string;
+  htmlBody?: string;
+  replyTo?: string;
+  headers: EmailHeader[];
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * Sends outbound email. Returns the ID stored as the message's `postmark_message_id`, so replies
+ * can be matched back to it through In-Reply-To.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutboundEmail): Promise<string>;
+}
+
+// Set by tests; null means pick from EMAIL_TRANSPORT
+let transportOverride: EmailTransport | null = null;
+let configuredTransport: EmailTransport | null = null;
+
+/**
+ * Returns the outbound transport selected by EMAIL_TRANSPORT: 'postmark' (default), 'smtp' or 'file'.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (transportOverride) return transportOverride;
+  if (configuredTransport) return configuredTransport;
+
+  const transportName = (process.env.EMAIL_TRANSPORT || 'postmark').toLowerCase();
+  switch (transportName) {
+    case 'postmark':
+      configuredTransport = createPostmarkTransport();
+      break;
+    case 'smtp':
+      configuredTransport = createSmtpTransport();
+      break;
+    case 'file':
+      configuredTransport = createFileTransport();
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transportName}". Expected postmark, smtp or file.`);
+  }
+  console.log(`Using '${configuredTransport.name}' email transport.`);
+  return configuredTransport;
+}
+
+/**
+ * Replaces the outbound transport (e.g. in tests). Pass null to go back to EMAIL_TRANSPORT.
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportOverride = transport;
+}
@@ -1,29 +1,34 @@
-import { postmarkClient } from './postmarkClient';
-import { Header } from 'postmark'; // Import Header directly
-import * as PostmarkAPI from 'postmark'; // Import full library under an alias for namespaced types
+import { getEmailTransport, type EmailHeader, type EmailAttachment } from './emailTransport';
+import { appendHtmlNote } from './emailTemplates';
 
 // Define interface for email parameters
 interface SendEmailParams {
   to: string | string[];
   subject: string;
   textBody: string;
+  htmlBody?: string; // Optional HTML part (see lib/emailTemplates.ts); textBody remains the fallback
   sessionId: string; 
   triggeringMessageId: string; // The MessageID header value of the email that triggered this send action
   triggeringReferencesHeader: string | null; // The References header value from the triggering email
   sendAsGroup: boolean;
+  attachments?: EmailAttachment[]; // Optional attachments, e.g. an ICS calendar invite
+  personalize?: (recipient: string) => { textBody: string; htmlBody?: string }; // Per-recipient bodies for individual sends (e.g. personal response links)
 }
 
 /**
- * Sends an email using Postmark, handling individual vs group sending and threading.
+ * Sends an email through the configured transport (see lib/emailTransport.ts), handling individual vs group sending and threading.
  */
 export async function sendSchedulingEmail({
   to,
   subject,
   textBody,
+  htmlBody,
   sessionId,
   triggeringMessageId,
   triggeringReferencesHeader,
   sendAsGroup,
+  attachments,
+  personalize,
 }: SendEmailParams): Promise<string | null> {
   const baseFromAddress = process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com';
   if (baseFromAddress === 'scheduler@yourdomain.com') {
@@ -35,14 +40,14 @@ export async function sendSchedulingEmail({
   console.log(`Setting Reply-To: ${replyToAddress}`);
 
   // --- Construct Threading Headers ---
-  const postmarkHeaders: Header[] = [];
+  const emailHeaders: EmailHeader[] = [];
   // Ensure triggeringMessageId has angle brackets for headers
   const triggerIdFormatted = triggeringMessageId.startsWith('<') && triggeringMessageId.endsWith('>')
     ? triggeringMessageId
     : `<${triggeringMessageId}>`;
 
   // Set In-Reply-To to the triggering message ID
-  postmarkHeaders.push({ Name: 'In-Reply-To', Value: triggerIdFormatted });
+  emailHeaders.push({ Name: 'In-Reply-To', Value: triggerIdFormatted });
   console.log(`Setting In-Reply-To: ${triggerIdFormatted}`);
 
   // Construct References: Start with existing references, then add the triggering ID if not present
@@ -53,14 +58,14 @@ export async function sendSchedulingEmail({
   }
   // Add References header only if it's not empty
   if (refs.trim()) {
-      postmarkHeaders.push({ Name: 'References', Value: refs.trim() });
+      emailHeaders.push({ Name: 'References', Value: refs.trim() });
       console.log(`Setting References: ${refs.trim()}`);
   }
   
   // --- Handle Recipients and Individual/Group Sending ---
   let firstRecipient: string;
   let remainingRecipients: string[] = [];
-  let postmarkToField: string;
+  let toRecipients: string[];
   const isMultipleRecipients = Array.isArray(to) && to.length > 1;
 
   if (Array.isArray(to)) {
@@ -77,37 +82,43 @@ export async function sendSchedulingEmail({
   if (isMultipleRecipients && sendAsGroup) {
     // Send as one email to everyone
     console.log(`Group email requested. Sending to all ${to.length} recipients in one email.`);
-    postmarkToField = to.join(', '); // Join all recipients for the To field
+    toRecipients = to; // All recipients in the To field
     remainingRecipients = []; // No individual follow-up emails needed
     // Note: No specific anti-reply-all tag added for group sends (e.g., final confirmation)
   } else {
     // Send individually (or it's just one recipient anyway)
     console.log(`Individual email sending logic. First recipient: ${firstRecipient}`);
-    postmarkToField = firstRecipient; // Send first email only to the first recipient
+    toRecipients = [firstRecipient]; // Send first email only to the first recipient
     // Add tag to discourage reply-all for individual sends
-    postmarkHeaders.push({ Name: 'X-PM-Tag', Value: 'individual-recipient' });
+    emailHeaders.push({ Name: 'X-PM-Tag', Value: 'individual-recipient' });
   }
 
-  // Add instruction for individual sends if multiple were intended
-  let modifiedTextBody = textBody;
-  if (isMultipleRecipients && !sendAsGroup && !textBody.includes("Please reply directly to me only")) {
-    modifiedTextBody = textBody + "\n\nPlease reply directly to me only.";
-  }
+  // Bodies for one send: personalized for individual sends if requested, plus an instruction
+  // for individual sends if multiple were intended
+  const bodiesFor = (recipient: string | null) => {
+    const bodies = personalize && recipient ? personalize(recipient) : { textBody, htmlBody };
+    let modifiedTextBody = bodies.textBody;
+    let modifiedHtmlBody = bodies.htmlBody;
+    if (isMultipleRecipients && !sendAsGroup && !modifiedTextBody.includes("Please reply directly to me only")) {
+      modifiedTextBody = modifiedTextBody + "\n\nPlease reply directly to me only.";
+      if (modifiedHtmlBody) modifiedHtmlBody = appendHtmlNote(modifiedHtmlBody, "Please reply directly to me only.");
+    }
+    return { textBody: modifiedTextBody, htmlBody: modifiedHtmlBody };
+  };
   
   // --- Send Email(s) --- 
   try {
-    console.log(`Attempting to send email via Postmark to: ${postmarkToField}`);
-    const response: PostmarkAPI.Models.MessageSendingResponse = await postmarkClient.sendEmail({
-      From: baseFromAddress,
-      To: postmarkToField, 
-      Subject: subject,
-      TextBody: modifiedTextBody,
-      ReplyTo: replyToAddress, 
-      MessageStream: 'outbound',
-      Headers: postmarkHeaders.length > 0 ? postmarkHeaders : undefined,
-    });
-    console.log('Postmark email sent successfully:', response.MessageID);
-    const firstMessageId = response.MessageID; // Capture the ID of the first message sent
+    console.log(`Attempting to send email to: ${toRecipients.join(', ')}`);
+    const firstMessageId = await getEmailTransport().send({
+      from: baseFromAddress,
+      to: toRecipients,
+      subject: subject,
+      ...bodiesFor(toRecipients.length === 1 ? toRecipients[0] : null),
+      replyTo: replyToAddress,
+      headers: emailHeaders,
+      attachments,
+    }); // Capture the ID of the first message sent
+    console.log('Email sent successfully:', firstMessageId);
     
     // Send to remaining recipients individually if needed
     if (remainingRecipients.length > 0) {
@@ -115,17 +126,17 @@ export async function sendSchedulingEmail({
       for (const recipient of remainingRecipients) {
         console.log(`Sending individual email to additional recipient: ${recipient}`);
         try {
-            await postmarkClient.sendEmail({
-              From: baseFromAddress,
-              To: recipient, 
-              Subject: subject,
-              TextBody: modifiedTextBody, 
-              ReplyTo: replyToAddress,
-              MessageStream: 'outbound',
-              Headers: postmarkHeaders.length > 0 ? postmarkHeaders : undefined,
+            await getEmailTransport().send({
+              from: baseFromAddress,
+              to: [recipient],
+              subject: subject,
+              ...bodiesFor(recipient),
+              replyTo: replyToAddress,
+              headers: emailHeaders,
+              attachments,
             });
         } catch (loopError) {
-            console.error(`Postmark send error for recipient ${recipient}:`, loopError);
+            console.error(`Email send error for recipient ${recipient}:`, loopError);
             // Continue sending to others even if one fails?
         }
       }
@@ -134,7 +145,7 @@ export async function sendSchedulingEmail({
     // Return the MessageID of the *first* email sent in the batch
     return firstMessageId; 
   } catch (error) {
-    console.error('Postmark send error (initial recipient): ', error);
+    console.error('Email send error (initial recipient): ', error);
     return null;
   }
 } 
\ No newline at end of file
@@ -0,0 +1,60 @@
+import type { EmailHeader } from './emailTransport';
+import { parsePostmarkInbound } from './transports/postmarkInbound';
+import { parseMimeInbound } from './transports/mimeInbound';
+
+export interface EmailAddress {
+  email: string;
+  name: string;
+}
+
+/**
+ * An inbound email normalized from whatever the provider's webhook delivered.
+ */
+export interface InboundEmail {
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  originalRecipient: string | null; // The address the email was delivered to
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+  providerMessageId: string | null; // e.g. Postmark's MessageID; may differ from the Message-ID header
+  mailboxHash: string | null; // The "+hash" part of the agent address, i.e. the session ID
+  headers: EmailHeader[];
+  rawPayload: unknown; // Kept for discarded_agent_emails
+}
+
+export type InboundAdapterName = 'postmark' | 'mime';
+
+/**
+ * Extracts the mailbox hash from the first recipient of the form `<agent>+<hash>@<agent domain>`.
+ */
+export function findMailboxHash(addresses: (string | null | undefined)[], agentAddress: string): string | null {
+  const [agentLocal, agentDomain] = agentAddress.toLowerCase().split('@');
+  for (const address of addresses) {
+    const match = address?.toLowerCase().match(/^([^@+]+)\+([^@]+)@(.+)$/);
+    if (match && match[1] === agentLocal && match[3] === agentDomain) return match[2];
+  }
+  return null;
+}
+
+export function formatAddressList(addresses: EmailAddress[]): string {
+  return addresses.map(a => (a.name ? `"${a.name}" <${a.email}>` : a.email)).join(', ');
+}
+
+/**
+ * Parses an inbound webhook request with the adapter selected by INBOUND_EMAIL_ADAPTER:
+ * 'postmark' (default, Postmark's inbound JSON) or 'mime' (raw RFC 822 messages, see
+ * lib/transports/mimeInbound.ts). Throws if the payload can't be parsed.
+ */
+export async function parseInboundEmail(req: Request): Promise<InboundEmail> {
+  const adapter = (process.env.INBOUND_EMAIL_ADAPTER || 'postmark').toLowerCase() as InboundAdapterName;
+  switch (adapter) {
+    case 'postmark':
+      return parsePostmarkInbound(await req.json());
+    case 'mime':
+      return parseMimeInbound(req);
+    default:
+      throw new Error(`Unknown INBOUND_EMAIL_ADAPTER "${adapter}". Expected postmark or mime.`);
+  }
+}
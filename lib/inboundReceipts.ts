@@ -0,0 +1,43 @@
+import { deleteInboundReceipt, insertInboundReceipt, sessionMessageExists } from './sessionRepository';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+export type InboundClaimResult = 'claimed' | 'duplicate' | 'error';
+
+/**
+ * Claims an inbound email by its Message-ID before any side effects happen.
+ *
+ * The claim is an insert into `inbound_message_receipts`, whose primary key makes it
+ * atomic: only the first delivery of a Message-ID gets 'claimed', every Postmark retry
+ * or replay gets 'duplicate'. Messages already stored in `session_messages` (processed
+ * before receipts existed) are also treated as duplicates.
+ */
+export async function claimInboundMessage(messageId: string): Promise<InboundClaimResult> {
+  const { data: existingMessage, error: lookupError } = await sessionMessageExists(messageId);
+  if (lookupError) {
+    console.error(`Supabase error checking for existing message ${messageId}:`, lookupError);
+  } else if (existingMessage) {
+    console.log(`Message ${messageId} already exists in session_messages.`);
+    return 'duplicate';
+  }
+
+  const { error: insertError } = await insertInboundReceipt(messageId);
+
+  if (!insertError) return 'claimed';
+  if (insertError.code === UNIQUE_VIOLATION) return 'duplicate';
+
+  console.error(`Supabase error claiming inbound message ${messageId}:`, insertError);
+  return 'error';
+}
+
+/**
+ * Releases a claim so a later retry of the same webhook is processed again.
+ * Only used when we bail out before doing any work (e.g. the session is busy).
+ */
+export async function releaseInboundMessageClaim(messageId: string): Promise<void> {
+  const { error } = await deleteInboundReceipt(messageId);
+  if (error) {
+    console.error(`Supabase error releasing claim for inbound message ${messageId}:`, error);
+  }
+}
@@ -0,0 +1,19 @@
+import { openai } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+
+// Set by tests to a scripted fake; null means the real OpenAI model
+let languageModelOverride: LanguageModel | null = null;
+
+/**
+ * Returns the model used for every generateObject call (scheduling decisions and availability extraction).
+ */
+export function getLanguageModel(): LanguageModel {
+  return languageModelOverride || openai('gpt-4o');
+}
+
+/**
+ * Replaces the model (e.g. with a scripted fake in tests). Pass null to go back to OpenAI.
+ */
+export function setLanguageModel(model: LanguageModel | null): void {
+  languageModelOverride = model;
+}
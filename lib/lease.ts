@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { deleteLease, insertLease, takeOverExpiredLease } from './sessionRepository';
+
+// Postgres unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+// Per-session lease (`session:<id>`): serializes work on one session across the webhook, the
+// emailed links, the dashboard and the nudge cron. It outlives a single request, and callers
+// wait this long for it by default.
+const SESSION_LEASE_TTL_SECONDS = 60;
+const SESSION_LEASE_WAIT_MS = 10000;
+
+export type SessionLeaseResult<T> = { acquired: true; result: T } | { acquired: false };
+
+/**
+ * Tries to acquire a named lease (a distributed lock with an expiry) stored in the
+ * `leases` table. Returns a holder ID if acquired, or null if someone else holds an
+ * unexpired lease. An expired lease is taken over atomically via a conditional update.
+ */
+export async function acquireLease(leaseName: string, ttlSeconds: number): Promise<string | null> {
+  const holderId = randomUUID();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+
+  // 1. Fast path: nobody has ever held this lease
+  const lease = { lease_name: leaseName, holder_id: holderId, expires_at: expiresAt };
+  const { error: insertError } = await insertLease(lease);
+
+  if (!insertError) {
+    console.log(`Lease '${leaseName}' acquired (holder ${holderId}).`);
+    return holderId;
+  }
+  if (insertError.code !== UNIQUE_VIOLATION) {
+    console.error(`Supabase error acquiring lease '${leaseName}':`, insertError);
+    return null;
+  }
+
+  // 2. Lease row exists: take it over only if it has expired
+  const { data: takenOver, error: updateError } = await takeOverExpiredLease(lease, now.toISOString());
+
+  if (updateError) {
+    console.error(`Supabase error taking over lease '${leaseName}':`, updateError);
+    return null;
+  }
+  if (takenOver) {
+    console.log(`Expired lease '${leaseName}' taken over (holder ${holderId}).`);
+    return holderId;
+  }
+
+  console.log(`Lease '${leaseName}' is held by another process.`);
+  return null;
+}
+
+/**
+ * Releases a lease, but only if it is still held by the given holder.
+ */
+export async function releaseLease(leaseName: string, holderId: string): Promise<void> {
+  const { error } = await deleteLease(leaseName, holderId);
+  if (error) {
+    console.error(`Supabase error releasing lease '${leaseName}':`, error);
+  } else {
+    console.log(`Lease '${leaseName}' released (holder ${holderId}).`);
+  }
+}
+
+/**
+ * Like acquireLease, but polls until the lease is free or `waitMs` elapses.
+ * Used to serialize work on a single session across concurrent requests.
+ */
+export async function acquireLeaseWithWait(
+  leaseName: string,
+  ttlSeconds: number,
+  waitMs: number,
+  pollIntervalMs = 500
+): Promise<string | null> {
+  const deadline = Date.now() + waitMs;
+  while (true) {
+    const holderId = await acquireLease(leaseName, ttlSeconds);
+    if (holderId || Date.now() + pollIntervalMs > deadline) return holderId;
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+/**
+ * Runs `fn` (given the session ID) while holding the session's lease, and releases it afterwards
+ * (also when `fn` throws). Waits up to `waitMs` for the lease; `acquired: false` means the
+ * session stayed busy.
+ */
+export async function withSessionLease<T>(sessionId: string, fn: (sessionId: string) => Promise<T>, waitMs = SESSION_LEASE_WAIT_MS): Promise<SessionLeaseResult<T>> {
+  const leaseName = `session:${sessionId}`;
+  const holderId = await acquireLeaseWithWait(leaseName, SESSION_LEASE_TTL_SECONDS, waitMs);
+  if (!holderId) return { acquired: false };
+  try {
+    return { acquired: true, result: await fn(sessionId) };
+  } finally {
+    await releaseLease(leaseName, holderId);
+  }
+}
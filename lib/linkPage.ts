@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { escapeHtml, resolveBranding } from './emailTemplates';
+
+// Minimal branded HTML pages returned by the emailed link routes (app/api/respond/[token],
+// app/api/drafts/[token]). They render without the app's layout so they work from any mail client.
+
+/**
+ * Renders a page with a title, a message and optional extra HTML (e.g. a form), which must
+ * already be escaped.
+ */
+export function renderLinkPage(title: string, message: string, status: number, form = ''): NextResponse {
+  const branding = resolveBranding();
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:48px 16px;background:#f4f4f4;font-family:Arial,Helvetica,sans-serif;color:#222222;">
+<div style="max-width:480px;margin:0 auto;background:#ffffff;border-top:4px solid ${branding.accentColor};padding:24px;">
+<h1 style="font-size:20px;margin:0 0 12px 0;">${escapeHtml(title)}</h1>
+<p style="margin:0 0 16px 0;line-height:1.5;">${escapeHtml(message)}</p>
+${form}
+<p style="margin:24px 0 0 0;font-size:12px;color:#888888;">${escapeHtml([branding.assistantName, branding.companyName].filter(Boolean).join(' · '))}</p>
+</div>
+</body>
+</html>`;
+  return new NextResponse(html, { status, headers: { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'no-store' } });
+}
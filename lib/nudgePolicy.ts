@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { canonicalizeTimeZone } from './timezone';
+
+// Zod schema for a nudge policy. Stored as JSON in NUDGE_POLICY (global),
+// organizer_settings.nudge_policy (per organizer) and scheduling_sessions.nudge_policy (per session).
+export const nudgePolicySchema = z.object({
+  // Minutes to wait before each nudge, measured from the previous request/nudge.
+  // The array length is the number of nudges sent before escalating.
+  nudgeIntervalsMinutes: z.array(z.number().positive()),
+  // Minutes to wait after the last nudge before escalating to the organizer
+  escalationAfterMinutes: z.number().positive(),
+  // Local hours (in the recipient's time zone) during which nothing is sent, e.g. 20 -> 8.
+  // Null disables quiet hours.
+  quietHours: z
+    .object({
+      startHour: z.number().int().min(0).max(23),
+      endHour: z.number().int().min(0).max(23),
+    })
+    .nullable(),
+  // Defer nudges that would land on a Saturday or Sunday (recipient's time zone)
+  skipWeekends: z.boolean(),
+  // Let the organizer know when the first nudge goes out
+  notifyOrganizerOnFirstNudge: z.boolean(),
+});
+
+export type NudgePolicy = z.infer<typeof nudgePolicySchema>;
+
+// Overrides may set any subset of fields
+const nudgePolicyOverrideSchema = nudgePolicySchema.partial();
+
+export const DEFAULT_NUDGE_POLICY: NudgePolicy = {
+  nudgeIntervalsMinutes: [24 * 60, 24 * 60],
+  escalationAfterMinutes: 24 * 60,
+  quietHours: { startHour: 20, endHour: 8 },
+  skipWeekends: true,
+  notifyOrganizerOnFirstNudge: true,
+};
+
+export type NudgeAction =
+  | { type: 'wait' }
+  | { type: 'nudge'; nudgeNumber: number; isFinalNudge: boolean }
+  | { type: 'escalate'; nudgesSent: number }
+  | { type: 'defer'; until: Date; reason: 'quiet_hours' | 'weekend' };
+
+// Parse an override from JSON/JSONB, ignoring (and logging) anything invalid
+function parsePolicyOverride(raw: unknown, source: string): Partial<NudgePolicy> {
+  if (raw === null || raw === undefined || raw === '') return {};
+  let value = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      console.warn(`Ignoring nudge policy from ${source}: not valid JSON.`);
+      return {};
+    }
+  }
+  const result = nudgePolicyOverrideSchema.safeParse(value);
+  if (!result.success) {
+    console.warn(`Ignoring nudge policy from ${source}: ${result.error.message}`);
+    return {};
+  }
+  return result.data;
+}
+
+/**
+ * Resolves the effective nudge policy. Later layers win:
+ * defaults < NUDGE_POLICY env var < organizer override < session override.
+ */
+export function resolveNudgePolicy(organizerOverride?: unknown, sessionOverride?: unknown): NudgePolicy {
+  return {
+    ...DEFAULT_NUDGE_POLICY,
+    ...parsePolicyOverride(process.env.NUDGE_POLICY, 'NUDGE_POLICY'),
+    ...parsePolicyOverride(organizerOverride, 'organizer_settings'),
+    ...parsePolicyOverride(sessionOverride, 'session'),
+  };
+}
+
+// Local weekday (0 = Sunday) and hour of an instant in a time zone
+function getLocalWeekdayAndHour(date: Date, timeZone: string): { weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    hour: '2-digit',
+  }).formatToParts(date);
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    weekday: weekdays.indexOf(parts.find(p => p.type === 'weekday')?.value || ''),
+    hour: parseInt(parts.find(p => p.type === 'hour')?.value || '0', 10),
+  };
+}
+
+// Why sending at this instant is not allowed, or null if it is
+function getBlockReason(date: Date, timeZone: string, policy: NudgePolicy): 'quiet_hours' | 'weekend' | null {
+  const { weekday, hour } = getLocalWeekdayAndHour(date, timeZone);
+  if (policy.skipWeekends && (weekday === 0 || weekday === 6)) return 'weekend';
+  if (policy.quietHours) {
+    const { startHour, endHour } = policy.quietHours;
+    // Quiet hours usually wrap midnight (e.g. 20 -> 8)
+    const inQuietHours = startHour <= endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+    if (inQuietHours) return 'quiet_hours';
+  }
+  return null;
+}
+
+/**
+ * Returns the earliest time at or after `from` when a message may be sent to a
+ * recipient in `timeZone` under the policy. Steps forward in 15 minute increments,
+ * which keeps DST transitions correct without date arithmetic.
+ */
+export function getNextAllowedSendTime(from: Date, timeZone: string | null | undefined, policy: NudgePolicy): Date {
+  const zone = canonicalizeTimeZone(timeZone) || 'UTC';
+  const stepMs = 15 * 60 * 1000;
+  const limit = from.getTime() + 8 * 24 * 60 * 60 * 1000;
+  let candidate = from.getTime();
+  while (candidate < limit) {
+    if (!getBlockReason(new Date(candidate), zone, policy)) return new Date(candidate);
+    // Snap to the next quarter hour after the first step
+    candidate = Math.floor(candidate / stepMs) * stepMs + stepMs;
+  }
+  return from;
+}
+
+// Number of nudges already sent, derived from the participant status
+function getNudgesSent(status: string): number | null {
+  if (status === 'pending') return 0;
+  const match = status.match(/^nudged_(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Decides what the nudge cron should do for one participant right now.
+ *
+ * Quiet hours and weekends are checked in the zone of whoever would receive the email:
+ * the participant for nudges (falling back to the organizer's zone), the organizer for escalations.
+ */
+export function evaluateNudge(
+  participant: { status: string; last_request_sent_at: string | null },
+  policy: NudgePolicy,
+  now: Date,
+  timeZones: { participant: string | null | undefined; organizer: string | null | undefined }
+): NudgeAction {
+  if (!participant.last_request_sent_at) return { type: 'wait' };
+  const nudgesSent = getNudgesSent(participant.status);
+  if (nudgesSent === null) return { type: 'wait' }; // received, cancelled, escalated, ...
+
+  const minutesSinceLastRequest = (now.getTime() - new Date(participant.last_request_sent_at).getTime()) / (1000 * 60);
+  const totalNudges = policy.nudgeIntervalsMinutes.length;
+
+  let action: NudgeAction;
+  let recipientTimeZone: string | null | undefined;
+  if (nudgesSent < totalNudges) {
+    if (minutesSinceLastRequest < policy.nudgeIntervalsMinutes[nudgesSent]) return { type: 'wait' };
+    action = { type: 'nudge', nudgeNumber: nudgesSent + 1, isFinalNudge: nudgesSent + 1 === totalNudges };
+    recipientTimeZone = timeZones.participant || timeZones.organizer;
+  } else {
+    if (minutesSinceLastRequest < policy.escalationAfterMinutes) return { type: 'wait' };
+    action = { type: 'escalate', nudgesSent };
+    recipientTimeZone = timeZones.organizer;
+  }
+
+  const zone = canonicalizeTimeZone(recipientTimeZone) || 'UTC';
+  const blockReason = getBlockReason(now, zone, policy);
+  if (blockReason) {
+    return { type: 'defer', until: getNextAllowedSendTime(now, zone, policy), reason: blockReason };
+  }
+  return action;
+}
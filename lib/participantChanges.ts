@@ -0,0 +1,287 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import type { Langfuse } from 'langfuse';
+import { getLanguageModel } from './languageModel';
+import type { ParticipantStatusDetail, SchedulingSession } from './types';
+import type { SchedulingDecision } from './schedulingDecision';
+import { updateSession } from './sessionRepository';
+import { clearParticipantAvailability } from './availability';
+import { executeSchedulingDecision, getNameFromEmail, sameEmail } from './decisionExecutor';
+
+// Changes to who attends, made by email after the session was created: the organizer adding
+// ("add jane@x.com") or dropping ("drop Bob") people, a participant looping in a colleague or
+// sending a delegate, or someone the thread was forwarded to replying. A third generateObject
+// pass extracts the requested changes; who may make which change is decided here, in code.
+// Newcomers are asked for their availability right away, so the webhook only has to
+// re-check whether everyone left has replied.
+
+// Statuses in which the participant list can still change
+const CHANGEABLE_STATUSES = ['pending_participant_response', 'pending_organizer_confirmation', 'escalated_to_organizer'];
+
+// Cheap check before spending a model call on an email that has a known sender and no new addresses
+const CHANGE_PHRASES = /\b(?:add|adding|include|invite|loop(?:ing)? in|drop|remove|exclude|replace|instead of|in (?:my|his|her|their) place|on (?:my|his|her|their) behalf|delegat\w*|forward\w*|colleague|stand(?:ing)? in|no longer (?:needs? to|coming|joining|attending))\b/i;
+
+const EMAIL_ADDRESS = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+// Zod schema for the participant change extraction pass
+const participantChangesSchema = z.object({
+  add: z.array(z.object({
+    email: z.string().describe("Email address of the person to add, exactly as written in the email or its headers."),
+    replaces: z.string().nullable().describe("Email address of the current participant this person attends in place of (a delegate or substitute). Null if they are an additional attendee."),
+  })).describe("People who should now attend. Empty if nobody is added."),
+  remove: z.array(z.string()).describe("Email addresses of current participants who should no longer attend (not counting anyone listed in 'replaces'). Empty if nobody is removed."),
+});
+
+export type ParticipantChanges = z.infer<typeof participantChangesSchema>;
+
+export interface ParticipantChangeResult {
+  participantDetails: ParticipantStatusDetail[];
+  currentStatus: string; // Moves back to pending_participant_response once newcomers are asked
+  added: string[];
+  removed: string[];
+  replaced: Record<string, string>; // Newcomer -> the participant they replaced
+}
+
+const participantChangesSystemMessage = `You work out whether an email changes who attends a meeting being scheduled.
+You are given the organizer, the current participants, the sender, the To/Cc addresses and the email body.
+
+Rules:
+*   Only report changes the email actually asks for or clearly implies. Most emails change nothing: return empty arrays.
+*   "Add jane@x.com", "please include my colleague Dan (dan@x.com)", "looping in Sam" with Sam's address in Cc: add them.
+*   "Drop Bob", "Carol doesn't need to be there", "remove bob@x.com": remove them. Match names to the current participants' addresses.
+*   "Jane will go in my place", "I'm attending on Bob's behalf", "Bob forwarded this to me, I'll join instead of him": add the new person with 'replaces' set to the participant they stand in for.
+*   If the sender is not a current participant or the organizer and is replying to take part (e.g. the thread was forwarded to them), add the sender.
+*   Someone who simply can't make it is NOT a removal; leave cancellations out.
+*   Only use email addresses that appear in the email, its headers or the participant list. Never invent an address.
+*   Ignore quoted text from earlier emails in the thread (lines starting with ">" or below "On ... wrote:"), except for forwarded messages.`;
+
+function isAgentAddress(email: string): boolean {
+  const agentEmail = (process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com').toLowerCase();
+  const [agentBase, agentDomain] = agentEmail.split('@');
+  const lcEmail = email.toLowerCase();
+  return lcEmail === agentEmail || (lcEmail.startsWith(agentBase + '+') && lcEmail.endsWith('@' + agentDomain));
+}
+
+/**
+ * Whether an email might change the participant list: it comes from someone who isn't in the
+ * session, copies in new addresses, or talks about adding, dropping or replacing people.
+ */
+export function mightChangeParticipants(
+  session: SchedulingSession,
+  participantDetails: ParticipantStatusDetail[],
+  senderEmail: string,
+  headerAddresses: string[],
+  emailBody: string,
+): boolean {
+  const known = (email: string) =>
+    sameEmail(email, session.organizer_email) || isAgentAddress(email) || participantDetails.some(p => sameEmail(p.email, email));
+  return !known(senderEmail) || headerAddresses.some(email => !known(email)) || CHANGE_PHRASES.test(emailBody);
+}
+
+/**
+ * Runs a generateObject pass over an email to extract the participant changes it asks for.
+ * Returns no changes if the model call fails.
+ */
+export async function extractParticipantChanges({
+  session,
+  participantDetails,
+  senderEmail,
+  headerAddresses,
+  emailBody,
+  trace,
+}: {
+  session: SchedulingSession;
+  participantDetails: ParticipantStatusDetail[];
+  senderEmail: string;
+  headerAddresses: string[];
+  emailBody: string;
+  trace?: ReturnType<Langfuse['trace']>;
+}): Promise<ParticipantChanges> {
+  const prompt = `Organizer: ${session.organizer_email}
+Current participants:
+${participantDetails.map(p => `- ${getNameFromEmail(p.email)} (${p.email})`).join('\n') || '- None'}
+Sender: ${senderEmail}
+To/Cc: ${headerAddresses.join(', ') || 'None'}
+
+Email body:
+${emailBody}`;
+
+  const lfGeneration = trace?.generation({
+    name: 'participant-change-extraction',
+    input: prompt,
+    model: 'gpt-4o',
+    metadata: { senderEmail, schemaUsed: 'participantChangesSchema' },
+  });
+
+  try {
+    const { object, usage } = await generateObject({
+      model: getLanguageModel(),
+      schema: participantChangesSchema,
+      system: participantChangesSystemMessage,
+      prompt,
+    });
+    lfGeneration?.end({ output: object, usage });
+    console.log(`Extracted participant changes from ${senderEmail}: ${object.add.length} to add, ${object.remove.length} to remove.`);
+    return object;
+  } catch (error) {
+    console.error(`Error extracting participant changes from ${senderEmail}:`, error);
+    lfGeneration?.end({ output: { error: error instanceof Error ? error.message : String(error) }, level: 'ERROR' });
+    return { add: [], remove: [] };
+  }
+}
+
+/**
+ * Applies extracted changes to the participant list, keeping only those the sender may make:
+ * the organizer may add, drop or replace anyone; a participant may add people or hand their
+ * own place to a delegate; anyone else may only add themselves (e.g. from a forwarded thread),
+ * possibly in place of a participant. The organizer and the agent are never participants.
+ */
+export function applyParticipantChanges(
+  participantDetails: ParticipantStatusDetail[],
+  changes: ParticipantChanges,
+  { senderEmail, organizerEmail }: { senderEmail: string; organizerEmail: string },
+): { participantDetails: ParticipantStatusDetail[]; added: string[]; removed: string[]; replaced: Record<string, string> } {
+  const senderIsOrganizer = sameEmail(senderEmail, organizerEmail);
+  const senderIsParticipant = participantDetails.some(p => sameEmail(p.email, senderEmail));
+  let details = [...participantDetails];
+  const added: string[] = [];
+  const removed: string[] = [];
+  const replaced: Record<string, string> = {};
+
+  const findParticipant = (email: string | null) => details.find(p => sameEmail(p.email, email));
+
+  for (const addition of changes.add) {
+    const email = addition.email.trim();
+    if (!EMAIL_ADDRESS.test(email) || sameEmail(email, organizerEmail) || isAgentAddress(email) || findParticipant(email)) continue;
+    if (!senderIsOrganizer && !senderIsParticipant && !sameEmail(email, senderEmail)) {
+      console.warn(`Ignoring request from ${senderEmail} to add ${email}: they are not in the session.`);
+      continue;
+    }
+
+    const replacedParticipant = findParticipant(addition.replaces);
+    const newcomer: ParticipantStatusDetail = { email, status: 'pending', last_request_sent_at: null };
+    if (replacedParticipant && (senderIsOrganizer || !senderIsParticipant || sameEmail(replacedParticipant.email, senderEmail))) {
+      // The delegate takes the replaced participant's place in the list
+      details = details.map(p => (p === replacedParticipant ? newcomer : p));
+      removed.push(replacedParticipant.email);
+      replaced[email] = replacedParticipant.email;
+      console.log(`${email} replaces ${replacedParticipant.email} (requested by ${senderEmail}).`);
+    } else {
+      if (addition.replaces) console.warn(`${senderEmail} may not replace ${addition.replaces}. Adding ${email} alongside them.`);
+      details.push(newcomer);
+      console.log(`Adding participant ${email} (requested by ${senderEmail}).`);
+    }
+    added.push(email);
+  }
+
+  for (const email of changes.remove) {
+    const participant = findParticipant(email);
+    if (!participant) continue;
+    if (!senderIsOrganizer) {
+      console.warn(`Ignoring request from ${senderEmail} to remove ${participant.email}: only the organizer can remove participants.`);
+      continue;
+    }
+    details = details.filter(p => p !== participant);
+    removed.push(participant.email);
+    console.log(`Removing participant ${participant.email} (requested by ${senderEmail}).`);
+  }
+
+  return { participantDetails: details, added, removed, replaced };
+}
+
+function newcomerRequestBody(session: SchedulingSession, replacedEmail: string | undefined): string {
+  const organizerName = session.organizer_name || getNameFromEmail(session.organizer_email);
+  const topic = session.meeting_topic ? `"${session.meeting_topic}"` : 'a meeting';
+  const why = replacedEmail
+    ? `${organizerName} is scheduling ${topic}, and you'll be attending in place of ${getNameFromEmail(replacedEmail)}.`
+    : `${organizerName} would like you to join ${topic}.`;
+  const duration = session.meeting_duration ? ` (${session.meeting_duration})` : '';
+  return `Hi there,
+
+${why}
+
+Could you let me know some times that work for you${duration}? A few days and time ranges are perfect.`;
+}
+
+/**
+ * Detects and applies participant changes in an inbound email on an existing session, saves
+ * the new list, forgets the availability of anyone removed, and asks each newcomer other than
+ * the sender for their availability. Returns null if the email changed nothing.
+ */
+export async function processParticipantChanges({
+  session,
+  participantDetails,
+  currentStatus,
+  senderEmail,
+  headerAddresses,
+  emailBody,
+  subject,
+  messageId,
+  referencesHeader,
+  trace,
+}: {
+  session: SchedulingSession;
+  participantDetails: ParticipantStatusDetail[];
+  currentStatus: string;
+  senderEmail: string;
+  headerAddresses: string[];
+  emailBody: string;
+  subject: string;
+  messageId: string;
+  referencesHeader: string | null;
+  trace?: ReturnType<Langfuse['trace']>;
+}): Promise<ParticipantChangeResult | null> {
+  const sessionId = session.session_id;
+  if (!mightChangeParticipants(session, participantDetails, senderEmail, headerAddresses, emailBody)) return null;
+  if (!CHANGEABLE_STATUSES.includes(currentStatus)) {
+    console.log(`Session ${sessionId} is '${currentStatus}'. Not checking ${senderEmail}'s email for participant changes.`);
+    return null;
+  }
+
+  const changes = await extractParticipantChanges({ session, participantDetails, senderEmail, headerAddresses, emailBody, trace });
+  const applied = applyParticipantChanges(participantDetails, changes, { senderEmail, organizerEmail: session.organizer_email });
+  if (applied.added.length === 0 && applied.removed.length === 0) return null;
+
+  let updatedDetails = applied.participantDetails;
+  const { error: updateError } = await updateSession(sessionId, {
+    participants: updatedDetails.map(p => p.email),
+    participant_status_details: updatedDetails,
+  });
+  if (updateError) {
+    console.error(`Supabase error saving participant changes for session ${sessionId} (ignoring them):`, updateError);
+    return null;
+  }
+  for (const email of applied.removed) {
+    await clearParticipantAvailability(sessionId, email);
+  }
+
+  // The sender is answering already, so only the others are asked
+  let status = currentStatus;
+  for (const email of applied.added.filter(address => !sameEmail(address, senderEmail))) {
+    const decision: SchedulingDecision = {
+      next_step: 'ask_participant_availability',
+      recipients: [email],
+      email_body: newcomerRequestBody(session, applied.replaced[email]),
+    };
+    const outcome = await executeSchedulingDecision(decision, {
+      session,
+      currentStatus: status,
+      participantDetails: updatedDetails,
+      subject,
+      trigger: { messageId, referencesHeader, actorEmail: senderEmail, cause: 'participant_change' },
+      reschedule: false,
+    });
+    if (outcome.status === 'executed') {
+      status = 'pending_participant_response';
+      // Mirror the timestamp the executor saved, so the caller's later write keeps it
+      const sentAt = new Date().toISOString();
+      updatedDetails = updatedDetails.map(p => (p.email === email ? { ...p, last_request_sent_at: sentAt } : p));
+    } else if (outcome.status === 'rejected_illegal_transition') {
+      console.warn(`Could not ask new participant ${email} for availability (${outcome.from} -> ${outcome.to}).`);
+    } else {
+      console.error(`Could not ask new participant ${email} for availability: the email failed to send.`);
+    }
+  }
+
+  return { participantDetails: updatedDetails, currentStatus: status, added: applied.added, removed: applied.removed, replaced: applied.replaced };
+}
@@ -1,11 +1,31 @@
 import { ServerClient } from 'postmark';
 
-// Ensure environment variable is set
-const postmarkToken = process.env.POSTMARK_SERVER_TOKEN;
+// The only part of the Postmark client the app uses, so tests can inject a fake
+export type PostmarkSender = Pick<ServerClient, 'sendEmail'>;
 
-if (!postmarkToken) {
-  throw new Error("Missing environment variable POSTMARK_SERVER_TOKEN");
+// Created on first use, so importing this module never requires the env var
+let postmarkClient: PostmarkSender | null = null;
+
+/**
+ * Returns the shared Postmark client, creating it from the environment on first use.
+ */
+export function getPostmarkClient(): PostmarkSender {
+  if (postmarkClient) return postmarkClient;
+
+  // Ensure environment variable is set
+  const postmarkToken = process.env.POSTMARK_SERVER_TOKEN;
+
+  if (!postmarkToken) {
+    throw new Error("Missing environment variable POSTMARK_SERVER_TOKEN");
+  }
+
+  postmarkClient = new ServerClient(postmarkToken);
+  return postmarkClient;
 }
 
-// Create and export the Postmark client instance
-export const postmarkClient = new ServerClient(postmarkToken); 
\ No newline at end of file
+/**
+ * Replaces the shared client (e.g. with a recording fake in tests). Pass null to go back to the environment.
+ */
+export function setPostmarkClient(client: PostmarkSender | null): void {
+  postmarkClient = client;
+}
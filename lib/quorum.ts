@@ -0,0 +1,119 @@
+import type { ParticipantStatusDetail, SchedulingSession } from './types';
+import { findOrganizerSettings } from './sessionRepository';
+
+// Which replies a session waits for before the AI moves on to the organizer. Each participant is
+// required or optional (participant_status_details[].required, inferred when the session is
+// created and from the organizer's wording); the quorum rule says what counts as enough:
+//   'all'      - every participant has replied, optional or not
+//   'required' - every required participant has replied (the default)
+//   'majority' - every required participant, and more than half of all participants, have replied
+// The rule is QUORUM_RULE (global) < organizer_settings.quorum_rule < scheduling_sessions.quorum_rule.
+
+export const QUORUM_RULES = ['all', 'required', 'majority'] as const;
+
+export type QuorumRule = typeof QUORUM_RULES[number];
+
+export const DEFAULT_QUORUM_RULE: QuorumRule = 'required';
+
+export function isQuorumRule(value: unknown): value is QuorumRule {
+  return typeof value === 'string' && (QUORUM_RULES as readonly string[]).includes(value);
+}
+
+// Words that mark the participants named in the same sentence as optional or required
+const OPTIONAL_WORDING = /\b(?:optional(?:ly)?|nice to have|if (?:he|she|they|you) (?:can|are able to) make it|(?:no|don'?t) need to wait for|not (?:required|essential|needed))\b/i;
+const REQUIRED_WORDING = /\b(?:required|must (?:attend|be there|join)|needs? to (?:attend|be there|join)|essential|mandatory)\b/i;
+
+/**
+ * Participants are required unless marked optional. Entries written before the flag existed count as required.
+ */
+export function isRequiredParticipant(participant: ParticipantStatusDetail): boolean {
+  return participant.required !== false;
+}
+
+/**
+ * Resolves a session's quorum rule. Later layers win: default < QUORUM_RULE env var <
+ * organizer setting < session setting. Unknown values are ignored (and logged).
+ */
+export function resolveQuorumRule(organizerRule?: string | null, sessionRule?: string | null): QuorumRule {
+  let rule = DEFAULT_QUORUM_RULE;
+  for (const [value, source] of [[process.env.QUORUM_RULE, 'QUORUM_RULE'], [organizerRule, 'organizer_settings'], [sessionRule, 'session']] as const) {
+    if (value === null || value === undefined || value === '') continue;
+    if (isQuorumRule(value)) rule = value;
+    else console.warn(`Ignoring quorum rule '${value}' from ${source}.`);
+  }
+  return rule;
+}
+
+/**
+ * Loads the organizer's setting and resolves the session's quorum rule. If the settings can't
+ * be loaded, the organizer layer is skipped.
+ */
+export async function loadQuorumRule(session: SchedulingSession): Promise<QuorumRule> {
+  const { data: settings, error } = await findOrganizerSettings(session.organizer_email);
+  if (error) console.error(`Supabase error loading organizer settings for ${session.organizer_email} (ignoring their quorum rule):`, error);
+  return resolveQuorumRule(settings?.quorum_rule, session.quorum_rule);
+}
+
+/**
+ * Whether enough participants have replied (status 'received') under the rule. With no
+ * required participants, 'required' waits for everyone. Cancelled participants don't count.
+ */
+export function hasQuorum(participantDetails: ParticipantStatusDetail[], rule: QuorumRule): boolean {
+  const replied = (p: ParticipantStatusDetail) => p.status === 'received';
+  const active = participantDetails.filter(p => p.status !== 'cancelled');
+  const required = active.filter(isRequiredParticipant);
+  if (rule === 'all' || required.length === 0) return active.every(replied);
+  if (!required.every(replied)) return false;
+  return rule === 'required' || active.filter(replied).length * 2 > active.length;
+}
+
+/**
+ * The active participants a time has to suit: the required ones, or everyone under 'all' (and
+ * when nobody is required).
+ */
+export function quorumParticipants(participantDetails: ParticipantStatusDetail[], rule: QuorumRule): ParticipantStatusDetail[] {
+  const active = participantDetails.filter(p => p.status !== 'cancelled');
+  const required = active.filter(isRequiredParticipant);
+  return rule === 'all' || required.length === 0 ? active : required;
+}
+
+/**
+ * Infers required/optional flags for a new session's participants from the To and Cc headers:
+ * when the organizer put some participants in To, those are required and the Cc'd ones
+ * optional. If everyone was Cc'd (the usual "Amy, cc Bob and Carol"), everyone is required.
+ */
+export function inferRequiredFromHeaders(participants: string[], toAddresses: string[]): Map<string, boolean> {
+  const inTo = (email: string) => toAddresses.some(address => address.toLowerCase() === email.toLowerCase());
+  const anyInTo = participants.some(inTo);
+  return new Map(participants.map(email => [email.toLowerCase(), !anyInTo || inTo(email)]));
+}
+
+/**
+ * Reads the organizer's wording ("Dan is optional", "Carol must attend") for participants named
+ * (by address or by the name in their address) in a sentence with optional or required wording.
+ * Returns only the participants the email says something about.
+ */
+export function detectAttendanceWording(emailBody: string, participants: string[]): Map<string, boolean> {
+  const flags = new Map<string, boolean>();
+  // Only the organizer's own text, not quoted earlier messages
+  const ownText = emailBody.split(/\n\s*On .+wrote:|\n>/)[0];
+  for (const sentence of ownText.split(/(?<=[.!?;\n])\s*/)) {
+    const optional = OPTIONAL_WORDING.test(sentence);
+    const required = !optional && REQUIRED_WORDING.test(sentence);
+    if (!optional && !required) continue;
+    for (const email of participants) {
+      const localName = email.split('@')[0].split(/[._+-]/)[0].replace(/[^a-z0-9]/gi, '');
+      const named = sentence.toLowerCase().includes(email.toLowerCase())
+        || (localName.length > 1 && new RegExp(`\\b${localName}\\b`, 'i').test(sentence));
+      if (named) flags.set(email.toLowerCase(), required);
+    }
+  }
+  return flags;
+}
+
+/**
+ * Applies required/optional flags (keyed by lower-cased email) to participant entries.
+ */
+export function applyRequiredFlags(participantDetails: ParticipantStatusDetail[], flags: Map<string, boolean>): ParticipantStatusDetail[] {
+  return participantDetails.map(p => (flags.has(p.email.toLowerCase()) ? { ...p, required: flags.get(p.email.toLowerCase()) } : p));
+}
@@ -0,0 +1,269 @@
+import type { TimeInterval, AvailabilityWindow } from './slotEngine';
+import { getTimeZoneOffsetMinutes } from './timezone';
+
+// Recurring meetings ("weekly 1:1 on Tuesdays", "biweekly sync"). The organizer's request is
+// turned into an iCalendar RRULE value (without the "RRULE:" prefix), stored on
+// scheduling_sessions.recurrence_rule. Occurrences are expanded in wall-clock time of a zone
+// (the organizer's), so a 9:00 AM series stays at 9:00 AM across DST changes. Supported:
+// FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (weekly) and COUNT.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: string[]; // e.g. ['TU', 'TH']; empty means the weekday of the first occurrence
+  count: number | null;
+}
+
+// How many occurrences of a series are checked against availability and listed for the AI
+export const SERIES_CHECK_OCCURRENCES = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+/**
+ * Parses an RRULE value such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU". Returns null for rules
+ * this module can't expand.
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const parts = new Map(value.replace(/^RRULE:/i, '').split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()] as const;
+  }));
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+  const interval = parts.has('INTERVAL') ? parseInt(parts.get('INTERVAL')!, 10) : 1;
+  const count = parts.has('COUNT') ? parseInt(parts.get('COUNT')!, 10) : null;
+  const byDay = parts.has('BYDAY') ? parts.get('BYDAY')!.split(',').filter(day => WEEKDAYS.includes(day)) : [];
+  if (!(interval >= 1) || (count !== null && !(count >= 1))) return null;
+  return { freq, interval, byDay: freq === 'WEEKLY' ? byDay : [], count };
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.join(',')}`] : []),
+    ...(rule.count ? [`COUNT=${rule.count}`] : []),
+  ].join(';');
+}
+
+/**
+ * Describes a rule for emails and the dashboard, e.g. "Every 2 weeks on Tuesday".
+ */
+export function describeRecurrence(value: string | null | undefined): string | null {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return null;
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+  if (rule.byDay.length > 0) {
+    const names = rule.byDay.map(day => WEEKDAY_NAMES[WEEKDAYS.indexOf(day)]);
+    text += ` on ${names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names.at(-1)}` : names[0]}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
+
+// Recurrence wording only counts next to a word for the meeting itself ("weekly 1:1", "every
+// Tuesday we meet"), and not in a negated sentence ("I can't do Mondays", "weekly planning isn't working")
+const MEETING_WORDS = /\b(?:meet(?:ing)?s?|calls?|syncs?|sync-ups?|1:1s?|1-on-1s?|one-on-ones?|stand-?ups?|check-?ins?|catch-?ups?|reviews?|sessions?|huddles?|retros?|retrospectives?)\b/i;
+const NEGATION = /\b(?:cannot|not|no longer|never|(?:can|don|doesn|won|isn|aren|wasn|weren|shouldn|couldn|wouldn)['’]?t)\b/i;
+const MEETING_WORD_WINDOW = 4; // Words either side of the recurrence wording
+
+const DAY_NAME = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const EVERY_DAY_PATTERN = new RegExp(`\\b(?:every|each)\\s+(${DAY_NAME}(?:\\s*(?:,|and|&)\\s*${DAY_NAME})*)\\b`, 'gi');
+const PLURAL_DAY_PATTERN = new RegExp(`\\b(${DAY_NAME})s\\b`, 'gi');
+
+// Whether a meeting word is within a few words of the match at `index`
+function nearMeetingWord(sentence: string, index: number, length: number): boolean {
+  const before = sentence.slice(0, index).trim().split(/\s+/).slice(-MEETING_WORD_WINDOW).join(' ');
+  const after = sentence.slice(index + length).trim().split(/\s+/).slice(0, MEETING_WORD_WINDOW).join(' ');
+  return MEETING_WORDS.test(`${before} ${after}`);
+}
+
+function dayCodes(names: string): string[] {
+  return [...names.matchAll(new RegExp(DAY_NAME, 'gi'))].map(match => WEEKDAYS[WEEKDAY_NAMES.findIndex(name => name.toLowerCase() === match[0].toLowerCase())]);
+}
+
+// The frequency, interval and weekdays one sentence sets for the meeting, if any
+function detectInSentence(sentence: string): Pick<RecurrenceRule, 'freq' | 'interval' | 'byDay'> | null {
+  if (NEGATION.test(sentence)) return null;
+  const matchesMeeting = (pattern: RegExp) =>
+    [...sentence.matchAll(new RegExp(pattern.source, 'gi'))].find(match => nearMeetingWord(sentence, match.index!, match[0].length)) || null;
+
+  let freq: RecurrenceFrequency | null = null;
+  let interval = 1;
+  let byDay: string[] = [];
+  const everyDay = matchesMeeting(EVERY_DAY_PATTERN);
+  if (matchesMeeting(/\b(?:every (?:week ?day|business day)s?|each weekday)\b/)) {
+    return { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'TU', 'WE', 'TH', 'FR'] };
+  } else if (matchesMeeting(/\b(?:bi-?weekly|fortnightly|every (?:other|second|2|two) weeks?)\b/)) {
+    freq = 'WEEKLY';
+    interval = 2;
+  } else if (matchesMeeting(/\b(?:weekly|every week|each week|once a week)\b/)) {
+    freq = 'WEEKLY';
+  } else if (matchesMeeting(/\bdaily\b/)) {
+    return { freq: 'DAILY', interval: 1, byDay: [] };
+  } else if (matchesMeeting(/\b(?:monthly|every month|each month|once a month)\b/)) {
+    return { freq: 'MONTHLY', interval: 1, byDay: [] };
+  } else if (!everyDay) {
+    return null;
+  }
+
+  // "every Tuesday and Thursday" makes a meeting weekly; "weekly ... on Tuesdays" names its day
+  if (everyDay) byDay = dayCodes(everyDay[1]);
+  else byDay = [...sentence.matchAll(PLURAL_DAY_PATTERN)].flatMap(match => dayCodes(match[1]));
+  byDay = [...new Set(byDay)].sort((a, b) => (WEEKDAYS.indexOf(a) + 6) % 7 - (WEEKDAYS.indexOf(b) + 6) % 7);
+  return { freq: freq || 'WEEKLY', interval, byDay };
+}
+
+/**
+ * Detects a recurring meeting in the organizer's request ("weekly 1:1", "biweekly sync",
+ * "meet every Tuesday", "a monthly review for 6 months") and returns its RRULE value, or null
+ * for a one-off meeting. Recurrence wording that isn't about the meeting ("I'm free every day",
+ * "I can't do Mondays") and quoted earlier messages are ignored.
+ */
+export function detectRecurrence(emailBody: string): string | null {
+  const text = emailBody.split(/\n\s*On .+wrote:|\n>/)[0];
+
+  let detected: Pick<RecurrenceRule, 'freq' | 'interval' | 'byDay'> | null = null;
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+    detected = detectInSentence(sentence);
+    if (detected) break;
+  }
+  if (!detected) return null;
+  const { freq, interval, byDay } = detected;
+
+  // "for 6 weeks", "for three months", "for 8 sessions"
+  let count: number | null = null;
+  const countMatch = text.match(/\bfor (?:the next )?(\d+|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve) (days?|weeks?|months?|sessions?|meetings?|occurrences?|times)\b/i);
+  if (countMatch) {
+    const n = /^\d+$/.test(countMatch[1]) ? parseInt(countMatch[1], 10) : NUMBER_WORDS[countMatch[1].toLowerCase()];
+    const unit = countMatch[2].toLowerCase().replace(/s$/, '');
+    const freqUnit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[freq];
+    if (unit === freqUnit) count = Math.max(1, Math.ceil(n / interval)) * Math.max(1, byDay.length);
+    else if (!['day', 'week', 'month'].includes(unit)) count = n;
+  }
+
+  return formatRecurrenceRule({ freq, interval, byDay, count });
+}
+
+/**
+ * The rule an organizer's later email sets for an existing session, or null if it doesn't
+ * change anything. A bare "weekly" (as in "move this week's weekly") doesn't replace a more
+ * specific weekly rule.
+ */
+export function detectRecurrenceChange(emailBody: string, currentRule: string | null): string | null {
+  const detected = detectRecurrence(emailBody);
+  if (!detected || detected === currentRule) return null;
+  const current = parseRecurrenceRule(currentRule);
+  if (current && detected === `FREQ=${current.freq}`) return null;
+  return detected;
+}
+
+/**
+ * Moves a single-day weekly rule to the weekday a series now starts on (e.g. the whole
+ * series moved from Tuesdays to Wednesdays), in the series' zone. Other rules are returned as is.
+ */
+export function alignRecurrenceToStart(value: string, start: Date, timeZone: string | null): string {
+  const rule = parseRecurrenceRule(value);
+  if (!rule || rule.byDay.length !== 1) return value;
+  const weekday = WEEKDAYS[new Date(toLocalMs(start.getTime(), timeZone || 'UTC')).getUTCDay()];
+  return weekday === rule.byDay[0] ? value : formatRecurrenceRule({ ...rule, byDay: [weekday] });
+}
+
+// Wall-clock time of an instant in a zone, as milliseconds on a UTC timeline
+function toLocalMs(utcMs: number, timeZone: string): number {
+  return utcMs + getTimeZoneOffsetMinutes(timeZone, new Date(utcMs)) * 60000;
+}
+
+// The instant at which a zone's clocks show a wall-clock time (the later offset wins in a gap)
+function fromLocalMs(localMs: number, timeZone: string): number {
+  const guess = localMs - getTimeZoneOffsetMinutes(timeZone, new Date(localMs)) * 60000;
+  return localMs - getTimeZoneOffsetMinutes(timeZone, new Date(guess)) * 60000;
+}
+
+/**
+ * Expands the first `limit` occurrences of a series whose first occurrence is `first`, in
+ * wall-clock time of `timeZone` (UTC if null). Honors COUNT; the first occurrence always counts.
+ */
+export function expandOccurrences(value: string | null | undefined, first: TimeInterval, timeZone: string | null, limit: number): TimeInterval[] {
+  const rule = parseRecurrenceRule(value);
+  const duration = first.end - first.start;
+  if (!rule) return [{ start: first.start, end: first.end }];
+  const zone = timeZone || 'UTC';
+  const max = Math.min(limit, rule.count ?? limit);
+  const firstLocal = toLocalMs(first.start, zone);
+  const localStarts: number[] = [firstLocal];
+
+  if (rule.freq === 'MONTHLY') {
+    const base = new Date(firstLocal);
+    for (let k = 1; localStarts.length < max && k < max * 12; k++) {
+      const candidate = new Date(base.getTime());
+      candidate.setUTCMonth(base.getUTCMonth() + k * rule.interval);
+      // Months without that day (e.g. the 31st) are skipped, as in RFC 5545
+      if (candidate.getUTCDate() === base.getUTCDate()) localStarts.push(candidate.getTime());
+    }
+  } else if (rule.freq === 'DAILY' || rule.byDay.length === 0) {
+    const stepDays = rule.freq === 'DAILY' ? rule.interval : 7 * rule.interval;
+    for (let k = 1; localStarts.length < max; k++) localStarts.push(firstLocal + k * stepDays * DAY_MS);
+  } else {
+    // Weeks start on Monday (WKST=MO); only every INTERVAL-th week is used
+    const firstWeekday = new Date(firstLocal).getUTCDay();
+    const weekStart = firstLocal - ((firstWeekday + 6) % 7) * DAY_MS;
+    for (let day = 1; localStarts.length < max && day < max * 7 * rule.interval + 7; day++) {
+      const candidate = firstLocal + day * DAY_MS;
+      const week = Math.floor((candidate - weekStart) / (7 * DAY_MS));
+      if (week % rule.interval === 0 && rule.byDay.includes(WEEKDAYS[new Date(candidate).getUTCDay()])) localStarts.push(candidate);
+    }
+  }
+
+  return localStarts.slice(0, max).map(localStart => {
+    const start = fromLocalMs(localStart, zone);
+    return { start, end: start + duration };
+  });
+}
+
+// Calendar date of an instant in a zone, e.g. "2025-04-22"
+function localDay(ms: number, timeZone: string | null): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timeZone || 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(ms));
+}
+
+export interface SeriesCheck {
+  occurrences: TimeInterval[];
+  conflicts: { email: string; occurrence: TimeInterval }[]; // Availability given for that day doesn't cover it
+  unknown: number; // Participant/occurrence pairs with no availability given for that day
+}
+
+/**
+ * Checks the first occurrences of a series starting at `first` against everyone's stored
+ * availability. An occurrence conflicts for a participant who gave availability on that day
+ * (in their zone) that doesn't cover it; days they said nothing about are counted as unknown.
+ */
+export function checkSeries(
+  value: string,
+  first: TimeInterval,
+  participants: { email: string; timezone: string | null; windows: AvailabilityWindow[] }[],
+  seriesTimeZone: string | null,
+  limit = SERIES_CHECK_OCCURRENCES,
+): SeriesCheck {
+  const occurrences = expandOccurrences(value, first, seriesTimeZone, limit);
+  const check: SeriesCheck = { occurrences, conflicts: [], unknown: 0 };
+  for (const occurrence of occurrences) {
+    for (const participant of participants) {
+      if (participant.windows.some(window => window.start <= occurrence.start && window.end >= occurrence.end)) continue;
+      const day = localDay(occurrence.start, participant.timezone);
+      const saidSomethingThatDay = participant.windows.some(window =>
+        localDay(window.start, participant.timezone) === day || localDay(window.end - 1, participant.timezone) === day);
+      if (saidSomethingThatDay) check.conflicts.push({ email: participant.email, occurrence });
+      else check.unknown++;
+    }
+  }
+  return check;
+}
@@ -0,0 +1,103 @@
+import type { SchedulingSession } from './types';
+import type { TimeInterval } from './slotEngine';
+import { parseDurationMinutes } from './calendarInvite';
+import { expandOccurrences } from './recurrence';
+import { formatRangeInTimeZone, resolveTimeZone } from './timezone';
+
+// Pre-meeting reminders for confirmed sessions (app/api/cron/reminders/route.ts). Every attendee
+// is emailed at each offset before the meeting, e.g. 24 hours and 1 hour before. The offsets are
+// REMINDER_OFFSETS_MINUTES (global, e.g. "1440,60") < organizer_settings.reminder_offsets_minutes;
+// an empty list turns reminders off. Reminders are logged per meeting start (session_reminders),
+// so a moved meeting, or the next occurrence of a series, is reminded afresh.
+
+export const DEFAULT_REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+// How far into a series to look for the next occurrence
+const MAX_SERIES_OCCURRENCES = 500;
+
+// Parse an offsets list from a comma-separated string or an array, ignoring (and logging) anything invalid
+function parseOffsets(raw: unknown, source: string): number[] | null {
+  if (raw === null || raw === undefined || raw === '') return null;
+  const values = typeof raw === 'string' ? raw.split(',').map(value => Number(value.trim())) : raw;
+  if (!Array.isArray(values) || !values.every(value => typeof value === 'number' && Number.isInteger(value) && value > 0)) {
+    console.warn(`Ignoring reminder offsets from ${source}: expected positive whole minutes, got ${JSON.stringify(raw)}.`);
+    return null;
+  }
+  return values;
+}
+
+/**
+ * Resolves the minutes before a meeting at which reminders go out, largest first. Later layers
+ * win: defaults < REMINDER_OFFSETS_MINUTES env var < organizer setting.
+ */
+export function resolveReminderOffsets(organizerOffsets?: unknown): number[] {
+  const offsets = parseOffsets(organizerOffsets, 'organizer_settings')
+    ?? parseOffsets(process.env.REMINDER_OFFSETS_MINUTES, 'REMINDER_OFFSETS_MINUTES')
+    ?? DEFAULT_REMINDER_OFFSETS_MINUTES;
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * The next meeting of a confirmed session that hasn't started yet: the confirmed time, or for a
+ * series the next occurrence, with moved and cancelled occurrences taken into account.
+ */
+export function nextMeeting(session: SchedulingSession, now: Date): TimeInterval | null {
+  const first = Date.parse(session.confirmed_datetime || '');
+  if (isNaN(first)) return null;
+  const durationMs = parseDurationMinutes(session.meeting_duration) * 60 * 1000;
+  const occurrences = expandOccurrences(session.recurrence_rule, { start: first, end: first + durationMs }, resolveTimeZone(session.organizer_timezone), MAX_SERIES_OCCURRENCES);
+
+  const starts: number[] = [];
+  for (const occurrence of occurrences) {
+    const exception = session.recurrence_exceptions.find(e => Date.parse(e.occurrence_start) === occurrence.start);
+    if (!exception) starts.push(occurrence.start);
+    else if (exception.new_start && !isNaN(Date.parse(exception.new_start))) starts.push(Date.parse(exception.new_start));
+  }
+  const upcoming = starts.filter(start => start > now.getTime()).sort((a, b) => a - b)[0];
+  return upcoming === undefined ? null : { start: upcoming, end: upcoming + durationMs };
+}
+
+/**
+ * Which reminder (offset in minutes) is due now for a meeting, or null. A reminder is due from its
+ * offset until half of it has passed, so one that is too late to be useful (the meeting was only
+ * confirmed 2 hours before, say) is skipped rather than sent. If several are due after an outage,
+ * only the closest to the meeting is sent.
+ */
+export function dueReminderOffset(meetingStart: number, offsets: number[], now: Date, sentOffsets: number[]): number | null {
+  const minutesLeft = (meetingStart - now.getTime()) / 60000;
+  const due = offsets.filter(offset => minutesLeft <= offset && minutesLeft > offset / 2 && !sentOffsets.includes(offset));
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// "24 hours", "2 days", "45 minutes"
+function formatLeadTime(minutes: number): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (minutes >= 48 * 60) return plural(Math.round(minutes / (24 * 60)), 'day');
+  if (minutes >= 60) return plural(Math.round(minutes / 60), 'hour');
+  return plural(Math.max(1, Math.round(minutes)), 'minute');
+}
+
+/**
+ * Builds one attendee's reminder: the meeting time in their time zone (UTC if unknown) and the
+ * location, or the join link of a virtual meeting.
+ */
+export function buildReminderEmail(
+  session: SchedulingSession,
+  meeting: TimeInterval,
+  recipient: { email: string; timeZone: string | null },
+  now: Date
+): { subject: string; body: string } {
+  const topic = session.meeting_topic || 'meeting';
+  const leadTime = formatLeadTime((meeting.start - now.getTime()) / 60000);
+  const location = session.meeting_location?.trim() || null;
+  const whereLine = location && /^https?:\/\//i.test(location) ? `Join link: ${location}`
+    : location ? `Where: ${location}`
+    : session.is_virtual ? 'Where: Virtual'
+    : null;
+  const lines = [`When: ${formatRangeInTimeZone(meeting.start, meeting.end, recipient.timeZone)}`, ...(whereLine ? [whereLine] : [])];
+
+  return {
+    subject: `Reminder: ${topic} in ${leadTime}`,
+    body: `Hi ${recipient.email.split('@')[0]},\n\nJust a reminder that "${topic}" starts in ${leadTime}.\n\n${lines.join('\n')}\n\nIf you can no longer make it, reply to this email and I'll let ${session.organizer_name || session.organizer_email} know.`,
+  };
+}
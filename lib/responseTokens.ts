@@ -0,0 +1,128 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+// Signed, expiring tokens behind the one-click "works for me / doesn't work" links in proposal
+// emails (app/api/respond/[token]/route.ts), the participants' availability picker links
+// (app/availability/[token]) and the organizer's draft review links (app/api/drafts/[token]). A token is base64url(JSON payload) + "." + base64url(HMAC-SHA256
+// of the payload), so it can be verified without a database lookup.
+
+export const responseTokenPayloadSchema = z.object({
+  sid: z.string(), // Session ID
+  pid: z.string(), // Proposal ID (scheduling_sessions.active_proposal_id when the email was sent)
+  em: z.string(), // Responder email
+  i: z.number().int().min(0), // Option index within the proposal
+  n: z.number().int().min(1), // Number of options in the proposal
+  st: z.string(), // Slot start, ISO
+  en: z.string(), // Slot end, ISO
+  a: z.enum(['accept', 'decline']),
+  tz: z.string().nullable(), // Responder's time zone when the email was sent, for the confirm page
+  exp: z.number().int(), // Expiry, seconds since epoch
+});
+
+export type ResponseTokenPayload = z.infer<typeof responseTokenPayloadSchema>;
+
+// The kind field keeps one type of token from being accepted as the other
+export const availabilityTokenPayloadSchema = z.object({
+  k: z.literal('availability'),
+  sid: z.string(), // Session ID
+  em: z.string(), // Participant email
+  exp: z.number().int(), // Expiry, seconds since epoch
+});
+
+export type AvailabilityTokenPayload = z.infer<typeof availabilityTokenPayloadSchema>;
+
+export const draftTokenPayloadSchema = z.object({
+  k: z.literal('draft'),
+  did: z.string(), // Draft ID (session_drafts.draft_id)
+  em: z.string(), // Reviewer (organizer) email
+  exp: z.number().int(), // Expiry, seconds since epoch
+});
+
+export type DraftTokenPayload = z.infer<typeof draftTokenPayloadSchema>;
+
+type TokenResult<T> =
+  | { ok: true; payload: T }
+  | { ok: false; reason: 'malformed' | 'bad_signature' | 'expired' };
+
+export type ResponseTokenResult = TokenResult<ResponseTokenPayload>;
+export type AvailabilityTokenResult = TokenResult<AvailabilityTokenPayload>;
+export type DraftTokenResult = TokenResult<DraftTokenPayload>;
+
+const DEFAULT_TTL_HOURS = 7 * 24;
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function createToken(payload: object, secret: string, ttlHours: number): string {
+  const body = { ...payload, exp: Math.floor(Date.now() / 1000) + Math.round(ttlHours * 3600) };
+  const data = Buffer.from(JSON.stringify(body)).toString('base64url');
+  return `${data}.${sign(data, secret)}`;
+}
+
+function verifyToken<T extends { exp: number }>(token: string, secret: string, schema: z.ZodType<T>): TokenResult<T> {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return { ok: false, reason: 'malformed' };
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'bad_signature' };
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  const parsed = schema.safeParse(decoded);
+  if (!parsed.success) return { ok: false, reason: 'malformed' };
+  if (parsed.data.exp * 1000 < Date.now()) return { ok: false, reason: 'expired' };
+  return { ok: true, payload: parsed.data };
+}
+
+/**
+ * Base URL and secret for response, availability and draft review links, or null (links disabled) if either
+ * is missing.
+ */
+export function getResponseLinkConfig(): { baseUrl: string; secret: string; ttlHours: number } | null {
+  const baseUrl = process.env.APP_BASE_URL?.replace(/\/+$/, '');
+  const secret = process.env.RESPONSE_TOKEN_SECRET;
+  if (!baseUrl || !secret) return null;
+  const ttlHours = parseInt(process.env.RESPONSE_LINK_TTL_HOURS || '', 10) || DEFAULT_TTL_HOURS;
+  return { baseUrl, secret, ttlHours };
+}
+
+export function createResponseToken(payload: Omit<ResponseTokenPayload, 'exp'>, secret: string, ttlHours: number): string {
+  return createToken(payload, secret, ttlHours);
+}
+
+/**
+ * Checks a response token's signature and expiry and returns its payload.
+ */
+export function verifyResponseToken(token: string, secret: string): ResponseTokenResult {
+  return verifyToken(token, secret, responseTokenPayloadSchema);
+}
+
+export function createAvailabilityToken(payload: Omit<AvailabilityTokenPayload, 'k' | 'exp'>, secret: string, ttlHours: number): string {
+  return createToken({ k: 'availability', ...payload }, secret, ttlHours);
+}
+
+/**
+ * Checks an availability picker token's signature and expiry and returns its payload.
+ */
+export function verifyAvailabilityToken(token: string, secret: string): AvailabilityTokenResult {
+  return verifyToken(token, secret, availabilityTokenPayloadSchema);
+}
+
+export function createDraftToken(payload: Omit<DraftTokenPayload, 'k' | 'exp'>, secret: string, ttlHours: number): string {
+  return createToken({ k: 'draft', ...payload }, secret, ttlHours);
+}
+
+/**
+ * Checks a draft review token's signature and expiry and returns its payload.
+ */
+export function verifyDraftToken(token: string, secret: string): DraftTokenResult {
+  return verifyToken(token, secret, draftTokenPayloadSchema);
+}
@@ -0,0 +1,493 @@
+import { getLanguageModel } from './languageModel';
+import { schedulingDecisionSchema, type SchedulingDecision } from './schedulingDecision';
+import { generateObject, CoreMessage } from 'ai';
+import type { Langfuse } from 'langfuse';
+import { listSessionMessages } from './sessionRepository';
+import type { ParticipantStatusDetail, SchedulingSession, SessionMessage } from './types';
+import { getNameFromEmail } from './decisionExecutor';
+import { parseDurationMinutes } from './calendarInvite';
+import { loadSessionAvailability } from './availability';
+import { findCandidateSlots, DEFAULT_WORKING_HOURS, type TimeInterval } from './slotEngine';
+import { resolveTimeZone, formatRangeInTimeZone } from './timezone';
+import { hasQuorum, isRequiredParticipant, loadQuorumRule, quorumParticipants } from './quorum';
+import { checkSeries, describeRecurrence, expandOccurrences, SERIES_CHECK_OCCURRENCES, type SeriesCheck } from './recurrence';
+
+// The AI side of scheduling: the system prompt, and the call that turns a session's
+// conversation, participant statuses and computed candidate slots into the next decision.
+// Used by the inbound webhook, the availability picker (app/availability/[token]) and the
+// dashboard's force-advance action.
+
+// Enhanced System Prompt for Structured Output
+const systemMessage = `You are an AI assistant specialized in scheduling meetings via email conversations.
+Your primary goal is to coordinate a meeting time between an organizer and one or more participants.
+
+Follow these steps:
+1.  Analyze the incoming email (From Name and Email, Subject, Body) and the entire conversation history.
+2.  Determine the current state and the most logical next step in the scheduling process.
+3.  Identify the specific recipient(s) for the next communication.
+4.  Generate the plain text email body for the next communication.
+5.  Output your decision using the provided JSON schema with fields: 'next_step', 'recipients', 'email_body', plus the structured fields 'intro', 'proposed_options' and 'closing' described under STRUCTURED FIELDS.
+
+Workflow Stages & 'next_step' values:
+*   Initial Request Received (often CC'd): When a new meeting request is received, your FIRST action should ALWAYS be to contact the PARTICIPANTS (not the organizer) to collect their availability. The participants' emails are listed in the "Participants involved in this session" field of the user message. Set 'next_step' to 'ask_participant_availability' and set 'recipients' to contain ONLY the participant emails (never include the organizer at this stage).
+        **Exception:** If the organizer's *initial* request email includes a specific proposed date and time (e.g., "Can we meet tomorrow at 4 pm?", "How about next Tuesday 10 AM EST?"), then:
+           - Your next_step should be 'propose_time_to_participant'.
+           - The recipients should still be ONLY the participant(s).
+           - The email_body should clearly state the time proposed by the organizer and ask the participant(s) if that specific time works for them (e.g., "Hi [Participant Name], [Organizer Name] suggested meeting tomorrow at 4 pm. Does that time work for you?").
+        Only use 'request_clarification' (emailing the organizer) if the meeting's purpose is completely unclear OR if no participants could be identified.
+*   Receiving Availability: Analyzing the sender's response (using their name if available, e.g., "Bob mentioned he is available..."). If more participants need checking, use 'ask_participant_availability' or 'propose_time_to_participant' for the *next* participant listed in the session. If all participants responded, use 'propose_time_to_organizer' and email *only* the organizer with proposed time(s), clearly stating who suggested which times (e.g., "Bob suggested Tuesday at 4pm.").
+    When asked to propose times after receiving availability from multiple participants (identified by their separate messages in the history), use the 'Computed Candidate Slots' section of the Session Context. These slots were calculated by intersecting everyone's availability and already honor the meeting duration and working hours - do NOT compute overlaps yourself and do NOT propose times that are not in this list. Propose these slots (in the listed order) to the organizer using 'propose_time_to_organizer'. If the section says there are no candidate slots, state this clearly and summarize the individual availabilities. Only fall back to reading the replies yourself if the computed section is missing.
+*   Organizer Confirmation: If organizer agrees, use 'send_final_confirmation' and include *all* participants and the organizer in recipients. If organizer disagrees/suggests changes (e.g., proposes a new time), use 'propose_time_to_participant' to relay the organizer's new suggestion to the participant(s). Only use 'ask_participant_availability' if the organizer rejects the time but doesn't offer a specific alternative.
+*   Final Confirmation: Generate a summary email body and include all participants+organizer in recipients. If the Meeting Details show a 'Confirmed Time' (being rescheduled), the meeting is moving: say so clearly ("The meeting has moved") and state both the old time and the new time.
+*   Rescheduling a Confirmed Meeting: If the session is confirmed and someone asks to move it ("can we move this to Thursday?", "something came up"), do NOT treat it as a new request or a cancellation. Use 'reschedule_requested', which reopens the session, and set 'recipients' to only the participants whose availability is still needed: if the sender suggested a new time or gave their availability, don't ask them again, and ask the others whether that time works; otherwise ask everyone. When a participant asked to move it, include the organizer in recipients too so they know. Mention the currently confirmed time and that it stays booked until a new time is agreed. If the sender named a new time and there is nobody else to ask (e.g. the organizer moves a meeting with its only participant, who already agreed), use 'send_final_confirmation' with the new time instead.
+*   Handling Cancellations:
+       1. Identify who sent the cancellation request (Organizer or Participant) by checking the sender against the Session Context.
+       2. Check the number of participants listed in the Session Context.
+       3. **If the Organizer sent the cancellation:** Set next_step='process_cancellation'. Set recipients to include the organizer and ALL participants. Generate an email confirming the meeting is cancelled.
+       4. **If a Participant sent the cancellation AND they are the *only* participant:** Set next_step='process_cancellation'. Set recipients to include the organizer and the cancelling participant. Generate an email confirming the meeting is cancelled.
+       5. **If a Participant sent the cancellation AND there are *other* participants remaining:** Set next_step='inform_organizer_of_participant_cancellation'. Set recipients to *only* the organizer. Generate an email informing the organizer which participant cancelled and asking how they want to proceed (e.g., continue without them, reschedule, cancel entirely).
+*   Optional Participants and Quorum: Participants marked '(optional)' in the Participant Status don't have to reply. Once the Session Context says 'Quorum: reached', do not wait for the remaining (optional) participants: use 'propose_time_to_organizer', mention who hasn't replied yet, and propose the Computed Candidate Slots (which are computed for the required participants).
+*   Participant Changes: If the Session Context has a 'Participant Changes' section, the latest email changed who attends, and every added participant other than its sender has ALREADY been asked for their availability - do not ask them again. If the email did nothing else, use 'no_action_needed', unless everyone remaining has now replied, in which case propose times to the organizer as usual.
+*   Recurring Meetings: If the Meeting Details list a 'Recurrence', the meeting is a series. Say how it repeats when proposing and confirming, and set 'confirmed_datetime' to the start of the FIRST occurrence; the Computed Candidate Slots were already checked against the following occurrences. Once a series is confirmed, the Session Context lists its 'Upcoming Occurrences'. When someone moves or cancels just one occurrence ("can we skip next Tuesday?", "move this week's to Wednesday"), set 'recurrence_scope' to 'occurrence' and 'occurrence_start' to that occurrence's original start from the list, then use 'send_final_confirmation' with 'confirmed_datetime' set to its new start, or 'process_cancellation' to cancel only that occurrence. Changes to the whole series (a new time or day, or ending it) use 'recurrence_scope' 'series'. If it's unclear which is meant, ask with 'request_clarification'.
+*   No Action: If the email is just a thank you or doesn't require a scheduling action, use 'no_action_needed' with empty recipients/body.
+*   Error: If scheduling is impossible or request is invalid, use 'error_cannot_schedule'.
+
+IMPORTANT EMAIL BODY RULES:
+*   The 'email_body' field should contain ONLY the text for the email body.
+*   Do NOT include greetings like "Hi [Name]," unless the 'recipients' array contains exactly ONE email address.
+*   Do NOT include subject lines.
+*   Be clear, concise, and professional, but also warm and friendly.
+*   **Crucially: When relaying availability or proposing times based on a participant's response, refer to them by name.**
+*       - Use the Organizer's name provided in the 'Key People' context.
+*       - For Participants, the 'Key People' context provides a name derived from their email (e.g., 'Jdoe' for 'j.doe@example.com'). However, **check the conversation history first!** If a participant signed off their email with a different name (e.g., "Thanks, John"), prioritize using *that* name ("John") instead of the derived name ('Jdoe') when referring to them.
+*       - Example: If the context says participant is "Mdelvita (mdelvita@gmail.com)" but a previous message from them ends with "Thanks, Max", refer to them as "Max" in your response (e.g., "Max mentioned...").
+*   Do not attribute availability to yourself (Amy).
+*   Do NOT end the email_body with a sign-off or signature (e.g. "Thanks, Amy"). The organization's signature is appended automatically.
+
+STRUCTURED FIELDS:
+The email is also sent as formatted HTML, built from these fields. 'email_body' is still the complete plain-text version.
+*   'intro': the greeting and opening paragraph(s) of email_body, stopping before any OPTION list, meeting details block, or MEETING CONFIRMED block.
+*   'proposed_options': for 'propose_time_to_organizer' and 'propose_time_to_participant', every time option from email_body in the same order, as UTC ISO 8601 'start' and 'end' (take them from the 'Computed Candidate Slots' UTC ranges when available), with an optional short 'note' (e.g. "Suggested by Bob"). Omit for other steps.
+*   'closing': the paragraph(s) after the options or details block (e.g. "Let me know which option you prefer..."), without a sign-off.
+The HTML version shows the option table, meeting details, confirmation card or cancellation notice itself, so keep those out of 'intro' and 'closing'.
+
+TONE AND STYLE GUIDELINES:
+*   Always write in a warm, friendly, and conversational tone as if you're a helpful human assistant.
+*   **Initial Greeting to Participants:** When sending the *first* message to a participant (usually when the process starts and you need to ask for their availability):
+       1.  **First, examine the very first message in the conversation history (which is the organizer's initial request).** Read the body text carefully. Did the organizer mention the participant's name there (e.g., "Please schedule a meeting with John Doe", "Can you find time for me and Jane?")?
+       2.  **If you confidently identify the participant's name mentioned in that initial request body text, use *that* name in the greeting (e.g., "Hi John,").**
+       3.  **Otherwise (if the name wasn't mentioned in the body text or you're unsure), use the generic greeting "Hi there,".** This is safer than using the name derived from the email address found in the context.
+*   When writing to the organizer, you can generally use "Hi [Name]," as their name is usually known accurately from the context.
+*   After the initial contact, when referring to participants, use the name guidance provided in the 'IMPORTANT EMAIL BODY RULES' section (prioritizing names found in the conversation history/signatures).
+*   Use natural language and conversational phrases like "Thanks for your response", "I hope this works for you", or "Looking forward to hearing from you".
+*   Balance professionalism with warmth - be efficient but not robotic.
+*   Personalize messages when possible by using names and acknowledging previous communications.
+*   Use occasional polite expressions like "I appreciate your quick response" or "Thanks for sharing your availability".
+*   Adapt your formality based on context - more casual for quick check-ins, more formal for final confirmations.
+*   Feel free to use gentle humor when appropriate, but maintain professionalism.
+*   When following up with participants, reference other participants' responses to create context.
+
+TIME ZONE HANDLING:
+*   The Session Context lists each person's time zone as an IANA ID (e.g., "America/New_York") and, under 'Computed Candidate Slots', pre-rendered local times for each recipient. Copy those local times verbatim - do NOT do time zone or DST conversions yourself.
+*   If you identify time zone information in the conversation (e.g., "I'm in EST", "3pm PST works for me"), use it when discussing times.
+*   When a time is mentioned with a time zone (e.g., "4pm EST"), display this time in the recipient's time zone if known (e.g., "4pm EST / 1pm PST" when writing to someone in PST), using the pre-rendered times where available.
+*   For the final confirmation, always include the meeting time in all relevant time zones if participants are in different time zones.
+*   If no time zone information is provided, keep times as stated in the original messages.
+*   Time zones may appear as abbreviations (EST, PST, GMT+1) or full names (Eastern Time, Pacific Standard Time).
+
+MEETING DURATION AND LOCATION:
+*   Always include meeting duration in your communications when available (e.g., "30 minutes", "1 hour").
+*   If duration is not specified, ask the organizer how long the meeting will be.
+*   Clearly indicate whether the meeting is virtual or in-person.
+*   For virtual meetings, simply state "Location: Virtual" unless specific virtual meeting details are provided.
+*   For in-person meetings, include the full location details when available.
+*   When proposing times, confirm both the time and expected duration.
+*   In the final confirmation, include complete details about duration and location.
+
+*   **Use Location Context:** Refer to the meeting_location and is_virtual status provided in the Session Context when discussing the meeting.
+*   **Clarify Ambiguous Location:** If the location context is missing (e.g., meeting_location is null or just a default like "Virtual" or "In-person (location not specified)") AND you need to propose times or send a final confirmation, your next_step must be 'request_clarification'. Ask the *organizer* to specify if the meeting is virtual or provide the physical location/address.
+*   **Handle Participant Location Query:** If a *participant* asks "Is this virtual or in person?" and the location context is unclear, use 'request_clarification' to ask the *organizer* for clarification before responding to the participant.
+*   **Include Location Details:** When proposing times or sending final confirmations *and the location is known*, always clearly state it (e.g., "Location: Virtual", "Location: 123 Main St", "Location: [Organizer Name]'s Office").
+
+Time Proposal Format: When using 'propose_time_to_organizer', format the email_body like this:
+
+Hi [Organizer],
+
+Good news! I've collected availability from everyone and found some possible meeting times for "[meeting_topic]".
+
+Based on everyone's responses, here are the options that work:
+
+OPTION 1:
+Date: {date1}
+Time: {start_time1} - {end_time1} {primary_timezone1}
+{If participants are in different time zones, include conversions:
+Time in EST: 4:00 PM - 5:00 PM
+Time in PST: 1:00 PM - 2:00 PM}
+Duration: {duration}
+Location: {location}
+
+OPTION 2:
+Date: {date2}
+Time: {start_time2} - {end_time2} {primary_timezone2}
+{Include time zone conversions if needed}
+
+AVAILABILITY SUMMARY:
+{list each participant and their available times in bullet points}
+
+Let me know which option you prefer, or if you'd like me to find alternative times.
+
+Participant Availability Request Format: When using 'ask_participant_availability', format the email_body like this:
+
+Hi [Name],
+
+I'm Amy, [Organizer's] scheduling assistant. [Organizer] has asked me to help coordinate a meeting on "[meeting_topic]".
+
+Could you share some times when you're available? The meeting details are:
+
+Topic: {meeting_topic}
+Duration: {duration or "30-60 minutes if not specified"}
+Proposed date range: {date_range or "in the next week" if not specified"}
+Location: {location or "Virtual" if not specified}
+
+You can respond in any format that works for you - I'm flexible!
+
+Participant Follow-up Format: When using 'propose_time_to_participant', format the email_body like this:
+
+Hi [Name],
+
+Thanks for your patience. I've heard back from [name of other participant(s)] regarding the "[meeting_topic]" meeting.
+
+Based on the availability shared so far, it looks like the following time(s) might work:
+
+Date: {date}
+Time: {time} {timezone}
+{Include timezone conversions if needed}
+Duration: {duration}
+Location: {location}
+
+Would this time work for you? If not, please let me know your availability and I'll find an alternative.
+
+Final Confirmation Format: When using 'send_final_confirmation', format the email_body like this:
+
+Hi everyone,
+
+I've confirmed the meeting details for "[meeting_topic]". Here's all the information you need:
+
+MEETING CONFIRMED
+
+Topic: {meeting_topic}
+Date: {date}
+Time: {start_time} - {end_time} {primary_timezone}
+{If different time zones detected, list conversions here like: 
+Time in EST: 4:00 PM - 5:00 PM
+Time in PST: 1:00 PM - 2:00 PM}
+Duration: {duration}
+Location: {location with specific details}
+
+PARTICIPANTS:
+- {organizer_name} (Organizer)
+{list all participants with bullet points}
+
+MEETING DETAILS:
+{Include any additional context, agenda items, preparation needed, etc.}
+
+I've sent this confirmation to all participants. If you need to make any changes, please let me know.
+
+IMPORTANT: When using 'send_final_confirmation', you should also set the 'confirmed_datetime' field to an ISO 8601 string (e.g., "2025-04-15T15:00:00Z") representing the confirmed meeting start time. This allows the system to automatically track the confirmed meeting time.
+
+Clarification Request Format: When using 'request_clarification', format the email_body like this:
+
+Hi [Organizer],
+
+I'm Amy, your scheduling assistant. I'd like to help coordinate your meeting, but I need a bit more information to get started.
+
+{Explain what information is missing, such as:
+- Specific participants' email addresses
+- Preferred date range
+- Meeting duration
+- Meeting location details
+- Any other information}
+
+Once you provide this information, I can reach out to the participants and find a time that works for everyone.
+
+Cancellation Format: When using 'process_cancellation', format the email_body like this:
+
+Hi everyone,
+
+This email confirms that the meeting "[meeting_topic]" has been cancelled as requested by [Name of person who cancelled, if identifiable from history, otherwise omit].
+
+If you'd like to reschedule, please let [Organizer Name] know or start a new request.
+
+Inform Organizer of Participant Cancellation Format: When using 'inform_organizer_of_participant_cancellation', format the email_body like this:
+
+Hi [Organizer Name],
+
+Quick update on scheduling "[meeting_topic]": [Participant Name Who Cancelled] has indicated they can no longer make the meeting.
+
+How would you like to proceed?
+- Continue scheduling with the remaining participants?
+- Cancel this meeting request entirely?
+- Try to reschedule for everyone?
+
+Please let me know.`;
+
+// Helper function to map DB message types to AI CoreMessage roles
+export function mapDbMessageToCoreMessage(dbMessage: Pick<SessionMessage, 'message_type' | 'body_text'>): CoreMessage | null {
+  if (!dbMessage.body_text) return null; // Skip messages without text body
+
+  switch (dbMessage.message_type) {
+    case 'human_organizer':
+    case 'human_participant':
+      return { role: 'user', content: dbMessage.body_text };
+    case 'ai_agent':
+      return { role: 'assistant', content: dbMessage.body_text };
+    default:
+      return null; // Ignore unknown types
+  }
+}
+
+/**
+ * Asks the AI for the next step in a session, from its stored conversation (including the
+ * message that triggered the call) and the session context. `instruction` is added to the
+ * context when an admin asks for something specific (e.g. not to wait for more replies), and
+ * `participantChanges` when the triggering email changed who attends (lib/participantChanges.ts).
+ */
+export async function decideNextStep({
+  session,
+  participantDetails,
+  instruction,
+  participantChanges,
+  trace,
+}: {
+  session: SchedulingSession;
+  participantDetails: ParticipantStatusDetail[];
+  instruction?: string;
+  participantChanges?: { added: string[]; removed: string[] };
+  trace?: ReturnType<Langfuse['trace']>;
+}): Promise<SchedulingDecision> {
+  const sessionId = session.session_id;
+  const sessionOrganizer = session.organizer_email;
+  let sessionOrganizerName = session.organizer_name;
+  let conversationHistory: CoreMessage[] = [];
+
+  // Reload history INCLUDING the message just saved
+  const { data: historyMessages, error: historyError } = await listSessionMessages(sessionId);
+
+  if (historyError) {
+     console.error('Supabase error fetching history:', historyError);
+     // Handle error - maybe return?
+  } else if (historyMessages && historyMessages.length > 0) {
+     conversationHistory = historyMessages
+       .map(mapDbMessageToCoreMessage)
+       .filter((msg): msg is CoreMessage => msg !== null);
+     console.log(`Loaded ${conversationHistory.length} history messages for AI.`);
+  }
+
+  // --- Prepare for AI (Timezone/Meeting Details Context) ---
+  // (Keep existing timezone/meeting details context preparation logic here...)
+  let timeZoneContext = '';
+  let meetingDetailsContext = '';
+  let organizerTimeZone: string | null = null;
+  // Session details (organizer_timezone, meeting_duration etc.) aren't changed by the caller, so reuse the loaded row
+   const sessionDetailsForAI = session;
+
+   if (sessionDetailsForAI) {
+       // Use fetched name if available, otherwise fallback to extraction
+       sessionOrganizerName = sessionDetailsForAI.organizer_name || getNameFromEmail(sessionOrganizer);
+       // ... (existing logic to build timeZoneContext and meetingDetailsContext) ...
+         // Process time zones
+    let timeZones = [];
+    // Older sessions may hold raw strings like "EST" or "GMT-0700", so resolve on read as well
+    organizerTimeZone = resolveTimeZone(sessionDetailsForAI.organizer_timezone);
+    if (organizerTimeZone) {
+      timeZones.push(`${sessionOrganizerName || sessionOrganizer} (Organizer): ${organizerTimeZone}`);
+    }
+    // Participant zones are detected from each reply and stored in participant_status_details
+    for (const p of participantDetails) {
+      const participantTimeZone = resolveTimeZone(p.timezone);
+      if (participantTimeZone) {
+        timeZones.push(`${getNameFromEmail(p.email)} (${p.email}): ${participantTimeZone}`);
+      }
+    }
+    if (timeZones.length > 0) {
+      timeZoneContext = `\\n\\nKnown Time Zones:\\n${timeZones.join('\\n')}`;
+    }
+
+    // Process meeting details
+    let meetingDetails = [];
+    if (sessionDetailsForAI.meeting_duration) {
+      meetingDetails.push(`Duration: ${sessionDetailsForAI.meeting_duration}`);
+    }
+    if (sessionDetailsForAI.meeting_location) {
+      const locationType = sessionDetailsForAI.is_virtual ? 'Virtual Location' : 'Physical Location';
+      meetingDetails.push(`${locationType}: ${sessionDetailsForAI.meeting_location}`);
+    }
+    // The booked time, which a reschedule moves away from (and the "meeting moved" email names)
+    const confirmedStart = sessionDetailsForAI.confirmed_datetime ? Date.parse(sessionDetailsForAI.confirmed_datetime) : NaN;
+    if (!isNaN(confirmedStart)) {
+      const confirmedEnd = confirmedStart + parseDurationMinutes(sessionDetailsForAI.meeting_duration) * 60 * 1000;
+      const localTime = organizerTimeZone ? ` = ${formatRangeInTimeZone(confirmedStart, confirmedEnd, organizerTimeZone)}` : '';
+      const state = sessionDetailsForAI.status === 'confirmed' ? '' : ' (being rescheduled)';
+      meetingDetails.push(`Confirmed Time: ${new Date(confirmedStart).toISOString()}${localTime}${state}`);
+    }
+    const recurrence = describeRecurrence(sessionDetailsForAI.recurrence_rule);
+    if (recurrence) {
+      meetingDetails.push(`Recurrence: ${recurrence} (RRULE ${sessionDetailsForAI.recurrence_rule})`);
+    }
+    if (meetingDetails.length > 0) {
+      meetingDetailsContext = `\\n\\nMeeting Details:\\n${meetingDetails.join('\\n')}`;
+    }
+   }
+
+
+  // --- Computed Availability Context (deterministic slot engine, not left to the prompt) ---
+  let availabilityContext = '';
+  const storedAvailability = await loadSessionAvailability(sessionId);
+  const activeParticipants = participantDetails.filter((p: ParticipantStatusDetail) => p.status !== 'cancelled');
+  // Slots are computed for the required participants, unless the quorum rule waits for everyone
+  const quorumRule = await loadQuorumRule(session);
+  const slotParticipants = quorumParticipants(participantDetails, quorumRule);
+  const requiredOnly = slotParticipants.length < activeParticipants.length;
+  if (storedAvailability.size > 0 && activeParticipants.length > 0) {
+      const formatInterval = (interval: TimeInterval) =>
+          `${new Date(interval.start).toISOString()} to ${new Date(interval.end).toISOString()}`;
+      const perParticipantLines = activeParticipants.map((p: ParticipantStatusDetail) => {
+          const windows = storedAvailability.get(p.email.toLowerCase())?.windows || [];
+          return `- ${p.email}${isRequiredParticipant(p) ? '' : ' (optional)'}: ${windows.length > 0 ? windows.map(formatInterval).join('; ') : 'no structured availability'}`;
+      });
+      const everyoneHasAvailability = slotParticipants.every((p: ParticipantStatusDetail) => storedAvailability.has(p.email.toLowerCase()));
+      let candidateLines = !requiredOnly
+          ? 'Not all participants have structured availability yet.'
+          : 'Not all required participants have structured availability yet.';
+      if (everyoneHasAvailability) {
+          const nowMs = Date.now();
+          const durationMinutes = parseDurationMinutes(sessionDetailsForAI?.meeting_duration);
+          const slotAvailability = slotParticipants.map((p: ParticipantStatusDetail) => {
+              const stored = storedAvailability.get(p.email.toLowerCase())!;
+              return { email: p.email, timezone: resolveTimeZone(p.timezone) || resolveTimeZone(stored.timezone), windows: stored.windows };
+          });
+          // A recurring meeting's first slot must suit the following occurrences too
+          const seriesChecks = new Map<number, SeriesCheck>();
+          const recurrenceRule = sessionDetailsForAI?.recurrence_rule;
+          const fitsSeries = (slot: TimeInterval) => {
+              const check = checkSeries(recurrenceRule!, slot, slotAvailability, organizerTimeZone);
+              seriesChecks.set(slot.start, check);
+              return check.conflicts.length === 0;
+          };
+          const candidateSlots = findCandidateSlots(
+              slotAvailability,
+              {
+                  durationMinutes,
+                  bufferMinutes: parseInt(process.env.SLOT_BUFFER_MINUTES || '0', 10) || 0,
+                  workingHours: DEFAULT_WORKING_HOURS,
+                  horizonStart: nowMs,
+                  horizonEnd: nowMs + (parseInt(process.env.SLOT_HORIZON_DAYS || '14', 10) || 14) * 24 * 60 * 60 * 1000,
+                  accept: recurrenceRule ? fitsSeries : undefined,
+                  timeZone: organizerTimeZone,
+              }
+          );
+          // Render each slot in every known recipient zone so the AI never converts times itself
+          const recipientZones: { label: string; timeZone: string }[] = [];
+          if (organizerTimeZone) recipientZones.push({ label: `${sessionOrganizer} (Organizer)`, timeZone: organizerTimeZone });
+          for (const p of activeParticipants) {
+              const participantZone = resolveTimeZone(p.timezone) || resolveTimeZone(storedAvailability.get(p.email.toLowerCase())?.timezone);
+              if (participantZone) recipientZones.push({ label: p.email, timeZone: participantZone });
+          }
+          candidateLines = candidateSlots.length > 0
+              ? candidateSlots.map((slot, index) => {
+                  const localTimes = recipientZones.map(z => `   - ${z.label}: ${formatRangeInTimeZone(slot.start, slot.end, z.timeZone)}`);
+                  const seriesCheck = seriesChecks.get(slot.start);
+                  const seriesNote = seriesCheck
+                      ? `, series: first ${seriesCheck.occurrences.length} occurrences free${seriesCheck.unknown > 0 ? `, ${seriesCheck.unknown} participant-occurrence(s) unknown` : ''}`
+                      : '';
+                  return [`${index + 1}. ${formatInterval(slot)} (confidence ${slot.minConfidence.toFixed(2)}${seriesNote})`, ...localTimes].join('\\n');
+              }).join('\\n')
+              : `NONE - there is no ${durationMinutes}-minute window within working hours in which all ${requiredOnly ? 'required ' : ''}participants are available${recurrenceRule ? ' for the whole series' : ''}.`;
+          console.log(`Slot engine returned ${candidateSlots.length} candidate slot(s) for session ${sessionId}.`);
+      }
+      const slotScope = requiredOnly ? ', for the required participants' : '';
+      availabilityContext = `\\n\\nParticipant Availability (UTC, extracted from replies):\\n${perParticipantLines.join('\\n')}\\n\\nComputed Candidate Slots (UTC, ranked best first${slotScope}):\\n${candidateLines}`;
+  }
+
+  // The next occurrences of a confirmed series, so the AI can name the one a change is about
+  let occurrencesContext = '';
+  if (session.recurrence_rule && session.confirmed_datetime && !isNaN(Date.parse(session.confirmed_datetime))) {
+      const first = Date.parse(session.confirmed_datetime);
+      const durationMs = parseDurationMinutes(session.meeting_duration) * 60 * 1000;
+      const upcoming = expandOccurrences(session.recurrence_rule, { start: first, end: first + durationMs }, organizerTimeZone, 200)
+          .filter(occurrence => occurrence.end > Date.now())
+          .slice(0, SERIES_CHECK_OCCURRENCES);
+      const occurrenceLines = upcoming.map(occurrence => {
+          const exception = session.recurrence_exceptions.find(e => Date.parse(e.occurrence_start) === occurrence.start);
+          const note = !exception ? '' : exception.new_start ? ` (moved to ${new Date(exception.new_start).toISOString()})` : ' (cancelled)';
+          return `- ${new Date(occurrence.start).toISOString()}${organizerTimeZone ? ` = ${formatRangeInTimeZone(occurrence.start, occurrence.end, organizerTimeZone)}` : ''}${note}`;
+      });
+      if (occurrenceLines.length > 0) occurrencesContext = `\\n\\nUpcoming Occurrences (original UTC start):\\n${occurrenceLines.join('\\n')}`;
+  }
+
+  const aiSystemMessage = systemMessage; // Use the global systemMessage constant
+
+  const organizerName = sessionOrganizerName;
+  const participantNames = participantDetails.map(p => getNameFromEmail(p.email));
+
+  // Add participant status context for the AI? Optional, but could be helpful.
+  const participantStatusContext = `\\n\\nParticipant Status:\\n${participantDetails.map((p: ParticipantStatusDetail) => `- ${getNameFromEmail(p.email)} (${p.email}): ${p.status}${isRequiredParticipant(p) ? '' : ' (optional)'}`).join('\\n')}`;
+
+  // Whether enough participants have replied under the session's quorum rule (lib/quorum.ts)
+  const quorumContext = `\\n\\nQuorum: ${hasQuorum(participantDetails, quorumRule) ? 'reached' : 'not reached'} (rule: ${quorumRule})`;
+
+  // Admin instruction from the dashboard, if any
+  const instructionContext = instruction ? `\\n\\nAdmin Instruction:\\n${instruction}` : '';
+
+  // Participants added or removed by the latest email
+  const participantChangeLines = participantChanges
+    ? [...participantChanges.added.map(email => `- Added ${email}`), ...participantChanges.removed.map(email => `- Removed ${email}`)]
+    : [];
+  const participantChangeContext = participantChangeLines.length > 0 ? `\\n\\nParticipant Changes:\\n${participantChangeLines.join('\\n')}` : '';
+
+  // Add organizer name to the context
+  const nameContext = `\\n\\nKey People:\\nOrganizer: ${organizerName} (${sessionOrganizer || 'Unknown'})\\nParticipants: ${participantNames.join(', ')}`;
+
+
+  const messagesForAI: CoreMessage[] = [
+      // System prompt is passed separately
+      ...conversationHistory, // Ensure this includes the latest message
+      // Add context explicitly here instead of relying on the last message content variable
+      { role: 'user', content: `Session Context:${nameContext}${timeZoneContext}${meetingDetailsContext}${participantStatusContext}${quorumContext}${availabilityContext}${occurrencesContext}${participantChangeContext}${instructionContext}` } // Add name context
+  ];
+  console.log(`Sending ${messagesForAI.length} messages to AI (excluding system prompt). Last message should be context.`);
+  // --- Call AI using generateObject ---
+  console.log("Calling generateObject...");
+
+  // --- Create Langfuse Generation ---
+  const lfGeneration = trace?.generation({
+    name: "scheduling-ai-decision",
+    input: messagesForAI, // Log the messages sent to the AI
+    model: 'gpt-4o', // Specify the model used
+    metadata: {
+      organizer: sessionOrganizerName || sessionOrganizer,
+      participants: participantDetails.map(p => p.email),
+      schemaUsed: 'schedulingDecisionSchema',
+      sessionId: sessionId, // Link generation explicitly to session
+    },
+    // You might need modelParameters if you set any non-defaults
+  });
+
+  const { object: aiDecision, usage } = await generateObject({
+    model: getLanguageModel(),
+    schema: schedulingDecisionSchema,
+    system: aiSystemMessage, // Use the updated system prompt
+    messages: messagesForAI,
+  });
+
+  // --- End Langfuse Generation ---
+  lfGeneration?.end({
+    output: aiDecision, // Log the structured object returned by the AI
+    usage: usage // Log the token usage
+  });
+
+  console.log("AI Usage:", usage);
+  console.log("AI Decision Object:", JSON.stringify(aiDecision, null, 2));
+
+  return aiDecision;
+}
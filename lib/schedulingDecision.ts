@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Define the Zod schema for the AI's structured output
+export const schedulingDecisionSchema = z.object({
+  next_step: z.enum([
+    'request_clarification', // Need more info from sender
+    'ask_participant_availability', // Need to email participants for times
+    'propose_time_to_organizer', // Have availability, need organizer confirmation
+    'propose_time_to_participant', // Need to ask another participant about a proposed time
+    'send_final_confirmation', // All agreed, send calendar invite details
+    'reschedule_requested', // A confirmed meeting needs a new time: reopen it and ask whoever's availability is needed
+    'process_cancellation', // Meeting is definitely cancelled (Organizer or sole participant cancels)
+    'inform_organizer_of_participant_cancellation', // One participant (of many) cancelled, ask organizer what to do
+    'no_action_needed', // e.g., received a simple thank you, nothing to schedule/reply to
+    'error_cannot_schedule', // Cannot fulfill the request
+  ]).describe("The next logical step in the scheduling process based on the conversation."),
+  recipients: z.array(z.string().email()).describe("An array of email addresses to send the generated email_body to. Should be empty if next_step is 'no_action_needed' or 'error_cannot_schedule'."),
+  email_body: z.string().describe("The content of the email body to send to the specified recipients. Should be empty if next_step is 'no_action_needed'. Format as plain text. Do not end with a sign-off or signature; it is added automatically."),
+  // Structured parts for the HTML template (lib/emailTemplates.ts). email_body stays the plain-text part.
+  intro: z.string().optional().describe("The greeting and opening paragraph(s) of email_body, without the options list, meeting details block, closing lines or sign-off. Plain text."),
+  proposed_options: z.array(z.object({
+    start: z.string().describe("ISO 8601 start time in UTC, e.g. \"2025-04-22T15:00:00Z\"."),
+    end: z.string().describe("ISO 8601 end time in UTC."),
+    note: z.string().optional().describe("Short note about this option, e.g. who suggested it."),
+  })).optional().describe("The time options offered in email_body, in the same order. Only for 'propose_time_to_organizer' and 'propose_time_to_participant'."),
+  closing: z.string().optional().describe("The closing paragraph(s) of email_body after the options or details (e.g. the question asking which option works), without a sign-off. Plain text."),
+  // Optional fields we might add later:
+  // proposed_datetime: z.string().optional().describe("ISO 8601 string if a specific time is being proposed."),
+  confirmed_datetime: z.string().optional().describe("ISO 8601 string if a time has been confirmed."),
+  // Recurring meetings (lib/recurrence.ts): whether a confirmation or cancellation is about the whole series or one occurrence
+  recurrence_scope: z.enum(['series', 'occurrence']).optional().describe("For recurring meetings only, with 'send_final_confirmation' or 'process_cancellation': 'series' if the change applies to every occurrence (the default), 'occurrence' if it only moves or cancels one."),
+  occurrence_start: z.string().optional().describe("With recurrence_scope 'occurrence': the original ISO 8601 UTC start of the affected occurrence, exactly as listed under Upcoming Occurrences."),
+});
+
+export type SchedulingDecision = z.infer<typeof schedulingDecisionSchema>;
@@ -0,0 +1,569 @@
+import { z } from 'zod';
+import { getSupabase } from './supabaseClient';
+import {
+  DiscardedAgentEmail,
+  Lease,
+  NewParticipantAvailabilityWindow,
+  NewSchedulingSession,
+  NewSessionDecision,
+  NewSessionDraft,
+  NewSessionEvent,
+  NewSessionMessage,
+  NewSessionNudge,
+  NewSessionReminder,
+  NewSlotResponse,
+  OrganizerSettings,
+  ParticipantAvailabilityWindow,
+  SchedulingSession,
+  SchedulingSessionUpdate,
+  SessionDecision,
+  SessionDraft,
+  SessionEvent,
+  SessionMessage,
+  SessionNudge,
+  SessionReminder,
+  SlotResponse,
+  leaseSchema,
+  participantAvailabilityWindowSchema,
+  participantStatusDetailsSchema,
+  schedulingSessionSchema,
+  sessionDecisionSchema,
+  sessionDraftSchema,
+  sessionEventSchema,
+  sessionMessageSchema,
+  sessionNudgeSchema,
+  sessionReminderSchema,
+  slotResponseSchema,
+} from './types';
+
+// Errors are either Supabase (PostgREST) errors or rows that failed schema validation
+export interface RepositoryError {
+  message: string;
+  code?: string;
+  details?: unknown;
+}
+
+export type RepositoryResult<T> = { data: T; error: null } | { data: null; error: RepositoryError };
+
+// Code used for rows that don't match the expected schema
+export const SCHEMA_MISMATCH = 'schema_mismatch';
+
+function ok<T>(data: T): RepositoryResult<T> {
+  return { data, error: null };
+}
+
+function fail<T>(error: RepositoryError): RepositoryResult<T> {
+  return { data: null, error };
+}
+
+// Validate a row read from the database, logging exactly which fields drifted
+function parseRow<T extends z.ZodTypeAny>(schema: T, row: unknown, label: string): RepositoryResult<z.infer<T>> {
+  const result = schema.safeParse(row);
+  if (result.success) return ok(result.data);
+  console.error(`Schema mismatch reading ${label}:`, result.error.issues);
+  return fail({ message: `Invalid ${label}: ${result.error.message}`, code: SCHEMA_MISMATCH, details: result.error.issues });
+}
+
+// Validate participant_status_details before it is written, so a bad update never lands in the JSONB column
+function validateSessionWrite(updates: Partial<SchedulingSessionUpdate>, sessionId: string): RepositoryError | null {
+  if (updates.participant_status_details === undefined) return null;
+  const result = participantStatusDetailsSchema.safeParse(updates.participant_status_details);
+  if (result.success) return null;
+  console.error(`Refusing to write invalid participant_status_details for session ${sessionId}:`, result.error.issues);
+  return { message: `Invalid participant_status_details: ${result.error.message}`, code: SCHEMA_MISMATCH, details: result.error.issues };
+}
+
+// --- Sessions ---
+
+/**
+ * Loads a session by ID. Returns `data: null` (without an error) if it doesn't exist.
+ */
+export async function findSessionById(sessionId: string): Promise<RepositoryResult<SchedulingSession | null>> {
+  const { data, error } = await getSupabase()
+    .from('scheduling_sessions')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+  if (error) return fail(error);
+  if (!data) return ok(null);
+  return parseRow(schedulingSessionSchema, data, `scheduling_sessions row ${sessionId}`);
+}
+
+/**
+ * Loads the session a stored message (by its Postmark/Message-ID) belongs to.
+ * Used to find the session from an In-Reply-To header.
+ */
+export async function findSessionByMessageId(postmarkMessageId: string): Promise<RepositoryResult<SchedulingSession | null>> {
+  const { data, error } = await getSupabase()
+    .from('session_messages')
+    .select('session_id')
+    .eq('postmark_message_id', postmarkMessageId)
+    .limit(1)
+    .maybeSingle();
+  if (error) return fail(error);
+  if (!data?.session_id) return ok(null);
+  return findSessionById(data.session_id);
+}
+
+/**
+ * Lists sessions in a given status. Rows that fail validation are logged and left out,
+ * so one corrupt session can't stop a batch job.
+ */
+export async function listSessionsByStatus(status: string): Promise<RepositoryResult<SchedulingSession[]>> {
+  const { data, error } = await getSupabase()
+    .from('scheduling_sessions')
+    .select('*')
+    .eq('status', status);
+  if (error) return fail(error);
+
+  const sessions: SchedulingSession[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(schedulingSessionSchema, row, `scheduling_sessions row ${row.session_id}`);
+    if (parsed.data) sessions.push(parsed.data);
+  }
+  return ok(sessions);
+}
+
+/**
+ * Lists sessions for the dashboard, most recently updated first, optionally filtered by
+ * status and organizer. Rows that fail validation are logged and left out.
+ */
+export async function listSessions(
+  filters: { status?: string | null; organizerEmail?: string | null; limit?: number } = {}
+): Promise<RepositoryResult<SchedulingSession[]>> {
+  let query = getSupabase().from('scheduling_sessions').select('*');
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.organizerEmail) query = query.eq('organizer_email', filters.organizerEmail);
+  const { data, error } = await query.order('updated_at', { ascending: false }).limit(filters.limit ?? 100);
+  if (error) return fail(error);
+
+  const sessions: SchedulingSession[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(schedulingSessionSchema, row, `scheduling_sessions row ${row.session_id}`);
+    if (parsed.data) sessions.push(parsed.data);
+  }
+  return ok(sessions);
+}
+
+export async function createSession(session: NewSchedulingSession): Promise<RepositoryResult<SchedulingSession>> {
+  const validationError = validateSessionWrite(session, 'new');
+  if (validationError) return fail(validationError);
+
+  const { data, error } = await getSupabase()
+    .from('scheduling_sessions')
+    .insert(session)
+    .select('*')
+    .single();
+  if (error) return fail(error);
+  return parseRow(schedulingSessionSchema, data, 'new scheduling_sessions row');
+}
+
+export async function updateSession(sessionId: string, updates: SchedulingSessionUpdate): Promise<{ error: RepositoryError | null }> {
+  const validationError = validateSessionWrite(updates, sessionId);
+  if (validationError) return { error: validationError };
+
+  const { error } = await getSupabase()
+    .from('scheduling_sessions')
+    .update(updates)
+    .eq('session_id', sessionId);
+  return { error };
+}
+
+/**
+ * Updates a session only if it is still in `expectedStatus` (optimistic concurrency).
+ * `data` is true if the row was updated, false if its status had changed.
+ */
+export async function updateSessionIfStatus(
+  sessionId: string,
+  expectedStatus: string,
+  updates: SchedulingSessionUpdate
+): Promise<RepositoryResult<boolean>> {
+  const validationError = validateSessionWrite(updates, sessionId);
+  if (validationError) return fail(validationError);
+
+  const { data, error } = await getSupabase()
+    .from('scheduling_sessions')
+    .update(updates)
+    .eq('session_id', sessionId)
+    .eq('status', expectedStatus)
+    .select('session_id');
+  if (error) return fail(error);
+  return ok(!!data && data.length > 0);
+}
+
+export async function insertSessionEvent(event: NewSessionEvent): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('session_events').insert(event);
+  return { error };
+}
+
+/**
+ * Lists a session's status transitions, oldest first.
+ */
+export async function listSessionEvents(sessionId: string): Promise<RepositoryResult<SessionEvent[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_events')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const events: SessionEvent[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionEventSchema, row, `session_events row ${row.event_id}`);
+    if (parsed.error) return fail(parsed.error);
+    events.push(parsed.data);
+  }
+  return ok(events);
+}
+
+// --- Decisions and nudges ---
+
+export async function insertSessionDecision(decision: NewSessionDecision): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('session_decisions').insert(decision);
+  return { error };
+}
+
+/**
+ * Lists the decisions carried out for a session, oldest first.
+ */
+export async function listSessionDecisions(sessionId: string): Promise<RepositoryResult<SessionDecision[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_decisions')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const decisions: SessionDecision[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionDecisionSchema, row, `session_decisions row ${row.decision_id}`);
+    if (parsed.error) return fail(parsed.error);
+    decisions.push(parsed.data);
+  }
+  return ok(decisions);
+}
+
+export async function insertSessionNudge(nudge: NewSessionNudge): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('session_nudges').insert(nudge);
+  return { error };
+}
+
+/**
+ * Lists the reminders and escalations sent for a session, oldest first.
+ */
+export async function listSessionNudges(sessionId: string): Promise<RepositoryResult<SessionNudge[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_nudges')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const nudges: SessionNudge[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionNudgeSchema, row, `session_nudges row ${row.nudge_id}`);
+    if (parsed.error) return fail(parsed.error);
+    nudges.push(parsed.data);
+  }
+  return ok(nudges);
+}
+
+export async function insertSessionReminder(reminder: NewSessionReminder): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('session_reminders').insert(reminder);
+  return { error };
+}
+
+/**
+ * Lists the pre-meeting reminders sent for a session, oldest first.
+ */
+export async function listSessionReminders(sessionId: string): Promise<RepositoryResult<SessionReminder[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_reminders')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const reminders: SessionReminder[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionReminderSchema, row, `session_reminders row ${row.reminder_id}`);
+    if (parsed.error) return fail(parsed.error);
+    reminders.push(parsed.data);
+  }
+  return ok(reminders);
+}
+
+// --- Drafts ---
+
+export async function insertSessionDraft(draft: NewSessionDraft): Promise<RepositoryResult<SessionDraft>> {
+  const { data, error } = await getSupabase()
+    .from('session_drafts')
+    .insert(draft)
+    .select('*')
+    .single();
+  if (error) return fail(error);
+  return parseRow(sessionDraftSchema, data, 'new session_drafts row');
+}
+
+/**
+ * Loads a draft by ID. Returns `data: null` (without an error) if it doesn't exist.
+ */
+export async function findSessionDraft(draftId: string): Promise<RepositoryResult<SessionDraft | null>> {
+  const { data, error } = await getSupabase()
+    .from('session_drafts')
+    .select('*')
+    .eq('draft_id', draftId)
+    .maybeSingle();
+  if (error) return fail(error);
+  if (!data) return ok(null);
+  return parseRow(sessionDraftSchema, data, `session_drafts row ${draftId}`);
+}
+
+/**
+ * Lists a session's drafts, oldest first.
+ */
+export async function listSessionDrafts(sessionId: string): Promise<RepositoryResult<SessionDraft[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_drafts')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const drafts: SessionDraft[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionDraftSchema, row, `session_drafts row ${row.draft_id}`);
+    if (parsed.error) return fail(parsed.error);
+    drafts.push(parsed.data);
+  }
+  return ok(drafts);
+}
+
+/**
+ * Closes a draft if it is still pending. `data` is true if it was, false if it had already
+ * been reviewed or superseded.
+ */
+export async function closePendingDraft(
+  draftId: string,
+  updates: Pick<SessionDraft, 'status' | 'reviewed_by' | 'reviewed_at'>
+): Promise<RepositoryResult<boolean>> {
+  const { data, error } = await getSupabase()
+    .from('session_drafts')
+    .update(updates)
+    .eq('draft_id', draftId)
+    .eq('status', 'pending')
+    .select('draft_id');
+  if (error) return fail(error);
+  return ok(!!data && data.length > 0);
+}
+
+/**
+ * Marks every pending draft of a session as superseded (a newer decision replaces them).
+ */
+export async function supersedePendingDrafts(sessionId: string): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase()
+    .from('session_drafts')
+    .update({ status: 'superseded' })
+    .eq('session_id', sessionId)
+    .eq('status', 'pending');
+  return { error };
+}
+
+// --- Messages ---
+
+/**
+ * Lists a session's messages, oldest first.
+ */
+export async function listSessionMessages(sessionId: string): Promise<RepositoryResult<SessionMessage[]>> {
+  const { data, error } = await getSupabase()
+    .from('session_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const messages: SessionMessage[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(sessionMessageSchema, row, `session_messages row ${row.message_id}`);
+    if (parsed.error) return fail(parsed.error);
+    messages.push(parsed.data);
+  }
+  return ok(messages);
+}
+
+export async function insertSessionMessage(message: NewSessionMessage): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('session_messages').insert(message);
+  return { error };
+}
+
+/**
+ * Whether a message with this Postmark/Message-ID has already been stored.
+ */
+export async function sessionMessageExists(postmarkMessageId: string): Promise<RepositoryResult<boolean>> {
+  const { data, error } = await getSupabase()
+    .from('session_messages')
+    .select('message_id')
+    .eq('postmark_message_id', postmarkMessageId)
+    .limit(1)
+    .maybeSingle();
+  if (error) return fail(error);
+  return ok(!!data);
+}
+
+// --- Availability ---
+
+/**
+ * Lists the availability windows stored for a session, earliest first.
+ */
+export async function listParticipantAvailability(sessionId: string): Promise<RepositoryResult<ParticipantAvailabilityWindow[]>> {
+  const { data, error } = await getSupabase()
+    .from('participant_availability')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('start_utc', { ascending: true });
+  if (error) return fail(error);
+
+  const windows: ParticipantAvailabilityWindow[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(participantAvailabilityWindowSchema, row, `participant_availability row ${row.availability_id}`);
+    if (parsed.error) return fail(parsed.error);
+    windows.push(parsed.data);
+  }
+  return ok(windows);
+}
+
+export async function insertParticipantAvailability(windows: NewParticipantAvailabilityWindow[]): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('participant_availability').insert(windows);
+  return { error };
+}
+
+/**
+ * Deletes every window stored for a participant (matched on the lower-cased email) in a session.
+ */
+export async function deleteParticipantAvailability(sessionId: string, participantEmail: string): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase()
+    .from('participant_availability')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('participant_email', participantEmail.toLowerCase());
+  return { error };
+}
+
+// --- Slot responses ---
+
+/**
+ * Lists the one-click responses recorded for a proposal, oldest first.
+ */
+export async function listSlotResponses(proposalId: string): Promise<RepositoryResult<SlotResponse[]>> {
+  const { data, error } = await getSupabase()
+    .from('slot_responses')
+    .select('*')
+    .eq('proposal_id', proposalId)
+    .order('created_at', { ascending: true });
+  if (error) return fail(error);
+
+  const responses: SlotResponse[] = [];
+  for (const row of data || []) {
+    const parsed = parseRow(slotResponseSchema, row, `slot_responses row ${row.response_id}`);
+    if (parsed.error) return fail(parsed.error);
+    responses.push(parsed.data);
+  }
+  return ok(responses);
+}
+
+export async function insertSlotResponse(response: NewSlotResponse): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('slot_responses').insert(response);
+  return { error };
+}
+
+// --- Organizers ---
+
+/**
+ * Loads per-organizer overrides (nudge policy, email branding, draft mode, quorum rule, reminder offsets) for a batch of organizers, keyed by email.
+ */
+export async function listOrganizerSettings(organizerEmails: string[]): Promise<RepositoryResult<Map<string, OrganizerSettings>>> {
+  const settings = new Map<string, OrganizerSettings>();
+  if (organizerEmails.length === 0) return ok(settings);
+
+  const { data, error } = await getSupabase()
+    .from('organizer_settings')
+    .select('organizer_email, nudge_policy, branding, draft_mode, quorum_rule, reminder_offsets_minutes')
+    .in('organizer_email', organizerEmails);
+  if (error) return fail(error);
+
+  for (const row of data || []) {
+    settings.set(row.organizer_email, row);
+  }
+  return ok(settings);
+}
+
+/**
+ * Loads one organizer's overrides. Returns `data: null` (without an error) if there are none.
+ */
+export async function findOrganizerSettings(organizerEmail: string): Promise<RepositoryResult<OrganizerSettings | null>> {
+  const { data, error } = await getSupabase()
+    .from('organizer_settings')
+    .select('organizer_email, nudge_policy, branding, draft_mode, quorum_rule, reminder_offsets_minutes')
+    .eq('organizer_email', organizerEmail)
+    .maybeSingle();
+  if (error) return fail(error);
+  return ok(data);
+}
+
+// --- Inbound receipts and leases ---
+
+/**
+ * Records an inbound Message-ID. Fails with a unique violation if it was already recorded.
+ */
+export async function insertInboundReceipt(messageId: string): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('inbound_message_receipts').insert({ message_id: messageId });
+  return { error };
+}
+
+export async function deleteInboundReceipt(messageId: string): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('inbound_message_receipts').delete().eq('message_id', messageId);
+  return { error };
+}
+
+/**
+ * Inserts a lease row. Fails with a unique violation if the lease already exists, expired or not.
+ */
+export async function insertLease(lease: Lease): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('leases').insert(lease);
+  return { error };
+}
+
+/**
+ * Hands a lease to a new holder, but only if it expired before `now`. Returns `data: null`
+ * (without an error) if the lease is still held.
+ */
+export async function takeOverExpiredLease(lease: Lease, now: string): Promise<RepositoryResult<Lease | null>> {
+  const { data, error } = await getSupabase()
+    .from('leases')
+    .update({ holder_id: lease.holder_id, expires_at: lease.expires_at })
+    .eq('lease_name', lease.lease_name)
+    .lt('expires_at', now)
+    .select('*');
+  if (error) return fail(error);
+  if (!data || data.length === 0) return ok(null);
+  return parseRow(leaseSchema, data[0], `leases row ${lease.lease_name}`);
+}
+
+/**
+ * Deletes a lease, but only if the given holder still holds it.
+ */
+export async function deleteLease(leaseName: string, holderId: string): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase()
+    .from('leases')
+    .delete()
+    .eq('lease_name', leaseName)
+    .eq('holder_id', holderId);
+  return { error };
+}
+
+// --- Discarded emails ---
+
+export async function saveDiscardedAgentEmail(email: DiscardedAgentEmail): Promise<{ error: RepositoryError | null }> {
+  const { error } = await getSupabase().from('discarded_agent_emails').insert(email);
+  return { error };
+}
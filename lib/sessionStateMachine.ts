@@ -0,0 +1,123 @@
+import { insertSessionEvent, updateSessionIfStatus } from './sessionRepository';
+import { SchedulingSessionUpdate } from './types';
+
+// Every status a scheduling session can be in
+export const SESSION_STATUSES = [
+  'pending_participant_response', // Waiting for participants to share availability / accept a time
+  'pending_organizer_confirmation', // Waiting for the organizer to pick or confirm a time
+  'escalated_to_organizer', // A participant never replied; organizer has been asked what to do
+  'confirmed', // Meeting time agreed and confirmation sent
+  'cancelled', // Meeting cancelled (terminal)
+  'error', // Amy could not schedule the meeting
+] as const;
+
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
+// What caused a transition, recorded in session_events
+export interface TransitionCause {
+  type: 'session_created' | 'participant_reply' | 'participant_change' | 'ai_decision' | 'slot_response' | 'cron_escalation' | 'admin_action';
+  detail?: string | null; // e.g. the AI's next_step
+  actor?: string | null; // Email of whoever triggered it, if any
+  messageId?: string | null; // Message-ID of the triggering email, if any
+}
+
+// Allowed transitions in the normal scheduling flow
+const ALLOWED_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  pending_participant_response: ['pending_organizer_confirmation', 'escalated_to_organizer', 'confirmed', 'cancelled', 'error'],
+  pending_organizer_confirmation: ['pending_participant_response', 'confirmed', 'cancelled', 'error'],
+  escalated_to_organizer: ['pending_participant_response', 'pending_organizer_confirmation', 'confirmed', 'cancelled', 'error'],
+  confirmed: ['cancelled'],
+  cancelled: [],
+  error: ['pending_participant_response', 'pending_organizer_confirmation', 'cancelled'],
+};
+
+// Extra transitions that are only legal as part of a reschedule of a confirmed meeting
+const RESCHEDULE_TRANSITIONS: Partial<Record<SessionStatus, SessionStatus[]>> = {
+  confirmed: ['pending_participant_response', 'pending_organizer_confirmation'],
+};
+
+export function isSessionStatus(value: unknown): value is SessionStatus {
+  return typeof value === 'string' && (SESSION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks whether a session may move from one status to another.
+ * Staying in the same status is always allowed (it isn't a transition).
+ */
+export function canTransition(from: SessionStatus, to: SessionStatus, options: { reschedule?: boolean } = {}): boolean {
+  if (from === to) return true;
+  if (ALLOWED_TRANSITIONS[from].includes(to)) return true;
+  return !!options.reschedule && (RESCHEDULE_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Appends a transition to the session's audit timeline in `session_events`.
+ */
+export async function recordSessionEvent(
+  sessionId: string,
+  from: SessionStatus | null,
+  to: SessionStatus,
+  cause: TransitionCause
+): Promise<void> {
+  const { error } = await insertSessionEvent({
+    session_id: sessionId,
+    from_status: from,
+    to_status: to,
+    cause: cause.type,
+    detail: cause.detail ?? null,
+    actor_email: cause.actor ?? null,
+    message_id: cause.messageId ?? null,
+  });
+  if (error) {
+    console.error(`Supabase error recording session event for ${sessionId}:`, error);
+  }
+}
+
+type TransitionResult = { ok: true } | { ok: false; reason: 'illegal_transition' | 'stale_status' | 'db_error' };
+
+/**
+ * Moves a session to a new status, validating the transition and recording it in
+ * `session_events`. Any `updates` are written in the same statement as the status.
+ *
+ * The update is conditional on the session still being in `from`, so a concurrent
+ * writer (e.g. the nudge cron) can't be silently overwritten.
+ */
+export async function transitionSession({
+  sessionId,
+  from,
+  to,
+  cause,
+  reschedule = false,
+  updates = {},
+}: {
+  sessionId: string;
+  from: string;
+  to: SessionStatus;
+  cause: TransitionCause;
+  reschedule?: boolean;
+  updates?: SchedulingSessionUpdate;
+}): Promise<TransitionResult> {
+  // Sessions written before the state machine may hold unknown statuses; let them move on
+  const knownFrom = isSessionStatus(from) ? from : null;
+  if (knownFrom && !canTransition(knownFrom, to, { reschedule })) {
+    console.warn(`Rejected illegal session transition for ${sessionId}: ${from} -> ${to} (cause: ${cause.type}${cause.detail ? `/${cause.detail}` : ''}).`);
+    return { ok: false, reason: 'illegal_transition' };
+  }
+
+  const { data: updated, error } = await updateSessionIfStatus(sessionId, from, { ...updates, status: to });
+
+  if (error) {
+    console.error(`Supabase error transitioning session ${sessionId} (${from} -> ${to}):`, error);
+    return { ok: false, reason: 'db_error' };
+  }
+  if (!updated) {
+    console.warn(`Session ${sessionId} is no longer in status '${from}'. Transition to '${to}' skipped.`);
+    return { ok: false, reason: 'stale_status' };
+  }
+
+  if (from !== to) {
+    console.log(`Session ${sessionId} transitioned: ${from} -> ${to} (cause: ${cause.type}${cause.detail ? `/${cause.detail}` : ''}).`);
+    await recordSessionEvent(sessionId, knownFrom, to, cause);
+  }
+  return { ok: true };
+}
@@ -0,0 +1,204 @@
+// Pure slot-intersection engine. No database, network or environment access,
+// so it can be unit tested and its output passed to the AI as context.
+
+// A UTC interval, in epoch milliseconds
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+// A window in which a participant said they are available
+export interface AvailabilityWindow extends TimeInterval {
+  confidence?: number; // 0-1, defaults to 1
+}
+
+export interface ParticipantAvailability {
+  email: string;
+  timezone: string | null; // IANA zone used for working hours; null skips the working-hours check
+  windows: AvailabilityWindow[];
+}
+
+export interface WorkingHours {
+  startHour: number; // Local hour the working day starts (inclusive), e.g. 9
+  endHour: number; // Local hour the working day ends (exclusive), e.g. 17
+  days: number[]; // Allowed local weekdays, 0 = Sunday ... 6 = Saturday
+}
+
+export interface SlotConstraints {
+  durationMinutes: number;
+  bufferMinutes?: number; // Free time required before and after the meeting
+  workingHours?: WorkingHours | null; // Applied in each participant's own time zone
+  horizonStart: number; // Earliest allowed start (epoch ms)
+  horizonEnd: number; // Latest allowed end (epoch ms)
+  stepMinutes?: number; // Granularity of candidate start times
+  maxCandidates?: number;
+  maxPerDay?: number; // Spread candidates across days instead of returning back-to-back steps
+  timeZone?: string | null; // IANA zone whose calendar days maxPerDay counts (the organizer's); UTC if null
+  accept?: (slot: TimeInterval) => boolean; // Extra check before ranking (e.g. a recurring series' later occurrences)
+}
+
+export interface CandidateSlot extends TimeInterval {
+  score: number; // Higher is better
+  minConfidence: number;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { startHour: 9, endHour: 17, days: [1, 2, 3, 4, 5] };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Sorts and merges overlapping or adjacent intervals.
+ */
+export function mergeIntervals<T extends TimeInterval>(intervals: T[]): TimeInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Intersects several participants' availability, returning the windows in
+ * which everyone is free. Returns an empty list if any participant has no windows.
+ */
+export function intersectAvailability(participantIntervals: TimeInterval[][]): TimeInterval[] {
+  if (participantIntervals.length === 0) return [];
+
+  let common = mergeIntervals(participantIntervals[0]);
+  for (const intervals of participantIntervals.slice(1)) {
+    const other = mergeIntervals(intervals);
+    const next: TimeInterval[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < common.length && j < other.length) {
+      const start = Math.max(common[i].start, other[j].start);
+      const end = Math.min(common[i].end, other[j].end);
+      if (start < end) next.push({ start, end });
+      // Advance whichever interval finishes first
+      if (common[i].end < other[j].end) i++;
+      else j++;
+    }
+    common = next;
+    if (common.length === 0) break;
+  }
+  return common;
+}
+
+// Local weekday and minutes-since-midnight of an instant in an IANA zone
+function getLocalTime(epochMs: number, timeZone: string): { weekday: number; minutes: number; dateKey: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    weekday: weekdays.indexOf(get('weekday')),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+    dateKey: `${get('year')}-${get('month')}-${get('day')}`,
+  };
+}
+
+/**
+ * Checks that a slot falls entirely inside working hours on a working day
+ * in the given time zone.
+ */
+export function isWithinWorkingHours(slot: TimeInterval, timeZone: string, workingHours: WorkingHours): boolean {
+  const localStart = getLocalTime(slot.start, timeZone);
+  // Use the last minute of the slot so a 16:00-17:00 meeting fits a 17:00 end
+  const localEnd = getLocalTime(slot.end - MINUTE_MS, timeZone);
+  if (localStart.dateKey !== localEnd.dateKey) return false;
+  if (!workingHours.days.includes(localStart.weekday)) return false;
+  return localStart.minutes >= workingHours.startHour * 60 && localEnd.minutes < workingHours.endHour * 60;
+}
+
+// Lowest confidence among all participants' windows that overlap the slot
+function getMinConfidence(slot: TimeInterval, participants: ParticipantAvailability[]): number {
+  let minConfidence = 1;
+  for (const participant of participants) {
+    for (const w of participant.windows) {
+      if (w.start < slot.end && w.end > slot.start) {
+        minConfidence = Math.min(minConfidence, w.confidence ?? 1);
+      }
+    }
+  }
+  return minConfidence;
+}
+
+/**
+ * Computes ranked candidate meeting slots that every participant can attend.
+ *
+ * Each participant's windows are shrunk by the buffer, clipped to the horizon and
+ * intersected. Candidate start times are then stepped through each common window,
+ * filtered by every participant's working hours, and ranked by the lowest extraction
+ * confidence among participants (then by earliest start).
+ */
+export function findCandidateSlots(participants: ParticipantAvailability[], constraints: SlotConstraints): CandidateSlot[] {
+  const durationMs = constraints.durationMinutes * MINUTE_MS;
+  const bufferMs = (constraints.bufferMinutes ?? 0) * MINUTE_MS;
+  const stepMs = (constraints.stepMinutes ?? 30) * MINUTE_MS;
+  const maxCandidates = constraints.maxCandidates ?? 5;
+  const maxPerDay = constraints.maxPerDay ?? 2;
+
+  if (participants.length === 0 || durationMs <= 0) return [];
+
+  // Shrink each window by the buffer so the meeting never starts or ends at the window edge
+  const usableWindows = participants.map(p =>
+    p.windows
+      .map(w => ({
+        start: Math.max(w.start + bufferMs, constraints.horizonStart),
+        end: Math.min(w.end - bufferMs, constraints.horizonEnd),
+      }))
+      .filter(w => w.end - w.start >= durationMs)
+  );
+  if (usableWindows.some(windows => windows.length === 0)) return [];
+
+  const commonWindows = intersectAvailability(usableWindows).filter(w => w.end - w.start >= durationMs);
+
+  const candidates: CandidateSlot[] = [];
+  for (const window of commonWindows) {
+    // Align start times to the step grid (e.g. :00 and :30)
+    let start = Math.ceil(window.start / stepMs) * stepMs;
+    while (start + durationMs <= window.end) {
+      const slot = { start, end: start + durationMs };
+      const fitsEveryone = !constraints.workingHours || participants.every(p =>
+        !p.timezone || isWithinWorkingHours(slot, p.timezone, constraints.workingHours!)
+      );
+      if (fitsEveryone && (!constraints.accept || constraints.accept(slot))) {
+        const minConfidence = getMinConfidence(slot, participants);
+        // Confidence dominates; earlier slots win ties (score decays by ~0.01 per day)
+        const daysOut = (slot.start - constraints.horizonStart) / DAY_MS;
+        candidates.push({ ...slot, minConfidence, score: minConfidence - daysOut * 0.01 });
+      }
+      start += stepMs;
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+
+  // Spread the picks across days so the organizer gets real alternatives
+  const perDay = new Map<string, number>();
+  const ranked: CandidateSlot[] = [];
+  for (const candidate of candidates) {
+    const dayKey = getLocalTime(candidate.start, constraints.timeZone || 'UTC').dateKey;
+    const count = perDay.get(dayKey) ?? 0;
+    if (count >= maxPerDay) continue;
+    perDay.set(dayKey, count + 1);
+    ranked.push(candidate);
+    if (ranked.length >= maxCandidates) break;
+  }
+  return ranked;
+}
@@ -0,0 +1,249 @@
+import type { SchedulingDecision } from './schedulingDecision';
+import type { ParticipantStatusDetail, SchedulingSession, SchedulingSessionUpdate, SlotResponse } from './types';
+import type { ResponseTokenPayload } from './responseTokens';
+import {
+  findSessionById,
+  insertSessionMessage,
+  insertSlotResponse,
+  listSessionMessages,
+  listSlotResponses,
+  updateSession,
+} from './sessionRepository';
+import { withSessionLease } from './lease';
+import { executeSchedulingDecision, getNameFromEmail, sameEmail } from './decisionExecutor';
+import { formatRangeInTimeZone, resolveTimeZone } from './timezone';
+import { hasQuorum, loadQuorumRule, quorumParticipants } from './quorum';
+
+// Handles a click on a proposal's one-click response link. The click is recorded in
+// slot_responses and, once it settles the proposal, turned into a scheduling decision in code
+// (no AI call) and carried out by lib/decisionExecutor.ts, exactly as an AI decision would be:
+//   - Organizer accepts an option          -> send_final_confirmation for that slot
+//   - Organizer declines every option      -> ask_participant_availability (everyone)
+//   - Enough participants have answered (accepted an option or declined them all) under the
+//     session's quorum rule (lib/quorum.ts):
+//       an option the required ones accepted -> propose_time_to_organizer with that slot
+//       no common option                     -> ask_participant_availability (everyone)
+// Anything else is recorded and waits for the other responses (or an email reply).
+
+export type SlotResponseOutcome =
+  | { status: 'recorded' | 'already_recorded'; response: 'accept' | 'decline' }
+  | { status: 'confirmed' | 'asked_for_new_times' }
+  | { status: 'proposed_to_organizer'; everyoneAccepted: boolean } // false: only the required participants accepted
+  | { status: 'closed' | 'busy' | 'failed' };
+
+// Organizer and active participant zones, one line per distinct zone
+function describeSlot(session: SchedulingSession, participants: ParticipantStatusDetail[], start: string, end: string): string {
+  const zones = new Map<string, string[]>();
+  const add = (name: string, zone: string | null) => {
+    if (!zone) return;
+    zones.set(zone, [...(zones.get(zone) || []), name]);
+  };
+  add(session.organizer_name || getNameFromEmail(session.organizer_email), resolveTimeZone(session.organizer_timezone));
+  for (const p of participants) add(getNameFromEmail(p.email), resolveTimeZone(p.timezone));
+  if (zones.size === 0) return formatRangeInTimeZone(new Date(start), new Date(end), 'UTC');
+  return [...zones]
+    .map(([zone, names]) => `${formatRangeInTimeZone(new Date(start), new Date(end), zone)} (${names.join(', ')})`)
+    .join('\n');
+}
+
+function slotMinutes(start: string, end: string): number {
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / (60 * 1000));
+}
+
+function confirmationDecision(session: SchedulingSession, participants: ParticipantStatusDetail[], start: string, end: string): SchedulingDecision {
+  const topic = session.meeting_topic || 'the meeting';
+  const organizerName = session.organizer_name || getNameFromEmail(session.organizer_email);
+  const intro = `Hi everyone,\n\n${organizerName} picked a time for "${topic}", so it's confirmed.`;
+  const closing = `A calendar invite is attached. If you need to make any changes, just reply to this email.`;
+  const details = [
+    'MEETING CONFIRMED',
+    '',
+    `Topic: ${topic}`,
+    `Time: ${describeSlot(session, participants, start, end)}`,
+    `Duration: ${slotMinutes(start, end)} minutes`,
+    ...(session.meeting_location ? [`Location: ${session.meeting_location}`] : []),
+  ].join('\n');
+  return {
+    next_step: 'send_final_confirmation',
+    recipients: [],
+    email_body: `${intro}\n\n${details}\n\n${closing}`,
+    intro,
+    closing,
+    confirmed_datetime: start,
+  };
+}
+
+function proposalToOrganizerDecision(session: SchedulingSession, participants: ParticipantStatusDetail[], start: string, end: string, everyoneAccepted: boolean): SchedulingDecision {
+  const topic = session.meeting_topic || 'the meeting';
+  const organizerName = session.organizer_name || getNameFromEmail(session.organizer_email);
+  const intro = `Hi ${organizerName},\n\nGood news! ${everyoneAccepted ? 'Everyone has' : 'All the required participants have'} accepted this time for "${topic}".`;
+  const closing = `Choose "Works for me" to confirm it and send the invite, or reply if you'd like something else.`;
+  const option = [
+    'OPTION 1:',
+    `Time: ${describeSlot(session, participants, start, end)}`,
+    `Duration: ${slotMinutes(start, end)} minutes`,
+  ].join('\n');
+  return {
+    next_step: 'propose_time_to_organizer',
+    recipients: [session.organizer_email],
+    email_body: `${intro}\n\n${option}\n\n${closing}`,
+    intro,
+    proposed_options: [{ start, end }],
+    closing,
+  };
+}
+
+function askForNewTimesDecision(session: SchedulingSession, participants: ParticipantStatusDetail[], reason: string): SchedulingDecision {
+  const topic = session.meeting_topic || 'the meeting';
+  const body = `Hi ${participants.length === 1 ? getNameFromEmail(participants[0].email) : 'there'},\n\n${reason} Could you share some other times when you're available for "${topic}"?\n\nYou can respond in any format that works for you - I'm flexible!`;
+  return {
+    next_step: 'ask_participant_availability',
+    recipients: participants.map(p => p.email),
+    email_body: body,
+    intro: body,
+  };
+}
+
+// The option every one of the given participants accepted, if any (lowest index first)
+function findCommonAcceptedOption(responses: SlotResponse[], participants: ParticipantStatusDetail[]): SlotResponse | null {
+  const accepted = responses.filter(r => r.response === 'accept');
+  for (const candidate of accepted) {
+    if (participants.every(p => accepted.some(r => r.option_index === candidate.option_index && sameEmail(r.responder_email, p.email)))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// Whether someone has settled the proposal: accepted an option or declined all of them
+function hasAnswered(responses: SlotResponse[], email: string, optionCount: number): boolean {
+  const own = responses.filter(r => sameEmail(r.responder_email, email));
+  return own.some(r => r.response === 'accept') || own.filter(r => r.response === 'decline').length >= optionCount;
+}
+
+/**
+ * Records a verified one-click response and advances the session if it settles the proposal.
+ */
+export async function handleSlotResponse(payload: ResponseTokenPayload): Promise<SlotResponseOutcome> {
+  const leased = await withSessionLease(payload.sid, async (): Promise<SlotResponseOutcome> => {
+    const { data: session, error: sessionError } = await findSessionById(payload.sid);
+    if (sessionError) {
+      console.error(`Supabase error loading session ${payload.sid} for a slot response:`, sessionError);
+      return { status: 'failed' };
+    }
+    // Later emails replace (or close) a proposal, so old links stop working
+    if (!session || session.active_proposal_id !== payload.pid) return { status: 'closed' };
+
+    const isOrganizer = sameEmail(payload.em, session.organizer_email);
+    const participant = session.participant_status_details.find(p => sameEmail(p.email, payload.em));
+    const expectedStatus = isOrganizer ? 'pending_organizer_confirmation' : 'pending_participant_response';
+    if ((!isOrganizer && (!participant || participant.status === 'cancelled')) || session.status !== expectedStatus) {
+      return { status: 'closed' };
+    }
+
+    const { data: existingResponses, error: responsesError } = await listSlotResponses(payload.pid);
+    if (responsesError) {
+      console.error(`Supabase error loading slot responses for proposal ${payload.pid}:`, responsesError);
+      return { status: 'failed' };
+    }
+    const previous = existingResponses.find(r => sameEmail(r.responder_email, payload.em) && r.option_index === payload.i);
+    if (previous) return { status: 'already_recorded', response: previous.response };
+
+    const { error: insertError } = await insertSlotResponse({
+      session_id: session.session_id,
+      proposal_id: payload.pid,
+      responder_email: payload.em,
+      option_index: payload.i,
+      slot_start: payload.st,
+      slot_end: payload.en,
+      response: payload.a,
+    });
+    if (insertError) {
+      console.error(`Supabase error saving slot response for session ${session.session_id}:`, insertError);
+      return { status: 'failed' };
+    }
+    const responses: SlotResponse[] = [
+      ...existingResponses,
+      { response_id: '', created_at: new Date().toISOString(), session_id: session.session_id, proposal_id: payload.pid, responder_email: payload.em, option_index: payload.i, slot_start: payload.st, slot_end: payload.en, response: payload.a },
+    ];
+
+    // Keep the click in the conversation, so a later AI call sees it like an email reply
+    const responseMessageId = `slot-response-${payload.pid}-${payload.i}-${payload.em}`;
+    const { data: messages } = await listSessionMessages(session.session_id);
+    const proposalEmail = [...(messages || [])].reverse().find(m => m.message_type === 'ai_agent');
+    const { error: messageError } = await insertSessionMessage({
+      session_id: session.session_id,
+      postmark_message_id: responseMessageId,
+      sender_email: payload.em,
+      recipient_email: null,
+      subject: proposalEmail?.subject || session.meeting_topic,
+      body_text: `[One-click response] ${payload.a === 'accept' ? 'Works for me' : "Doesn't work"}: option ${payload.i + 1} (${new Date(payload.st).toISOString()} to ${new Date(payload.en).toISOString()}).`,
+      message_type: isOrganizer ? 'human_organizer' : 'human_participant',
+      in_reply_to_message_id: proposalEmail?.postmark_message_id || null,
+    });
+    if (messageError) console.error('Supabase error saving slot response message:', messageError);
+
+    let participantDetails = session.participant_status_details;
+    const activeParticipants = () => participantDetails.filter(p => p.status !== 'cancelled');
+    let decision: SchedulingDecision | null = null;
+    let sessionUpdates: SchedulingSessionUpdate = {};
+    let everyoneAccepted = false;
+
+    if (isOrganizer) {
+      if (payload.a === 'accept') {
+        decision = confirmationDecision(session, activeParticipants(), payload.st, payload.en);
+        sessionUpdates = { meeting_duration: `${slotMinutes(payload.st, payload.en)} minutes` };
+      } else if (hasAnswered(responses, payload.em, payload.n)) {
+        participantDetails = participantDetails.map(p => (p.status === 'cancelled' ? p : { ...p, status: 'pending' }));
+        decision = askForNewTimesDecision(session, activeParticipants(), `None of the proposed times worked for ${session.organizer_name || getNameFromEmail(session.organizer_email)}.`);
+      }
+    } else {
+      if (hasAnswered(responses, payload.em, payload.n)) {
+        participantDetails = participantDetails.map(p => (sameEmail(p.email, payload.em) ? { ...p, status: 'received' } : p));
+        const { error: statusError } = await updateSession(session.session_id, { participant_status_details: participantDetails });
+        if (statusError) console.error('Supabase error updating participant status after slot response:', statusError);
+      }
+      // Optional participants who haven't answered (or didn't accept) don't hold the proposal up
+      const quorumRule = await loadQuorumRule(session);
+      const answered = participantDetails.map(p => (p.status === 'cancelled' ? p : { ...p, status: hasAnswered(responses, p.email, payload.n) ? 'received' : 'pending' }));
+      if (hasQuorum(answered, quorumRule)) {
+        const common = findCommonAcceptedOption(responses, quorumParticipants(participantDetails, quorumRule));
+        if (common) {
+          everyoneAccepted = activeParticipants().every(p => responses.some(r => r.response === 'accept' && r.option_index === common.option_index && sameEmail(r.responder_email, p.email)));
+          decision = proposalToOrganizerDecision(session, activeParticipants(), common.slot_start, common.slot_end, everyoneAccepted);
+        } else {
+          participantDetails = participantDetails.map(p => (p.status === 'cancelled' ? p : { ...p, status: 'pending' }));
+          decision = askForNewTimesDecision(session, activeParticipants(), "I couldn't find a time that works for everyone yet.");
+        }
+      }
+    }
+
+    if (!decision) return { status: 'recorded', response: payload.a };
+
+    const outcome = await executeSchedulingDecision(decision, {
+      session,
+      currentStatus: session.status,
+      participantDetails,
+      subject: proposalEmail?.subject || session.meeting_topic || 'Meeting',
+      trigger: {
+        messageId: proposalEmail?.postmark_message_id || responseMessageId,
+        referencesHeader: null,
+        actorEmail: payload.em,
+        cause: 'slot_response',
+      },
+      reschedule: false,
+      sessionUpdates,
+    });
+    if (outcome.status !== 'executed' || !outcome.outgoingMessageId) return { status: 'failed' };
+
+    switch (decision.next_step) {
+      case 'send_final_confirmation':
+        return { status: 'confirmed' };
+      case 'propose_time_to_organizer':
+        return { status: 'proposed_to_organizer', everyoneAccepted };
+      default:
+        return { status: 'asked_for_new_times' };
+    }
+  });
+  return leased.acquired ? leased.result : { status: 'busy' };
+}
@@ -1,15 +1,32 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
-// Ensure environment variables are set
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseAnonKey = process.env.SUPABASE_ANON_KEY
+// Created on first use, so importing this module never requires the env vars (tests inject a client instead)
+let supabaseClient: SupabaseClient | null = null
 
-if (!supabaseUrl) {
-  throw new Error("Missing environment variable NEXT_PUBLIC_SUPABASE_URL")
-}
-if (!supabaseAnonKey) {
-  throw new Error("Missing environment variable SUPABASE_ANON_KEY")
+/**
+ * Returns the shared Supabase client, creating it from the environment on first use.
+ */
+export function getSupabase(): SupabaseClient {
+  if (supabaseClient) return supabaseClient
+
+  // Ensure environment variables are set
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY
+
+  if (!supabaseUrl) {
+    throw new Error("Missing environment variable NEXT_PUBLIC_SUPABASE_URL")
+  }
+  if (!supabaseAnonKey) {
+    throw new Error("Missing environment variable SUPABASE_ANON_KEY")
+  }
+
+  supabaseClient = createClient(supabaseUrl, supabaseAnonKey)
+  return supabaseClient
 }
 
-// Create and export the Supabase client instance
-export const supabase = createClient(supabaseUrl, supabaseAnonKey) 
\ No newline at end of file
+/**
+ * Replaces the shared client (e.g. with an in-memory fake in tests). Pass null to go back to the environment.
+ */
+export function setSupabaseClient(client: SupabaseClient | null): void {
+  supabaseClient = client
+}
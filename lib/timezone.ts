@@ -0,0 +1,407 @@
+import type { EmailHeader } from './emailTransport';
+
+// Helper function to detect time zone information in email content
+export function detectTimeZone(emailBody: string, senderEmail: string): string | null {
+  // Common timezone patterns and abbreviations
+  const timezonePatterns = [
+    // GMT/UTC patterns
+    { regex: /GMT[+-]\d{1,2}(?::\d{2})?/gi, extract: (match: string) => match },
+    { regex: /UTC[+-]\d{1,2}(?::\d{2})?/gi, extract: (match: string) => match },
+    
+    // Named time zones with potential offsets
+    { regex: /(?:(?:Eastern|Pacific|Central|Mountain|Atlantic)\s+(?:Standard|Daylight|Savings)?\s*Time)/gi, extract: (match: string) => match },
+    
+    // Common abbreviations
+    { regex: /\b(?:EST|EDT|PST|PDT|CST|CDT|MST|MDT|AKST|AKDT|HST|AEST|IST|BST|CET|EET|JST|CST)\b/g, extract: (match: string) => match },
+    
+    // Time with explicit zone, e.g. "4pm EST" (uppercase only, so "1 pm eat lunch" is not a zone)
+    { regex: /\d{1,2}(?::\d{2})?\s*(?:[ap]m|[AP]M)?\s+[A-Z]{3,5}\b/g,
+      extract: (match: string) => match
+    },
+    
+    // Common timezone mentions - FIX: This regex wasn't extracting the capture group correctly
+    { regex: /time(?:\s+)?zone(?:\s+)?(?:is|:)?\s+([a-z0-9\/\s\+\-\_]+)/gi, 
+      extract: (match: string) => {
+        const parts = match.split(/time(?:\s+)?zone(?:\s+)?(?:is|:)?\s+/i);
+        return parts && parts.length > 1 ? parts[1].trim() : match;
+      }
+    },
+    
+    // Additional common patterns
+    { regex: /\b(?:in|from)\s+(?:the\s+)?([a-z]{3,5}|[a-z]+\s+(?:standard|daylight|savings)\s+time)\s+(?:time\s+)?zone/gi, 
+      extract: (match: string) => {
+        const parts = match.match(/\b(?:in|from)\s+(?:the\s+)?([a-z]{3,5}|[a-z]+\s+(?:standard|daylight|savings)\s+time)/i);
+        return parts && parts.length > 1 ? parts[1].trim() : match;
+      }
+    }
+  ];
+  
+  console.log(`DEBUG: Checking for time zone in email from ${senderEmail}`);
+  
+  // Try each pattern
+  for (const pattern of timezonePatterns) {
+    const matches = emailBody.match(pattern.regex);
+    if (matches && matches.length > 0) {
+      // Return the first match
+      const extracted = pattern.extract(matches[0]);
+      console.log(`DEBUG: Detected time zone: ${extracted} using pattern: ${pattern.regex}`);
+      return extracted;
+    }
+  }
+  
+  // Try to extract from common phrases
+  if (emailBody.includes("my timezone") || emailBody.includes("my time zone")) {
+    const timezoneContext = emailBody.split(/my\s+time(?:\s+)?zone(?:\s+)?(?:is|:)?/i)[1]?.trim().split(/[.,\n]/)[0]?.trim();
+    if (timezoneContext) {
+      console.log(`DEBUG: Detected time zone from phrase: ${timezoneContext}`);
+      return timezoneContext;
+    }
+  }
+  
+  console.log(`DEBUG: No time zone detected in email body from ${senderEmail}`);
+  return null;
+}
+
+// Extract timezone from email headers (typically from the Date header)
+export function extractTimezoneFromHeaders(headers: EmailHeader[] | undefined): string | null {
+  if (!headers || !Array.isArray(headers)) {
+    console.log("DEBUG: No headers available to extract timezone");
+    return null;
+  }
+  
+  // Find the Date header
+  const dateHeader = headers.find(h => h.Name.toLowerCase() === 'date');
+  if (!dateHeader || !dateHeader.Value) {
+    console.log("DEBUG: No Date header found");
+    return null;
+  }
+  
+  console.log(`DEBUG: Found Date header: ${dateHeader.Value}`);
+  
+  // Extract timezone from date header
+  // Format is typically: "Wed, 25 May 2022 14:56:34 +0000 (UTC)" or similar
+  
+  // Try to extract timezone offset (e.g., +0000, -0700)
+  const offsetMatch = dateHeader.Value.match(/\s([+-]\d{4})(?:\s|$)/);
+  if (offsetMatch && offsetMatch[1]) {
+    const offset = offsetMatch[1];
+    console.log(`DEBUG: Extracted timezone offset from Date header: ${offset}`);
+    return `GMT${offset}`;
+  }
+  
+  // Try to extract timezone abbreviation (e.g., UTC, EST)
+  const tzAbbrevMatch = dateHeader.Value.match(/\([A-Z]{3,5}\)$/);
+  if (tzAbbrevMatch && tzAbbrevMatch[0]) {
+    const tz = tzAbbrevMatch[0].replace(/[()]/g, '');
+    console.log(`DEBUG: Extracted timezone abbreviation from Date header: ${tz}`);
+    return tz;
+  }
+  
+  console.log("DEBUG: Could not extract timezone from Date header");
+  return null;
+}
+
+// --- IANA Time Zone Resolution ---
+
+// Candidate IANA zones for common abbreviations and names, most likely first.
+// Ambiguous entries (IST, CST, BST, ...) are disambiguated using the Date header offset.
+const TIMEZONE_ALIASES: Record<string, string[]> = {
+  'EST': ['America/New_York'],
+  'EDT': ['America/New_York'],
+  'ET': ['America/New_York'],
+  'EASTERN': ['America/New_York'],
+  'CST': ['America/Chicago', 'Asia/Shanghai', 'America/Havana'],
+  'CDT': ['America/Chicago', 'America/Havana'],
+  'CT': ['America/Chicago'],
+  'CENTRAL': ['America/Chicago'],
+  'MST': ['America/Denver', 'America/Phoenix'],
+  'MDT': ['America/Denver'],
+  'MT': ['America/Denver'],
+  'MOUNTAIN': ['America/Denver'],
+  'PST': ['America/Los_Angeles'],
+  'PDT': ['America/Los_Angeles'],
+  'PT': ['America/Los_Angeles'],
+  'PACIFIC': ['America/Los_Angeles'],
+  'AST': ['America/Halifax', 'Asia/Riyadh'],
+  'ADT': ['America/Halifax'],
+  'ATLANTIC': ['America/Halifax'],
+  'AKST': ['America/Anchorage'],
+  'AKDT': ['America/Anchorage'],
+  'HST': ['Pacific/Honolulu'],
+  'AEST': ['Australia/Sydney', 'Australia/Brisbane'],
+  'AEDT': ['Australia/Sydney'],
+  'ACST': ['Australia/Adelaide', 'Australia/Darwin'],
+  'AWST': ['Australia/Perth'],
+  'NZST': ['Pacific/Auckland'],
+  'NZDT': ['Pacific/Auckland'],
+  'IST': ['Asia/Kolkata', 'Europe/Dublin', 'Asia/Jerusalem'],
+  'BST': ['Europe/London', 'Asia/Dhaka'],
+  'GMT': ['UTC', 'Europe/London'],
+  'UTC': ['UTC'],
+  'Z': ['UTC'],
+  'WET': ['Europe/Lisbon'],
+  'WEST': ['Europe/Lisbon'],
+  'CET': ['Europe/Berlin'],
+  'CEST': ['Europe/Berlin'],
+  'EET': ['Europe/Athens'],
+  'EEST': ['Europe/Athens'],
+  'MSK': ['Europe/Moscow'],
+  'GST': ['Asia/Dubai'],
+  'PKT': ['Asia/Karachi'],
+  'SGT': ['Asia/Singapore'],
+  'HKT': ['Asia/Hong_Kong'],
+  'JST': ['Asia/Tokyo'],
+  'KST': ['Asia/Seoul'],
+  'BRT': ['America/Sao_Paulo'],
+  'ART': ['America/Argentina/Buenos_Aires'],
+  'SAST': ['Africa/Johannesburg'],
+  'WAT': ['Africa/Lagos'],
+  'EAT': ['Africa/Nairobi'],
+};
+
+// Common city names people use instead of a zone ("London time", "I'm in Berlin")
+const CITY_TIMEZONES: Record<string, string> = {
+  'new york': 'America/New_York',
+  'nyc': 'America/New_York',
+  'boston': 'America/New_York',
+  'toronto': 'America/Toronto',
+  'chicago': 'America/Chicago',
+  'austin': 'America/Chicago',
+  'denver': 'America/Denver',
+  'phoenix': 'America/Phoenix',
+  'los angeles': 'America/Los_Angeles',
+  'san francisco': 'America/Los_Angeles',
+  'seattle': 'America/Los_Angeles',
+  'vancouver': 'America/Vancouver',
+  'sao paulo': 'America/Sao_Paulo',
+  'london': 'Europe/London',
+  'dublin': 'Europe/Dublin',
+  'lisbon': 'Europe/Lisbon',
+  'paris': 'Europe/Paris',
+  'berlin': 'Europe/Berlin',
+  'amsterdam': 'Europe/Amsterdam',
+  'madrid': 'Europe/Madrid',
+  'stockholm': 'Europe/Stockholm',
+  'athens': 'Europe/Athens',
+  'tel aviv': 'Asia/Jerusalem',
+  'dubai': 'Asia/Dubai',
+  'mumbai': 'Asia/Kolkata',
+  'delhi': 'Asia/Kolkata',
+  'bangalore': 'Asia/Kolkata',
+  'bengaluru': 'Asia/Kolkata',
+  'singapore': 'Asia/Singapore',
+  'hong kong': 'Asia/Hong_Kong',
+  'shanghai': 'Asia/Shanghai',
+  'beijing': 'Asia/Shanghai',
+  'tokyo': 'Asia/Tokyo',
+  'seoul': 'Asia/Seoul',
+  'sydney': 'Australia/Sydney',
+  'melbourne': 'Australia/Melbourne',
+  'auckland': 'Pacific/Auckland',
+};
+
+/**
+ * Returns the canonical IANA ID for a zone (e.g. 'US/Eastern' -> 'America/New_York'),
+ * or null if the runtime does not recognise it.
+ */
+export function canonicalizeTimeZone(timeZone: string | null | undefined): string | null {
+  if (!timeZone) return null;
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the UTC offset of an IANA zone at a given instant, in minutes (e.g. -240 for EDT).
+ * Accounts for DST because the offset is computed for that specific instant.
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((localAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Parse offsets like "+0530", "-07:00", "GMT-0700", "UTC+1" into minutes east of UTC
+function parseUtcOffsetMinutes(value: string): number | null {
+  const match = value.match(/(?:^|GMT|UTC|\s)([+-])(\d{1,2})(?::?(\d{2}))?\b/i);
+  if (!match) return null;
+  const hours = parseInt(match[2], 10);
+  const minutes = match[3] ? parseInt(match[3], 10) : 0;
+  if (hours > 14 || minutes >= 60) return null;
+  const total = hours * 60 + minutes;
+  return match[1] === '-' ? -total : total;
+}
+
+// Map a fixed offset to a zone. Whole hours use Etc/GMT (whose sign is inverted by
+// POSIX convention); common fractional offsets map to their main zone.
+function timeZoneForOffset(offsetMinutes: number): string | null {
+  if (offsetMinutes === 0) return 'UTC';
+  if (offsetMinutes % 60 === 0) {
+    const hours = offsetMinutes / 60;
+    if (hours < -12 || hours > 14) return null;
+    return `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`;
+  }
+  const fractionalZones: Record<number, string> = {
+    [-210]: 'America/St_Johns',
+    [-150]: 'America/St_Johns',
+    270: 'Asia/Kabul',
+    330: 'Asia/Kolkata',
+    345: 'Asia/Kathmandu',
+    390: 'Asia/Yangon',
+    570: 'Australia/Darwin',
+    630: 'Australia/Adelaide',
+  };
+  return fractionalZones[offsetMinutes] || null;
+}
+
+/**
+ * Extracts the sender's UTC offset (in minutes) from the Date header, e.g.
+ * "Wed, 25 May 2022 14:56:34 -0700" -> -420.
+ */
+export function getHeaderUtcOffsetMinutes(headers: EmailHeader[] | undefined): number | null {
+  const dateHeader = headers?.find(h => h.Name.toLowerCase() === 'date')?.Value;
+  if (!dateHeader) return null;
+  const offsetMatch = dateHeader.match(/\s([+-]\d{4})(?:\s|$)/);
+  return offsetMatch ? parseUtcOffsetMinutes(offsetMatch[1]) : null;
+}
+
+/**
+ * Resolves a raw time zone string (e.g. "EST", "GMT-0700", "Eastern Time", "IST",
+ * "London", "America/Chicago") to a canonical IANA zone ID.
+ *
+ * Ambiguous abbreviations are resolved by picking the candidate whose offset at
+ * `referenceDate` matches `offsetMinutes` (typically taken from the Date header).
+ * Returns null if the string cannot be resolved.
+ */
+export function resolveTimeZone(
+  raw: string | null | undefined,
+  options: { offsetMinutes?: number | null; referenceDate?: Date } = {}
+): string | null {
+  if (!raw) return null;
+  const referenceDate = options.referenceDate || new Date();
+  const value = raw.trim();
+
+  // Already an IANA ID (e.g. "America/New_York", "Europe/London")
+  if (value.includes('/')) {
+    const canonical = canonicalizeTimeZone(value.replace(/\s+/g, '_'));
+    if (canonical) return canonical;
+  }
+
+  const pickCandidate = (candidates: string[]): string => {
+    if (options.offsetMinutes !== null && options.offsetMinutes !== undefined) {
+      const matching = candidates.find(tz => getTimeZoneOffsetMinutes(tz, referenceDate) === options.offsetMinutes);
+      if (matching) return matching;
+    }
+    return candidates[0];
+  };
+
+  // Abbreviations, possibly embedded in text like "4pm EST" or "(UTC)". Only uppercase ones
+  // count: lowercase words like "eat", "west" or "art" are not zones.
+  const abbreviation = value.match(/\b([A-Z]{1,5})\b\)?$/)?.[1];
+  if (abbreviation && TIMEZONE_ALIASES[abbreviation] && !/[+-]\d/.test(value)) {
+    return pickCandidate(TIMEZONE_ALIASES[abbreviation]);
+  }
+
+  // Names like "Eastern Time", "Pacific Standard Time", "Central Daylight Time"
+  const namedZone = value.match(/\b(Eastern|Central|Mountain|Pacific|Atlantic)\b/i)?.[1];
+  if (namedZone) {
+    return pickCandidate(TIMEZONE_ALIASES[namedZone.toUpperCase()]);
+  }
+
+  // Explicit offsets like "GMT-0700", "UTC+5:30", "+01:00"
+  const offset = parseUtcOffsetMinutes(value);
+  if (offset !== null) {
+    return timeZoneForOffset(offset);
+  }
+
+  // City names
+  const lower = value.toLowerCase();
+  for (const [city, tz] of Object.entries(CITY_TIMEZONES)) {
+    if (lower.includes(city)) return tz;
+  }
+
+  // Any uppercase abbreviation mentioned anywhere in the text
+  for (const word of value.match(/\b[A-Z]{3,5}\b/g) || []) {
+    if (TIMEZONE_ALIASES[word]) return pickCandidate(TIMEZONE_ALIASES[word]);
+  }
+
+  return null;
+}
+
+/**
+ * Detects a sender's IANA time zone from their email body, falling back to the
+ * Date header. The header offset is used to disambiguate abbreviations such as
+ * "IST" or "CST" found in the body, and a body zone it contradicts is ignored.
+ */
+export function detectSenderTimeZone(emailBody: string, headers: EmailHeader[] | undefined, senderEmail: string): string | null {
+  const offsetMinutes = getHeaderUtcOffsetMinutes(headers);
+  const dateHeader = headers?.find(h => h.Name.toLowerCase() === 'date')?.Value;
+  const parsedDate = dateHeader ? new Date(dateHeader) : null;
+  const referenceDate = parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate : new Date();
+
+  const bodyTimeZone = resolveTimeZone(detectTimeZone(emailBody, senderEmail), { offsetMinutes, referenceDate });
+  if (bodyTimeZone && offsetMinutes !== null && getTimeZoneOffsetMinutes(bodyTimeZone, referenceDate) !== offsetMinutes) {
+    console.log(`Ignoring time zone ${bodyTimeZone} from the body for ${senderEmail}: it contradicts the Date header offset (${offsetMinutes} minutes).`);
+  } else if (bodyTimeZone) {
+    console.log(`Resolved time zone for ${senderEmail} from body: ${bodyTimeZone}`);
+    return bodyTimeZone;
+  }
+
+  // Prefer a zone comment like "(PDT)" over the bare offset, which can only map to a fixed Etc/GMT zone
+  const headerAbbreviation = dateHeader?.match(/\(([A-Z]{2,5})\)\s*$/)?.[1];
+  const headerTimeZone =
+    resolveTimeZone(headerAbbreviation, { offsetMinutes, referenceDate }) ||
+    resolveTimeZone(extractTimezoneFromHeaders(headers), { offsetMinutes, referenceDate }) ||
+    (offsetMinutes !== null ? timeZoneForOffset(offsetMinutes) : null);
+  if (headerTimeZone) {
+    console.log(`Resolved time zone for ${senderEmail} from Date header: ${headerTimeZone}`);
+  }
+  return headerTimeZone;
+}
+
+/**
+ * Renders an instant in a recipient's time zone, e.g. "Tue, Apr 15, 2025, 11:00 AM EDT".
+ * DST is handled by Intl for the specific date.
+ */
+export function formatInTimeZone(date: Date | number, timeZone: string | null | undefined): string {
+  const zone = canonicalizeTimeZone(timeZone) || 'UTC';
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(date));
+}
+
+/**
+ * Renders a start/end range in a time zone, e.g. "Tue, Apr 15, 2025, 11:00 AM - 12:00 PM EDT".
+ */
+export function formatRangeInTimeZone(start: Date | number, end: Date | number, timeZone: string | null | undefined): string {
+  const zone = canonicalizeTimeZone(timeZone) || 'UTC';
+  const startText = formatInTimeZone(start, zone);
+  const endText = new Intl.DateTimeFormat('en-US', {
+    timeZone: zone,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(end));
+  // Drop the zone name from the start so it only appears once
+  const startWithoutZone = startText.replace(/\s+\S+$/, '');
+  return `${startWithoutZone} - ${endText}`;
+}
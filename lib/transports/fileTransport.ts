@@ -0,0 +1,29 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import type { EmailTransport, OutboundEmail } from '../emailTransport';
+import { toNodemailerMessage } from './smtpTransport';
+
+/**
+ * Development sink: writes each email as an .eml file to EMAIL_OUTBOX_DIR (default `.outbox`)
+ * instead of sending it. The files open in any mail client and can be replayed as inbound
+ * mail through the raw MIME adapter.
+ */
+export function createFileTransport(): EmailTransport {
+  const outboxDir = path.resolve(process.env.EMAIL_OUTBOX_DIR || '.outbox');
+  // Builds the full RFC 822 message without connecting anywhere
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    async send(email: OutboundEmail): Promise<string> {
+      const { message, messageId } = toNodemailerMessage(email);
+      const info = await composer.sendMail(message);
+      await mkdir(outboxDir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.split('@')[0]}.eml`;
+      await writeFile(path.join(outboxDir, fileName), info.message as Buffer);
+      console.log(`Wrote email "${email.subject}" to ${path.join(outboxDir, fileName)}`);
+      return messageId;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { simpleParser, type AddressObject } from 'mailparser';
+import type { EmailHeader } from '../emailTransport';
+import { findMailboxHash, type EmailAddress, type InboundEmail } from '../inboundEmail';
+
+// Fields carrying the raw message in common "forward the full MIME message" webhooks
+const RAW_MESSAGE_FORM_FIELDS = [
+  'email', // SendGrid Inbound Parse with "POST the raw, full MIME message"
+  'body-mime', // Mailgun routes forwarding to a ".../mime" URL
+];
+
+function toAddresses(field: AddressObject | AddressObject[] | undefined): EmailAddress[] {
+  const groups = Array.isArray(field) ? field : field ? [field] : [];
+  return groups.flatMap(group => group.value)
+    .filter(address => !!address.address)
+    .map(address => ({ email: address.address!, name: address.name || '' }));
+}
+
+/**
+ * Extracts the raw RFC 822 message from the request:
+ * - a raw body (message/rfc822, text/plain or application/octet-stream), e.g. piped from a local MTA
+ * - multipart or urlencoded forms with the message in `email` or `body-mime`
+ * - an SNS notification from an SES receipt rule with an SNS action
+ */
+async function readRawMessage(req: Request): Promise<string> {
+  const contentType = (req.headers.get('content-type') || '').toLowerCase();
+
+  if (contentType.startsWith('multipart/form-data') || contentType.startsWith('application/x-www-form-urlencoded')) {
+    const form = await req.formData();
+    for (const field of RAW_MESSAGE_FORM_FIELDS) {
+      const value = form.get(field);
+      if (typeof value === 'string') return value;
+      if (value) return await value.text();
+    }
+    throw new Error(`Form payload has no raw message field (${RAW_MESSAGE_FORM_FIELDS.join(', ')}).`);
+  }
+
+  const body = await req.text();
+  if (contentType.startsWith('application/json') || contentType.startsWith('text/plain') && body.trimStart().startsWith('{')) {
+    const notification = JSON.parse(body);
+    if (notification.Type === 'SubscriptionConfirmation') {
+      throw new Error(`SNS subscription confirmation received; confirm it at ${notification.SubscribeURL}`);
+    }
+    const sesMessage = typeof notification.Message === 'string' ? JSON.parse(notification.Message) : notification;
+    if (typeof sesMessage.content !== 'string') {
+      throw new Error('JSON payload is not an SES notification with message content.');
+    }
+    return sesMessage.receipt?.action?.encoding === 'BASE64'
+      ? Buffer.from(sesMessage.content, 'base64').toString('utf8')
+      : sesMessage.content;
+  }
+  return body;
+}
+
+/**
+ * Normalizes a raw RFC 822/MIME message. The session's mailbox hash is recovered from the
+ * recipient addresses (To, Cc, Delivered-To, X-Original-To), since there is no provider to do it.
+ */
+export async function parseMimeInbound(req: Request): Promise<InboundEmail> {
+  const raw = await readRawMessage(req);
+  const parsed = await simpleParser(raw);
+
+  // Unfolded header lines, e.g. "Date: Mon, 14 Apr 2025 10:00:00 -0400 (EDT)"
+  const headers: EmailHeader[] = parsed.headerLines.map(line => {
+    const separator = line.line.indexOf(':');
+    return { Name: line.line.slice(0, separator).trim(), Value: line.line.slice(separator + 1).replace(/\r?\n\s+/g, ' ').trim() };
+  });
+  const headerValue = (name: string) => headers.find(h => h.Name.toLowerCase() === name)?.Value || null;
+
+  const from = toAddresses(parsed.from)[0] || null;
+  const to = toAddresses(parsed.to);
+  const cc = toAddresses(parsed.cc);
+  const deliveredTo = headerValue('delivered-to') || headerValue('x-original-to');
+  const agentAddress = process.env.POSTMARK_SENDER_ADDRESS || 'scheduler@yourdomain.com';
+  const candidateRecipients = [deliveredTo, ...to.map(a => a.email), ...cc.map(a => a.email)];
+
+  return {
+    from,
+    to,
+    cc,
+    originalRecipient: deliveredTo || to[0]?.email || null,
+    subject: parsed.subject || '',
+    textBody: parsed.text || '',
+    htmlBody: typeof parsed.html === 'string' ? parsed.html : null,
+    providerMessageId: parsed.messageId?.replace(/[<>]/g, '') || null,
+    mailboxHash: findMailboxHash(candidateRecipients, agentAddress),
+    headers,
+    rawPayload: { raw },
+  };
+}
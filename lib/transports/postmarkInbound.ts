@@ -0,0 +1,22 @@
+import type { InboundMessageDetails } from 'postmark/dist/client/models/messages/InboundMessage';
+import type { InboundEmail } from '../inboundEmail';
+
+/**
+ * Normalizes Postmark's inbound webhook JSON.
+ */
+export function parsePostmarkInbound(payload: InboundMessageDetails): InboundEmail {
+  const senderEmail = payload.FromFull?.Email || payload.From;
+  return {
+    from: senderEmail ? { email: senderEmail, name: payload.FromFull?.Name || '' } : null,
+    to: (payload.ToFull || []).map(r => ({ email: r.Email, name: r.Name || '' })),
+    cc: (payload.CcFull || []).map(r => ({ email: r.Email, name: r.Name || '' })),
+    originalRecipient: payload.OriginalRecipient || null,
+    subject: payload.Subject || '',
+    textBody: payload.TextBody || '',
+    htmlBody: payload.HtmlBody || null,
+    providerMessageId: payload.MessageID || null,
+    mailboxHash: payload.MailboxHash || null,
+    headers: payload.Headers || [],
+    rawPayload: payload,
+  };
+}
@@ -0,0 +1,27 @@
+import { getPostmarkClient } from '../postmarkClient';
+import type { EmailTransport, OutboundEmail } from '../emailTransport';
+
+/**
+ * Sends through Postmark's API (POSTMARK_SERVER_TOKEN). Returns Postmark's MessageID.
+ */
+export function createPostmarkTransport(): EmailTransport {
+  return {
+    name: 'postmark',
+    async send(email: OutboundEmail): Promise<string> {
+      const response = await getPostmarkClient().sendEmail({
+        From: email.from,
+        To: email.to.join(', '),
+        Subject: email.subject,
+        TextBody: email.textBody,
+        HtmlBody: email.htmlBody,
+        ReplyTo: email.replyTo,
+        MessageStream: 'outbound',
+        Headers: email.headers.length > 0 ? email.headers : undefined,
+        Attachments: email.attachments && email.attachments.length > 0
+          ? email.attachments.map(a => ({ ...a, ContentID: a.ContentID ?? null }))
+          : undefined,
+      });
+      return response.MessageID;
+    },
+  };
+}
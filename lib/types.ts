@@ -0,0 +1,270 @@
+import { z } from 'zod';
+
+// --- Shared domain models ---
+// Row shapes of the tables the routes read and write. Rows are validated with these
+// schemas in lib/sessionRepository.ts, so a renamed or missing column fails loudly
+// instead of surfacing as `undefined` deep inside the scheduling logic.
+
+// Participant statuses: 'pending', 'received', 'nudged_<n>', 'cancelled', 'escalated', 'timed_out'
+export const participantStatusSchema = z.union([
+  z.enum(['pending', 'received', 'cancelled', 'escalated', 'timed_out']),
+  z.string().regex(/^nudged_\d+$/),
+]);
+
+export const participantStatusDetailSchema = z.object({
+  email: z.string(),
+  status: participantStatusSchema,
+  last_request_sent_at: z.string().nullable(), // ISO string
+  timezone: z.string().nullable().optional(), // IANA zone detected from the participant's replies
+  required: z.boolean().optional(), // False for optional attendees; absent means required (see lib/quorum.ts)
+});
+
+export type ParticipantStatusDetail = z.infer<typeof participantStatusDetailSchema>;
+
+// JSONB column holding one entry per participant
+export const participantStatusDetailsSchema = z.array(participantStatusDetailSchema);
+
+// One occurrence of a recurring series that was moved (new_start) or cancelled (new_start null)
+export const recurrenceExceptionSchema = z.object({
+  occurrence_start: z.string(), // Original start (ISO)
+  new_start: z.string().nullable(),
+});
+
+export type RecurrenceException = z.infer<typeof recurrenceExceptionSchema>;
+
+export const schedulingSessionSchema = z.object({
+  session_id: z.string(),
+  organizer_email: z.string(),
+  organizer_name: z.string().nullable(),
+  meeting_topic: z.string().nullable(),
+  participants: z.array(z.string()).nullable().transform(value => value ?? []),
+  status: z.string(), // See SESSION_STATUSES in lib/sessionStateMachine.ts
+  participant_status_details: participantStatusDetailsSchema.nullable().transform(value => value ?? []),
+  organizer_timezone: z.string().nullable(),
+  meeting_duration: z.string().nullable(),
+  meeting_location: z.string().nullable(),
+  is_virtual: z.boolean().nullable(),
+  confirmed_datetime: z.string().nullable(),
+  ics_sequence: z.number().int().nullable(),
+  nudge_policy: z.unknown(), // Partial nudge policy, validated by lib/nudgePolicy.ts
+  webhook_target_address: z.string().nullable(),
+  active_proposal_id: z.string().nullable(), // Proposal whose one-click response links are still open
+  active_proposal_options: z.array(z.object({ start: z.string(), end: z.string() })).nullable(), // Its options (ISO), shown on the availability picker
+  draft_mode: z.boolean().nullable(), // Hold the AI's emails for approval; null inherits organizer_settings.draft_mode
+  quorum_rule: z.string().nullable(), // See lib/quorum.ts; null inherits organizer_settings.quorum_rule
+  recurrence_rule: z.string().nullable(), // RRULE value for recurring meetings (see lib/recurrence.ts); null for one-off meetings
+  recurrence_exceptions: z.array(recurrenceExceptionSchema).nullable().transform(value => value ?? []), // Moved or cancelled occurrences of the confirmed series
+  created_at: z.string(),
+  updated_at: z.string().nullable(),
+});
+
+export type SchedulingSession = z.infer<typeof schedulingSessionSchema>;
+
+// Columns supplied when creating a session (the rest have database defaults)
+export type NewSchedulingSession = Pick<
+  SchedulingSession,
+  | 'organizer_email'
+  | 'organizer_name'
+  | 'meeting_topic'
+  | 'status'
+  | 'participants'
+  | 'participant_status_details'
+  | 'organizer_timezone'
+  | 'meeting_duration'
+  | 'meeting_location'
+  | 'is_virtual'
+  | 'webhook_target_address'
+  | 'recurrence_rule'
+>;
+
+// Columns that may be changed after creation
+export type SchedulingSessionUpdate = Partial<Omit<SchedulingSession, 'session_id' | 'created_at'>>;
+
+export const MESSAGE_TYPES = ['human_organizer', 'human_participant', 'ai_agent'] as const;
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export const sessionMessageSchema = z.object({
+  message_id: z.string(),
+  session_id: z.string(),
+  postmark_message_id: z.string().nullable(),
+  sender_email: z.string().nullable(),
+  recipient_email: z.string().nullable(),
+  subject: z.string().nullable(),
+  body_text: z.string().nullable(),
+  body_html: z.string().nullable(),
+  in_reply_to_message_id: z.string().nullable(),
+  message_type: z.enum(MESSAGE_TYPES),
+  created_at: z.string(),
+});
+
+export type SessionMessage = z.infer<typeof sessionMessageSchema>;
+
+export type NewSessionMessage = Omit<SessionMessage, 'message_id' | 'created_at' | 'body_html'> & {
+  body_html?: string | null;
+};
+
+// One entry in a session's status audit timeline (see lib/sessionStateMachine.ts)
+export const sessionEventSchema = z.object({
+  event_id: z.string(),
+  session_id: z.string(),
+  from_status: z.string().nullable(),
+  to_status: z.string(),
+  cause: z.string(),
+  detail: z.string().nullable(),
+  actor_email: z.string().nullable(),
+  message_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type SessionEvent = z.infer<typeof sessionEventSchema>;
+
+export interface NewSessionEvent {
+  session_id: string;
+  from_status: string | null;
+  to_status: string;
+  cause: string;
+  detail: string | null;
+  actor_email: string | null;
+  message_id: string | null;
+}
+
+// An availability window extracted from a participant's reply (see lib/availability.ts)
+export const participantAvailabilityWindowSchema = z.object({
+  availability_id: z.string(),
+  session_id: z.string(),
+  participant_email: z.string(),
+  start_utc: z.string(),
+  end_utc: z.string(),
+  timezone: z.string().nullable(),
+  confidence: z.number().nullable(),
+  source_message_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type ParticipantAvailabilityWindow = z.infer<typeof participantAvailabilityWindowSchema>;
+
+export type NewParticipantAvailabilityWindow = Omit<ParticipantAvailabilityWindow, 'availability_id' | 'created_at'>;
+
+// A named, expiring lock (see lib/lease.ts)
+export const leaseSchema = z.object({
+  lease_name: z.string(),
+  holder_id: z.string(),
+  expires_at: z.string(),
+});
+
+export type Lease = z.infer<typeof leaseSchema>;
+
+// One click on a proposal's response link (see lib/slotResponses.ts)
+export const slotResponseSchema = z.object({
+  response_id: z.string(),
+  session_id: z.string(),
+  proposal_id: z.string(),
+  responder_email: z.string(),
+  option_index: z.number().int(),
+  slot_start: z.string(),
+  slot_end: z.string(),
+  response: z.enum(['accept', 'decline']),
+  created_at: z.string(),
+});
+
+export type SlotResponse = z.infer<typeof slotResponseSchema>;
+
+export type NewSlotResponse = Omit<SlotResponse, 'response_id' | 'created_at'>;
+
+// A decision carried out for a session (see lib/decisionExecutor.ts). `decision` holds the
+// SchedulingDecision as it was executed; it isn't re-validated on read because the schema evolves.
+export const sessionDecisionSchema = z.object({
+  decision_id: z.string(),
+  session_id: z.string(),
+  cause: z.enum(['ai_decision', 'slot_response', 'admin_action', 'participant_change']),
+  trigger_message_id: z.string().nullable(),
+  actor_email: z.string().nullable(),
+  decision: z.record(z.unknown()),
+  outcome: z.enum(['executed', 'rejected_illegal_transition', 'send_failed']),
+  outgoing_message_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type SessionDecision = z.infer<typeof sessionDecisionSchema>;
+
+export type NewSessionDecision = Omit<SessionDecision, 'decision_id' | 'created_at'>;
+
+// A reminder, escalation or organizer notification sent by the nudge cron
+export const sessionNudgeSchema = z.object({
+  nudge_id: z.string(),
+  session_id: z.string(),
+  participant_email: z.string(),
+  action: z.enum(['nudge', 'escalation', 'organizer_notification']),
+  nudge_number: z.number().int().nullable(),
+  recipient_email: z.string(),
+  message_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type SessionNudge = z.infer<typeof sessionNudgeSchema>;
+
+export type NewSessionNudge = Omit<SessionNudge, 'nudge_id' | 'created_at'>;
+
+// A pre-meeting reminder sent by the reminder cron, one row per recipient
+export const sessionReminderSchema = z.object({
+  reminder_id: z.string(),
+  session_id: z.string(),
+  recipient_email: z.string(),
+  meeting_start: z.string(),
+  offset_minutes: z.number().int(),
+  message_id: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type SessionReminder = z.infer<typeof sessionReminderSchema>;
+
+export type NewSessionReminder = Omit<SessionReminder, 'reminder_id' | 'created_at'>;
+
+// An AI decision held for the organizer's approval (see lib/decisionDrafts.ts). Like
+// session_decisions.decision, `decision` is re-validated when the draft is approved.
+export const sessionDraftSchema = z.object({
+  draft_id: z.string(),
+  session_id: z.string(),
+  decision: z.record(z.unknown()),
+  recipients: z.array(z.string()),
+  subject: z.string(),
+  trigger_message_id: z.string(),
+  references_header: z.string().nullable(),
+  actor_email: z.string(),
+  reschedule: z.boolean(),
+  session_updates: z.record(z.unknown()).nullable(),
+  status: z.enum(['pending', 'approved', 'rejected', 'superseded']),
+  reviewed_by: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type SessionDraft = z.infer<typeof sessionDraftSchema>;
+
+export type NewSessionDraft = Pick<
+  SessionDraft,
+  'session_id' | 'decision' | 'recipients' | 'subject' | 'trigger_message_id' | 'references_header' | 'actor_email' | 'reschedule' | 'session_updates'
+>;
+
+// Per-organizer overrides. The JSON columns are validated where they are used
+// (lib/nudgePolicy.ts and lib/emailTemplates.ts), so a bad override is ignored rather than fatal.
+export interface OrganizerSettings {
+  organizer_email: string;
+  nudge_policy: unknown;
+  branding: unknown;
+  draft_mode: boolean;
+  quorum_rule: string | null; // Validated by lib/quorum.ts
+  reminder_offsets_minutes: number[] | null; // Validated by lib/reminders.ts
+}
+
+// Emails sent from the agent's own address without a session hash, kept for loop investigation
+export interface DiscardedAgentEmail {
+  postmark_message_id?: string | null;
+  subject?: string | null;
+  from_email?: string | null;
+  to_recipients?: string | null;
+  cc_recipients?: string | null;
+  in_reply_to_header?: string | null;
+  body_text?: string | null;
+  full_payload: unknown;
+}
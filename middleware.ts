@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { DASHBOARD_REALM, isSameOriginRequest, verifyDashboardRequest } from '@/lib/dashboardAuth';
+
+// Puts the admin dashboard and its API behind HTTP Basic auth (lib/dashboardAuth.ts), and
+// turns away cross-site posts to it.
+export function middleware(req: NextRequest) {
+  const auth = verifyDashboardRequest(req);
+  if (auth.authorized) {
+    if (req.method !== 'GET' && req.method !== 'HEAD' && !isSameOriginRequest(req)) {
+      console.warn(`Dashboard: Rejected cross-site ${req.method} to ${req.nextUrl.pathname}.`);
+      return new NextResponse('Cross-site requests are not allowed.', { status: 403 });
+    }
+    return NextResponse.next();
+  }
+  if (auth.reason === 'not_configured') {
+    console.error('Dashboard: DASHBOARD_USERNAME or DASHBOARD_PASSWORD is not set.');
+    return new NextResponse('The dashboard is not enabled.', { status: 404 });
+  }
+  return new NextResponse('Authentication required.', {
+    status: 401,
+    headers: { 'WWW-Authenticate': `Basic realm="${DASHBOARD_REALM}", charset="UTF-8"` },
+  });
+}
+
+export const config = {
+  matcher: ['/', '/sessions/:path*', '/api/admin/:path*'],
+};
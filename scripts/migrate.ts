@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { Client } from 'pg';
+
+// Applies the ordered SQL files in db/migrations to DATABASE_URL.
+// Usage: DATABASE_URL=postgres://... pnpm db:migrate [--dry-run]
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'db', 'migrations');
+// Arbitrary key for pg_advisory_lock, so two deploys can't migrate at once
+const MIGRATION_LOCK_KEY = 4_242_001;
+
+interface MigrationFile {
+  version: string; // File name without extension, e.g. '0001_initial_schema'
+  sql: string;
+  checksum: string;
+}
+
+async function loadMigrations(): Promise<MigrationFile[]> {
+  const fileNames = (await readdir(MIGRATIONS_DIR))
+    .filter(name => /^\d{4}_[a-z0-9_]+\.sql$/.test(name))
+    .sort();
+  const migrations: MigrationFile[] = [];
+  for (const fileName of fileNames) {
+    const sql = await readFile(path.join(MIGRATIONS_DIR, fileName), 'utf8');
+    migrations.push({
+      version: fileName.replace(/\.sql$/, ''),
+      sql,
+      checksum: createHash('sha256').update(sql).digest('hex'),
+    });
+  }
+  return migrations;
+}
+
+async function main() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error('Missing environment variable DATABASE_URL');
+  }
+  const dryRun = process.argv.includes('--dry-run');
+
+  const migrations = await loadMigrations();
+  console.log(`Found ${migrations.length} migration files in ${MIGRATIONS_DIR}.`);
+
+  const client = new Client({ connectionString: databaseUrl });
+  await client.connect();
+  try {
+    await client.query('select pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await client.query(`
+      create table if not exists schema_migrations (
+        version text primary key,
+        checksum text not null,
+        applied_at timestamptz not null default now()
+      )
+    `);
+
+    const { rows } = await client.query<{ version: string; checksum: string }>('select version, checksum from schema_migrations');
+    const applied = new Map(rows.map(row => [row.version, row.checksum]));
+
+    let appliedCount = 0;
+    for (const migration of migrations) {
+      const appliedChecksum = applied.get(migration.version);
+      if (appliedChecksum) {
+        // Applied migrations must never be edited; add a new one instead
+        if (appliedChecksum !== migration.checksum) {
+          throw new Error(`Migration ${migration.version} was changed after it was applied.`);
+        }
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`Pending: ${migration.version}`);
+        continue;
+      }
+
+      console.log(`Applying ${migration.version}...`);
+      await client.query('begin');
+      try {
+        await client.query(migration.sql);
+        await client.query('insert into schema_migrations (version, checksum) values ($1, $2)', [migration.version, migration.checksum]);
+        await client.query('commit');
+      } catch (error) {
+        await client.query('rollback');
+        throw new Error(`Migration ${migration.version} failed: ${error instanceof Error ? error.message : error}`);
+      }
+      appliedCount++;
+    }
+
+    console.log(dryRun ? 'Dry run complete.' : `Applied ${appliedCount} migration(s). Schema is up to date.`);
+  } finally {
+    await client.query('select pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => undefined);
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+import type { Message, MessageSendingResponse } from 'postmark/dist/client/models';
+import type { PostmarkSender } from '@/lib/postmarkClient';
+
+export interface SentEmail extends Message {
+  MessageID: string;
+}
+
+/**
+ * Records every email instead of sending it. Pass to setPostmarkClient().
+ */
+export class FakePostmark implements PostmarkSender {
+  readonly sent: SentEmail[] = [];
+  private failuresRemaining = 0;
+  private counter = 0;
+
+  /** Makes the next `count` sends fail, like a Postmark API error. */
+  failNext(count = 1): void {
+    this.failuresRemaining = count;
+  }
+
+  /** Emails sent to (To or Cc) an address, oldest first. */
+  sentTo(email: string): SentEmail[] {
+    const target = email.toLowerCase();
+    return this.sent.filter(message =>
+      [message.To, message.Cc]
+        .filter((field): field is string => !!field)
+        .some(field => field.toLowerCase().split(/\s*,\s*/).includes(target))
+    );
+  }
+
+  async sendEmail(message: Message): Promise<MessageSendingResponse> {
+    if (this.failuresRemaining > 0) {
+      this.failuresRemaining--;
+      throw new Error('Fake Postmark: simulated send failure');
+    }
+    const messageId = `fake-postmark-${++this.counter}`;
+    this.sent.push({ ...message, MessageID: messageId });
+    return {
+      To: message.To,
+      Cc: message.Cc,
+      SubmittedAt: new Date().toISOString(),
+      MessageID: messageId,
+      ErrorCode: 0,
+      Message: 'OK',
+    };
+  }
+}
@@ -0,0 +1,317 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// A small in-memory stand-in for the parts of the Supabase query builder the app uses:
+// from().select/insert/update/delete with eq/lt/in/order/limit and single/maybeSingle.
+// Enough to run the routes offline; it does not try to be a general PostgREST emulator.
+
+type Row = Record<string, any>;
+
+interface TableConfig {
+  primaryKey?: string;
+  defaults: () => Row;
+  touchUpdatedAt?: boolean; // Mirrors the set_updated_at trigger
+}
+
+const now = () => new Date().toISOString();
+
+// Column defaults, matching db/migrations
+const TABLES: Record<string, TableConfig> = {
+  scheduling_sessions: {
+    primaryKey: 'session_id',
+    touchUpdatedAt: true,
+    defaults: () => ({
+      session_id: randomUUID(),
+      organizer_name: null,
+      meeting_topic: null,
+      participants: [],
+      status: 'pending_participant_response',
+      participant_status_details: [],
+      organizer_timezone: null,
+      participant_timezones: null,
+      meeting_duration: null,
+      meeting_location: null,
+      is_virtual: null,
+      confirmed_datetime: null,
+      ics_sequence: null,
+      nudge_policy: null,
+      webhook_target_address: null,
+      active_proposal_id: null,
+      active_proposal_options: null,
+      draft_mode: null,
+      quorum_rule: null,
+      recurrence_rule: null,
+      recurrence_exceptions: null,
+      created_at: now(),
+      updated_at: now(),
+    }),
+  },
+  session_messages: {
+    primaryKey: 'message_id',
+    defaults: () => ({
+      message_id: randomUUID(),
+      postmark_message_id: null,
+      sender_email: null,
+      recipient_email: null,
+      subject: null,
+      body_text: null,
+      body_html: null,
+      in_reply_to_message_id: null,
+      created_at: now(),
+    }),
+  },
+  session_events: {
+    primaryKey: 'event_id',
+    defaults: () => ({ event_id: randomUUID(), created_at: now() }),
+  },
+  participant_availability: {
+    primaryKey: 'availability_id',
+    defaults: () => ({ availability_id: randomUUID(), created_at: now() }),
+  },
+  discarded_agent_emails: {
+    primaryKey: 'log_id',
+    defaults: () => ({ log_id: randomUUID(), received_at: now() }),
+  },
+  inbound_message_receipts: {
+    primaryKey: 'message_id',
+    defaults: () => ({ received_at: now() }),
+  },
+  slot_responses: {
+    primaryKey: 'response_id',
+    defaults: () => ({ response_id: randomUUID(), created_at: now() }),
+  },
+  session_decisions: {
+    primaryKey: 'decision_id',
+    defaults: () => ({ decision_id: randomUUID(), created_at: now() }),
+  },
+  session_nudges: {
+    primaryKey: 'nudge_id',
+    defaults: () => ({ nudge_id: randomUUID(), created_at: now() }),
+  },
+  session_reminders: {
+    primaryKey: 'reminder_id',
+    defaults: () => ({ reminder_id: randomUUID(), message_id: null, created_at: now() }),
+  },
+  session_drafts: {
+    primaryKey: 'draft_id',
+    defaults: () => ({
+      draft_id: randomUUID(),
+      recipients: [],
+      references_header: null,
+      reschedule: false,
+      session_updates: null,
+      status: 'pending',
+      reviewed_by: null,
+      reviewed_at: null,
+      created_at: now(),
+    }),
+  },
+  leases: { primaryKey: 'lease_name', defaults: () => ({}) },
+  organizer_settings: { primaryKey: 'organizer_email', defaults: () => ({ nudge_policy: null, branding: null, draft_mode: false, quorum_rule: null, reminder_offsets_minutes: null }) },
+};
+
+interface QueryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface QueryResult {
+  data: Row | Row[] | null;
+  error: QueryError | null;
+}
+
+function queryError(code: string, message: string): QueryError {
+  return { code, message, details: null, hint: null };
+}
+
+// Compare timestamps as instants and everything else as plain values
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'string' && typeof b === 'string') {
+    const aTime = Date.parse(a);
+    const bTime = Date.parse(b);
+    if (!isNaN(aTime) && !isNaN(bTime) && /^\d{4}-\d{2}-\d{2}T/.test(a) && /^\d{4}-\d{2}-\d{2}T/.test(b)) {
+      return aTime - bTime;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+}
+
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row | Row[] | null = null;
+  private columns: string | null = null;
+  private returning = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private rowLimit: number | null = null;
+  private cardinality: 'single' | 'maybeSingle' | null = null;
+
+  constructor(private readonly database: InMemoryDatabase, private readonly table: string) {}
+
+  select(columns = '*'): this {
+    this.columns = columns;
+    if (this.operation !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined && compareValues(row[column], value) < 0);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering = { column, ascending: options.ascending !== false };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const rows = this.database.rows(this.table);
+    const config = TABLES[this.table];
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'select':
+        affected = rows.filter(row => this.filters.every(filter => filter(row)));
+        break;
+      case 'insert': {
+        const newRows = (Array.isArray(this.payload) ? this.payload : [this.payload!]).map(row => ({
+          ...(config ? config.defaults() : {}),
+          ...structuredClone(row),
+        }));
+        const primaryKey = config?.primaryKey;
+        if (primaryKey) {
+          const seen = new Set(rows.map(row => row[primaryKey]));
+          for (const row of newRows) {
+            if (seen.has(row[primaryKey])) {
+              return { data: null, error: queryError('23505', `duplicate key value violates unique constraint "${this.table}_pkey"`) };
+            }
+            seen.add(row[primaryKey]);
+          }
+        }
+        rows.push(...newRows);
+        affected = newRows;
+        break;
+      }
+      case 'update':
+        affected = rows.filter(row => this.filters.every(filter => filter(row)));
+        for (const row of affected) {
+          Object.assign(row, structuredClone(this.payload), config?.touchUpdatedAt ? { updated_at: now() } : {});
+        }
+        break;
+      case 'delete':
+        affected = rows.filter(row => this.filters.every(filter => filter(row)));
+        this.database.replaceRows(this.table, rows.filter(row => !affected.includes(row)));
+        break;
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering;
+      affected = [...affected].sort((a, b) => (ascending ? 1 : -1) * compareValues(a[column], b[column]));
+    }
+    if (this.rowLimit !== null) affected = affected.slice(0, this.rowLimit);
+    const data = affected.map(row => this.project(structuredClone(row)));
+
+    if (this.cardinality) {
+      if (data.length > 1) return { data: null, error: queryError('PGRST116', 'JSON object requested, multiple (or no) rows returned') };
+      if (data.length === 0) {
+        return this.cardinality === 'single'
+          ? { data: null, error: queryError('PGRST116', 'JSON object requested, multiple (or no) rows returned') }
+          : { data: null, error: null };
+      }
+      return { data: data[0], error: null };
+    }
+    return { data, error: null };
+  }
+
+  // Plain column lists only; embedded resources aren't supported
+  private project(row: Row): Row {
+    if (!this.columns || this.columns.trim() === '*') return row;
+    const projected: Row = {};
+    for (const column of this.columns.split(',').map(c => c.trim())) {
+      projected[column] = row[column] ?? null;
+    }
+    return projected;
+  }
+}
+
+/**
+ * In-memory tables plus a client that can be passed to setSupabaseClient().
+ */
+export class InMemoryDatabase {
+  private tables = new Map<string, Row[]>();
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  replaceRows(table: string, rows: Row[]): void {
+    this.tables.set(table, rows);
+  }
+
+  /** Seeds rows directly, applying the same defaults as an insert. */
+  seed(table: string, rows: Row[]): void {
+    const config = TABLES[table];
+    this.rows(table).push(...rows.map(row => ({ ...(config ? config.defaults() : {}), ...structuredClone(row) })));
+  }
+
+  asClient(): SupabaseClient {
+    return { from: (table: string) => new InMemoryQuery(this, table) } as unknown as SupabaseClient;
+  }
+}
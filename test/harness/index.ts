@@ -0,0 +1,323 @@
+import { POST as postSchedule } from '@/app/api/schedule/route';
+import { GET as getNudgeCron } from '@/app/api/cron/nudge/route';
+import { GET as getReminderCron } from '@/app/api/cron/reminders/route';
+import { GET as getRespond, POST as postRespond } from '@/app/api/respond/[token]/route';
+import { POST as postAvailability } from '@/app/api/availability/[token]/route';
+import { POST as postAdminSession } from '@/app/api/admin/sessions/[sessionId]/route';
+import { GET as getDraft, POST as postDraft } from '@/app/api/drafts/[token]/route';
+import { setSupabaseClient } from '@/lib/supabaseClient';
+import { setPostmarkClient } from '@/lib/postmarkClient';
+import { setLanguageModel } from '@/lib/languageModel';
+import { setEmailTransport } from '@/lib/emailTransport';
+import { InMemoryDatabase } from './inMemorySupabase';
+import { FakePostmark, type SentEmail } from './fakePostmark';
+import { ScriptedModel } from './scriptedModel';
+
+export { InMemoryDatabase } from './inMemorySupabase';
+export { FakePostmark, type SentEmail } from './fakePostmark';
+export { ScriptedModel, type AvailabilityExtraction, type ParticipantChangeExtraction, type RecordedCall } from './scriptedModel';
+
+export const AGENT_EMAIL = 'amy@scheduler.test';
+export const CRON_SECRET = 'test-cron-secret';
+
+// The cast most scenarios share: Alice organizes, Bob and Carol (and sometimes Dan) are invited
+export const ORGANIZER = 'alice@example.com';
+export const BOB = 'bob@example.com';
+export const CAROL = 'carol@example.com';
+export const DAN = 'dan@example.com';
+
+// Monday 14 April 2025, 10:00 in New York
+export const START = new Date('2025-04-14T14:00:00Z');
+export const HOUR = 60 * 60 * 1000;
+
+// The text of an email's first attachment (the ICS invite)
+export function ics(message: { Attachments?: { Content: string }[] }): string {
+  return Buffer.from(message.Attachments![0].Content, 'base64').toString('utf8');
+}
+
+export interface InboundEmail {
+  from: string;
+  fromName?: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  textBody: string;
+  messageId?: string; // Message-ID header value, without angle brackets
+  inReplyTo?: string;
+  references?: string;
+  mailboxHash?: string;
+  date?: Date; // Date header; defaults to now
+  utcOffset?: string; // e.g. '-0400 (EDT)', used in the Date header
+}
+
+// A route's JSON body. Only the fields the scenarios read are typed
+export interface RouteBody {
+  status?: string;
+  [key: string]: unknown;
+}
+
+// What the nudge and reminder crons return; `summary` is missing when a run is refused
+export interface CronRunBody extends RouteBody {
+  summary?: {
+    sessionsChecked: number;
+    nudgesSent?: number;
+    escalations?: number;
+    deferred?: number;
+    organizerNotifications?: number;
+    sessionsBusy?: number;
+    remindersSent?: number;
+    failures: { sessionId: string; reason: string }[];
+  };
+}
+
+export interface RouteResult<TBody extends RouteBody = RouteBody> {
+  status: number;
+  body: TBody;
+}
+
+export interface PageResult {
+  status: number;
+  html: string;
+}
+
+export interface AdminActionResult {
+  status: number;
+  notice: string | null; // The notice shown on the session page after the redirect
+}
+
+// Env vars that would change how the routes behave under test
+const CLEARED_ENV = [
+  'INBOUND_WEBHOOK_USERNAME',
+  'INBOUND_WEBHOOK_PASSWORD',
+  'INBOUND_WEBHOOK_SECRET',
+  'INBOUND_IP_ALLOWLIST',
+  'INBOUND_WEBHOOK_ALLOW_UNAUTHENTICATED',
+  'TRUSTED_PROXY_HOPS',
+  'NUDGE_POLICY',
+  'QUORUM_RULE',
+  'REMINDER_OFFSETS_MINUTES',
+  'SLOT_BUFFER_MINUTES',
+  'SLOT_HORIZON_DAYS',
+  'LANGFUSE_SECRET_KEY',
+  'LANGFUSE_PUBLIC_KEY',
+  'EMAIL_TRANSPORT',
+  'INBOUND_EMAIL_ADAPTER',
+  'EMAIL_BRANDING',
+  'APP_BASE_URL',
+  'RESPONSE_TOKEN_SECRET',
+  'RESPONSE_LINK_TTL_HOURS',
+  'DASHBOARD_USERNAME',
+  'DASHBOARD_PASSWORD',
+];
+
+// RFC 2822 date in a fixed offset, e.g. "Mon, 14 Apr 2025 10:00:00 -0400 (EDT)"
+function formatDateHeader(date: Date, utcOffset: string): string {
+  const match = utcOffset.match(/^([+-])(\d{2})(\d{2})/);
+  const offsetMinutes = match ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10)) : 0;
+  const local = new Date(date.getTime() + offsetMinutes * 60 * 1000);
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${days[local.getUTCDay()]}, ${local.getUTCDate()} ${months[local.getUTCMonth()]} ${local.getUTCFullYear()} ` +
+    `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())} ${utcOffset}`;
+}
+
+/**
+ * Wires the routes to an in-memory database, a recording Postmark client and a scripted
+ * model, and returns helpers to replay email threads through them. Call dispose() when done.
+ */
+export function createHarness({ verbose = !!process.env.SCENARIO_LOGS }: { verbose?: boolean } = {}) {
+  const db = new InMemoryDatabase();
+  const postmark = new FakePostmark();
+  const model = new ScriptedModel();
+  let inboundCounter = 0;
+
+  const savedEnv = new Map<string, string | undefined>();
+  // Sets an env var for the lifetime of the harness; dispose() restores the original value
+  const setEnv = (name: string, value: string | undefined) => {
+    if (!savedEnv.has(name)) savedEnv.set(name, process.env[name]);
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  };
+  for (const name of CLEARED_ENV) setEnv(name, undefined);
+  setEnv('POSTMARK_SENDER_ADDRESS', AGENT_EMAIL);
+  setEnv('CRON_SECRET', CRON_SECRET);
+
+  setSupabaseClient(db.asClient());
+  setPostmarkClient(postmark);
+  setLanguageModel(model.asLanguageModel());
+
+  // The routes log every step; keep test output readable unless asked
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  /** Delivers an inbound email to POST /api/schedule, as Postmark's webhook would. */
+  async function sendInbound(email: InboundEmail): Promise<RouteResult> {
+    const messageId = email.messageId || `inbound-${++inboundCounter}@mail.test`;
+    const headers = [
+      { Name: 'Message-ID', Value: `<${messageId}>` },
+      { Name: 'Date', Value: formatDateHeader(email.date || new Date(), email.utcOffset || '+0000') },
+    ];
+    if (email.inReplyTo) headers.push({ Name: 'In-Reply-To', Value: `<${email.inReplyTo}>` });
+    if (email.references) headers.push({ Name: 'References', Value: email.references });
+
+    const toAddress = email.mailboxHash
+      ? `${AGENT_EMAIL.split('@')[0]}+${email.mailboxHash}@${AGENT_EMAIL.split('@')[1]}`
+      : null;
+    const to = [...email.to];
+    if (toAddress && !to.includes(toAddress)) to.unshift(toAddress);
+    const cc = email.cc || [];
+
+    const payload = {
+      From: email.from,
+      FromName: email.fromName || '',
+      FromFull: { Email: email.from, Name: email.fromName || '', MailboxHash: '' },
+      To: to.join(', '),
+      ToFull: to.map(address => ({ Email: address, Name: '', MailboxHash: '' })),
+      Cc: cc.join(', '),
+      CcFull: cc.map(address => ({ Email: address, Name: '', MailboxHash: '' })),
+      OriginalRecipient: toAddress || AGENT_EMAIL,
+      Subject: email.subject,
+      MessageID: `postmark-inbound-${inboundCounter}`,
+      ReplyTo: '',
+      MailboxHash: email.mailboxHash || '',
+      Date: headers[1].Value,
+      TextBody: email.textBody,
+      HtmlBody: '',
+      StrippedTextReply: '',
+      Tag: '',
+      Headers: headers,
+      Attachments: [],
+    };
+
+    const response = await postSchedule(new Request('http://localhost/api/schedule', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+    }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  /** Delivers a raw RFC 822 message to POST /api/schedule (for the 'mime' inbound adapter). */
+  async function sendRawInbound(raw: string, contentType = 'message/rfc822'): Promise<RouteResult> {
+    const response = await postSchedule(new Request('http://localhost/api/schedule', {
+      method: 'POST',
+      headers: { 'content-type': contentType },
+      body: raw,
+    }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  /** Replies to an email Amy sent, threading it the way a mail client would. */
+  function reply(to: SentEmail, email: Omit<InboundEmail, 'to' | 'subject' | 'inReplyTo' | 'mailboxHash'> & { subject?: string }) {
+    const mailboxHash = to.ReplyTo?.match(/\+([^@]+)@/)?.[1];
+    return sendInbound({
+      ...email,
+      to: [],
+      subject: email.subject || (to.Subject.startsWith('Re:') ? to.Subject : `Re: ${to.Subject}`),
+      inReplyTo: to.MessageID,
+      mailboxHash,
+    });
+  }
+
+  /** Runs GET /api/cron/nudge with the cron bearer token (or a given Authorization header). */
+  async function runNudgeCron(authorization: string | null = `Bearer ${CRON_SECRET}`): Promise<RouteResult<CronRunBody>> {
+    const response = await getNudgeCron(new Request('http://localhost/api/cron/nudge', {
+      headers: authorization ? { authorization } : {},
+    }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  /** Runs GET /api/cron/reminders with the cron bearer token (or a given Authorization header). */
+  async function runReminderCron(authorization: string | null = `Bearer ${CRON_SECRET}`): Promise<RouteResult<CronRunBody>> {
+    const response = await getReminderCron(new Request('http://localhost/api/cron/reminders', {
+      headers: authorization ? { authorization } : {},
+    }));
+    return { status: response.status, body: await response.json() };
+  }
+
+  /** Opens (GET) or submits (POST) a one-click response link from an email. */
+  async function followLink(url: string, method: 'GET' | 'POST' = 'GET'): Promise<PageResult> {
+    const token = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    const handler = method === 'GET' ? getRespond : postRespond;
+    const response = await handler(new Request(url, { method }), { params: Promise.resolve({ token }) });
+    return { status: response.status, html: await response.text() };
+  }
+
+  /** Opens a draft review link (without `review`), or submits its form with a verdict and the edited text. */
+  async function reviewDraftLink(url: string, review?: { verdict: string; emailBody?: string }): Promise<PageResult> {
+    const token = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    const context = { params: Promise.resolve({ token }) };
+    if (!review) {
+      const response = await getDraft(new Request(url), context);
+      return { status: response.status, html: await response.text() };
+    }
+    const form = new URLSearchParams({ verdict: review.verdict });
+    if (review.emailBody !== undefined) form.set('email_body', review.emailBody);
+    const response = await postDraft(new Request(url, { method: 'POST', body: form }), context);
+    return { status: response.status, html: await response.text() };
+  }
+
+  /** Submits the availability picker behind an emailed /availability/<token> link, as the page does. */
+  async function submitAvailability(url: string, submission: unknown): Promise<RouteResult> {
+    const token = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    const response = await postAvailability(new Request(`http://localhost/api/availability/${token}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(submission),
+    }), { params: Promise.resolve({ token }) });
+    return { status: response.status, body: await response.json() };
+  }
+
+  /** Presses an action button on the dashboard's session page (with any extra form fields and headers), with the given Basic credentials. */
+  async function postAdminAction(
+    sessionId: string,
+    action: string,
+    credentials: string | null = 'admin:dashboard-password',
+    fields: Record<string, string> = {},
+    headers: Record<string, string> = {}
+  ): Promise<AdminActionResult> {
+    const response = await postAdminSession(new Request(`http://localhost/api/admin/sessions/${sessionId}`, {
+      method: 'POST',
+      headers: { ...headers, ...(credentials ? { authorization: `Basic ${Buffer.from(credentials).toString('base64')}` } : {}) },
+      body: new URLSearchParams({ action, ...fields }),
+    }), { params: Promise.resolve({ sessionId }) });
+    const location = response.headers.get('location');
+    return { status: response.status, notice: location ? new URL(location).searchParams.get('notice') : null };
+  }
+
+  /** The only session in the database (most scenarios create exactly one). */
+  function onlySession() {
+    const sessions = db.rows('scheduling_sessions');
+    if (sessions.length !== 1) throw new Error(`Expected exactly one session, found ${sessions.length}`);
+    return sessions[0];
+  }
+
+  /** Status transitions recorded for a session, oldest first. */
+  function sessionEvents(sessionId: string) {
+    return db.rows('session_events')
+      .filter(event => event.session_id === sessionId)
+      .map(event => `${event.from_status ?? '(new)'} -> ${event.to_status} [${event.cause}]`);
+  }
+
+  function dispose() {
+    console.log = originalLog;
+    console.warn = originalWarn;
+    setSupabaseClient(null);
+    setPostmarkClient(null);
+    setLanguageModel(null);
+    setEmailTransport(null);
+    for (const [name, value] of savedEnv) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+
+  return { db, postmark, model, setEnv, sendInbound, sendRawInbound, reply, runNudgeCron, runReminderCron, followLink, reviewDraftLink, submitAvailability, postAdminAction, onlySession, sessionEvents, dispose };
+}
+
+export type Harness = ReturnType<typeof createHarness>;
@@ -0,0 +1,100 @@
+import { MockLanguageModelV1 } from 'ai/test';
+import type { LanguageModelV1CallOptions } from 'ai';
+import type { SchedulingDecision } from '@/lib/schedulingDecision';
+
+export interface AvailabilityExtraction {
+  slots: { start: string; end: string; timezone: string | null; confidence: number }[];
+}
+
+export interface ParticipantChangeExtraction {
+  add: { email: string; replaces: string | null }[];
+  remove: string[];
+}
+
+export interface RecordedCall {
+  kind: 'decision' | 'availability' | 'participants';
+  system: string;
+  prompt: string; // All non-system messages, flattened to text
+}
+
+// The schedule route's decision schema is the only one with a `next_step` property, and the
+// participant change schema the only one with `add`
+function callKind(options: LanguageModelV1CallOptions): RecordedCall['kind'] {
+  const schema = options.mode.type === 'object-json' ? options.mode.schema : undefined;
+  const properties = (schema as { properties?: Record<string, unknown> } | undefined)?.properties || {};
+  if ('next_step' in properties) return 'decision';
+  return 'add' in properties ? 'participants' : 'availability';
+}
+
+function flattenPrompt(options: LanguageModelV1CallOptions): { system: string; prompt: string } {
+  let system = '';
+  const parts: string[] = [];
+  for (const message of options.prompt) {
+    if (message.role === 'system') {
+      system += message.content;
+    } else {
+      for (const part of message.content) {
+        if (part.type === 'text') parts.push(part.text);
+      }
+    }
+  }
+  return { system, prompt: parts.join('\n') };
+}
+
+/**
+ * A fake model for generateObject. Scheduling decisions are returned from a queue in order
+ * (a scenario fails loudly if the route asks for more than were scripted). Availability and
+ * participant change extraction return queued results, or nothing found once their queue is empty.
+ */
+export class ScriptedModel {
+  readonly calls: RecordedCall[] = [];
+  private decisions: SchedulingDecision[] = [];
+  private availability: AvailabilityExtraction[] = [];
+  private participantChanges: ParticipantChangeExtraction[] = [];
+
+  queueDecision(...decisions: SchedulingDecision[]): void {
+    this.decisions.push(...decisions);
+  }
+
+  queueAvailability(...results: AvailabilityExtraction[]): void {
+    this.availability.push(...results);
+  }
+
+  queueParticipantChanges(...results: ParticipantChangeExtraction[]): void {
+    this.participantChanges.push(...results);
+  }
+
+  /** Decisions that were scripted but never requested. */
+  get pendingDecisions(): number {
+    return this.decisions.length;
+  }
+
+  asLanguageModel(): MockLanguageModelV1 {
+    return new MockLanguageModelV1({
+      provider: 'scripted',
+      modelId: 'scripted-scheduler',
+      defaultObjectGenerationMode: 'json',
+      doGenerate: async options => {
+        const kind = callKind(options);
+        this.calls.push({ kind, ...flattenPrompt(options) });
+
+        let output: unknown;
+        if (kind === 'decision') {
+          output = this.decisions.shift();
+          if (!output) throw new Error('ScriptedModel: no scheduling decision queued for this call');
+        } else if (kind === 'participants') {
+          output = this.participantChanges.shift() || { add: [], remove: [] };
+        } else {
+          output = this.availability.shift() || { slots: [] };
+        }
+
+        return {
+          text: JSON.stringify(output),
+          finishReason: 'stop',
+          usage: { promptTokens: 0, completionTokens: 0 },
+          rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+      },
+    });
+  }
+}
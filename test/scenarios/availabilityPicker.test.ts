@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, START, type Harness, type SentEmail } from '../harness';
+import { loadAvailabilityPicker } from '@/lib/availabilitySubmissions';
+import { verifyAvailabilityToken } from '@/lib/responseTokens';
+
+const TUESDAY = { start: '2025-04-22T15:00:00Z', end: '2025-04-22T15:30:00Z' };
+
+// The availability picker URL in an email's text part
+function pickerLink(email: SentEmail): string {
+  const match = email.TextBody!.match(/Pick your times online: (\S+)/);
+  assert.ok(match, 'email has no availability picker link');
+  return match[1];
+}
+
+describe('availability picker page', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+    harness.setEnv('APP_BASE_URL', 'https://amy.test');
+    harness.setEnv('RESPONSE_TOKEN_SECRET', 'test-response-secret');
+
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, when are you free for a 30 minute project sync next week?',
+      intro: 'Hi both, when are you free for a 30 minute project sync next week?',
+    });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('marks participants received and contacts the organizer once everyone has submitted', async () => {
+    const bobEmail = harness.postmark.sentTo(BOB)[0];
+    const bobLink = pickerLink(bobEmail);
+    assert.match(bobEmail.HtmlBody!, /Pick your times online/);
+    assert.notEqual(bobLink, pickerLink(harness.postmark.sentTo(CAROL)[0]));
+
+    // Tuesday and Wednesday 9:00-11:00 in New York, painted on the grid
+    const bob = await harness.submitAvailability(bobLink, {
+      timeZone: 'America/New_York',
+      windows: [
+        { start: '2025-04-22T13:00:00Z', end: '2025-04-22T14:00:00Z' },
+        { start: '2025-04-22T14:00:00Z', end: '2025-04-22T15:00:00Z' },
+        { start: '2025-04-23T13:00:00Z', end: '2025-04-23T15:00:00Z' },
+      ],
+    });
+    assert.deepEqual(bob, { status: 200, body: { status: 'recorded', waitingForOthers: true } });
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'pending_participant_response');
+    const bobStatus = session.participant_status_details.find((p: { email: string }) => p.email === BOB);
+    assert.equal(bobStatus.status, 'received');
+    assert.equal(bobStatus.timezone, 'America/New_York');
+    // Adjacent cells are stored as one window
+    assert.equal(harness.db.rows('participant_availability').filter(row => row.participant_email === BOB).length, 2);
+    const formMessage = harness.db.rows('session_messages').find(row => row.sender_email === BOB)!;
+    assert.equal(formMessage.message_type, 'human_participant');
+    assert.match(formMessage.body_text, /\[Availability form\] I'm available:\n- Tue, Apr 22, 2025, 9:00 AM - 11:00 AM EDT/);
+    assert.equal(harness.model.calls.filter(call => call.kind === 'decision').length, 1);
+
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Hi Alice, Bob and Carol are both free on Tuesday at 10:00 AM EDT. Shall I book it?',
+    });
+    const carol = await harness.submitAvailability(pickerLink(harness.postmark.sentTo(CAROL)[0]), {
+      timeZone: 'Europe/London',
+      windows: [{ start: '2025-04-22T14:00:00Z', end: '2025-04-22T16:00:00Z' }],
+    });
+    assert.deepEqual(carol.body, { status: 'recorded', waitingForOthers: false });
+
+    // The AI saw both submissions and the computed overlap, as for email replies
+    const decisionCall = harness.model.calls.filter(call => call.kind === 'decision').at(-1)!;
+    assert.match(decisionCall.prompt, /\[Availability form\]/);
+    assert.match(decisionCall.prompt, /Computed Candidate Slots[\s\S]*2025-04-22T14:00:00\.000Z/);
+
+    const updated = harness.onlySession();
+    assert.equal(updated.status, 'pending_organizer_confirmation');
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /Shall I book it\?/);
+    assert.equal(harness.sessionEvents(updated.session_id).at(-1), 'pending_participant_response -> pending_organizer_confirmation [participant_reply]');
+
+    // The picker closes once the session has moved on
+    assert.equal((await harness.submitAvailability(bobLink, { timeZone: null, windows: [TUESDAY] })).status, 410);
+  });
+
+  it('offers the proposed options on the page', async () => {
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_participant',
+      recipients: [BOB, CAROL],
+      email_body: 'Alice suggested Tuesday at 11:00 AM EDT. Does that work for you?',
+      intro: 'Alice suggested a time.',
+      proposed_options: [TUESDAY],
+      closing: 'Does that work for you?',
+    });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'How about Tuesday 11am?', mailboxHash: harness.onlySession().session_id });
+
+    const token = new URL(pickerLink(harness.postmark.sentTo(BOB).at(-1)!)).pathname.split('/').pop()!;
+    const verified = verifyAvailabilityToken(token, 'test-response-secret');
+    assert.ok(verified.ok);
+    const state = await loadAvailabilityPicker(verified.payload);
+    assert.equal(state.status, 'open');
+    assert.deepEqual(state.status === 'open' && state.proposedOptions, [{ start: Date.parse(TUESDAY.start), end: Date.parse(TUESDAY.end) }]);
+  });
+
+  it('rejects tampered links and unusable windows', async () => {
+    const link = pickerLink(harness.postmark.sentTo(BOB)[0]);
+    const tampered = link.replace(/.$/, char => (char === 'A' ? 'B' : 'A'));
+    assert.equal((await harness.submitAvailability(tampered, { timeZone: null, windows: [TUESDAY] })).status, 400);
+
+    // Windows in the past (or malformed bodies) are refused without changing anything
+    const past = { start: '2025-04-10T13:00:00Z', end: '2025-04-10T14:00:00Z' };
+    assert.equal((await harness.submitAvailability(link, { timeZone: null, windows: [past] })).status, 400);
+    assert.equal((await harness.submitAvailability(link, { windows: 'tomorrow' })).status, 400);
+    assert.equal(harness.onlySession().participant_status_details.find((p: { email: string }) => p.email === BOB).status, 'pending');
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, START, type Harness } from '../harness';
+
+describe('dashboard admin actions', () => {
+  let harness: Harness;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+    harness.setEnv('DASHBOARD_USERNAME', 'admin');
+    harness.setEnv('DASHBOARD_PASSWORD', 'dashboard-password');
+
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, when are you free for a 30 minute project sync next week?',
+    });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+    sessionId = harness.onlySession().session_id;
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('logs every decision the AI makes', () => {
+    const [logged] = harness.db.rows('session_decisions');
+    assert.equal(logged.session_id, sessionId);
+    assert.equal(logged.cause, 'ai_decision');
+    assert.equal(logged.outcome, 'executed');
+    assert.equal(logged.decision.next_step, 'ask_participant_availability');
+    assert.equal(logged.outgoing_message_id, harness.postmark.sentTo(BOB)[0].MessageID);
+  });
+
+  it('refuses requests without valid dashboard credentials', async () => {
+    assert.equal((await harness.postAdminAction(sessionId, 'cancel', null)).status, 401);
+    assert.equal((await harness.postAdminAction(sessionId, 'cancel', 'admin:wrong')).status, 401);
+    assert.equal((await harness.postAdminAction(sessionId, 'delete')).status, 400);
+    assert.equal(harness.onlySession().status, 'pending_participant_response');
+  });
+
+  it('refuses actions posted from another site', async () => {
+    assert.equal((await harness.postAdminAction(sessionId, 'cancel', undefined, {}, { 'sec-fetch-site': 'cross-site' })).status, 403);
+    assert.equal((await harness.postAdminAction(sessionId, 'cancel', undefined, {}, { origin: 'https://evil.example' })).status, 403);
+    assert.equal(harness.onlySession().status, 'pending_participant_response');
+    assert.equal(harness.postmark.sent.length, 2);
+
+    const result = await harness.postAdminAction(sessionId, 'resend', undefined, {}, { 'sec-fetch-site': 'same-origin', origin: 'http://localhost' });
+    assert.equal(result.status, 303);
+  });
+
+  it('cancels a session and emails everyone', async () => {
+    const result = await harness.postAdminAction(sessionId, 'cancel');
+    assert.equal(result.status, 303);
+    assert.match(result.notice!, /process_cancellation/);
+
+    assert.equal(harness.onlySession().status, 'cancelled');
+    for (const address of [ORGANIZER, BOB, CAROL]) {
+      assert.match(harness.postmark.sentTo(address).at(-1)!.TextBody!, /has been cancelled/);
+    }
+    assert.equal(harness.sessionEvents(sessionId).at(-1), 'pending_participant_response -> cancelled [admin_action]');
+    const logged = harness.db.rows('session_decisions').at(-1)!;
+    assert.equal(logged.cause, 'admin_action');
+    assert.equal(logged.actor_email, 'admin');
+
+    assert.match((await harness.postAdminAction(sessionId, 'cancel')).notice!, /already cancelled/);
+  });
+
+  it('resends the last email', async () => {
+    const original = harness.postmark.sentTo(BOB)[0];
+    const result = await harness.postAdminAction(sessionId, 'resend');
+    assert.equal(result.status, 303);
+
+    const resent = harness.postmark.sentTo(BOB).at(-1)!;
+    assert.notEqual(resent.MessageID, original.MessageID);
+    assert.equal(resent.TextBody, original.TextBody);
+    assert.equal(harness.onlySession().status, 'pending_participant_response');
+    assert.equal(harness.model.calls.filter(call => call.kind === 'decision').length, 1);
+  });
+
+  it('force-advances a session with missing replies', async () => {
+    harness.model.queueAvailability({ slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T15:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] });
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: "Hi Alice, Carol hasn't replied yet. Bob is free Tuesday at 9:00 AM EDT. Shall I book it?",
+    });
+    const result = await harness.postAdminAction(sessionId, 'advance');
+    assert.equal(result.status, 303);
+
+    const decisionCall = harness.model.calls.filter(call => call.kind === 'decision').at(-1)!;
+    assert.match(decisionCall.prompt, /Admin Instruction/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /Shall I book it\?/);
+    assert.equal(harness.sessionEvents(sessionId).at(-1), 'pending_participant_response -> pending_organizer_confirmation [admin_action]');
+  });
+});
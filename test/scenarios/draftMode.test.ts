@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, START, type Harness, type SentEmail } from '../harness';
+
+const ASK_BODY = 'Hi both, when are you free for a 30 minute project sync next week?';
+
+// The review link in a draft review email's text part
+function reviewLink(email: SentEmail): string {
+  const match = email.TextBody!.match(/Approve, edit or reject it here: (\S+)/);
+  assert.ok(match, 'email has no draft review link');
+  return match[1];
+}
+
+describe('draft mode', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+    harness.setEnv('APP_BASE_URL', 'https://amy.test');
+    harness.setEnv('RESPONSE_TOKEN_SECRET', 'test-response-secret');
+    harness.db.seed('organizer_settings', [{ organizer_email: ORGANIZER, draft_mode: true }]);
+
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, CAROL], email_body: ASK_BODY });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('holds the email until the organizer approves it, with their edits', async () => {
+    assert.equal(harness.postmark.sentTo(BOB).length, 0);
+    assert.equal(harness.db.rows('session_messages').filter(row => row.message_type === 'ai_agent').length, 0);
+    const [draft] = harness.db.rows('session_drafts');
+    assert.equal(draft.status, 'pending');
+    assert.deepEqual(draft.recipients, [BOB, CAROL]);
+
+    const review = harness.postmark.sentTo(ORGANIZER).at(-1)!;
+    assert.equal(review.Subject, 'Draft for review: Project sync');
+    assert.match(review.TextBody!, /It won't be sent until you approve it/);
+    const opened = await harness.reviewDraftLink(reviewLink(review));
+    assert.equal(opened.status, 200);
+    assert.match(opened.html, /when are you free for a 30 minute project sync/);
+    assert.equal(harness.db.rows('session_drafts')[0].status, 'pending');
+
+    const edited = 'Hi Bob and Carol, which times next week suit you for a 30 minute project sync?';
+    const approved = await harness.reviewDraftLink(reviewLink(review), { verdict: 'approve', emailBody: edited });
+    assert.equal(approved.status, 200);
+    assert.match(approved.html, /Email sent/);
+
+    assert.match(harness.postmark.sentTo(BOB)[0].TextBody!, /which times next week suit you/);
+    assert.match(harness.postmark.sentTo(CAROL)[0].TextBody!, /which times next week suit you/);
+    const saved = harness.db.rows('session_messages').filter(row => row.message_type === 'ai_agent');
+    assert.equal(saved.length, 1);
+    assert.match(saved[0].body_text, /which times next week suit you/);
+    assert.equal(harness.db.rows('session_drafts')[0].status, 'approved');
+    assert.equal(harness.db.rows('session_drafts')[0].reviewed_by, ORGANIZER);
+
+    // A link can only be used once
+    assert.equal((await harness.reviewDraftLink(reviewLink(review), { verdict: 'approve' })).status, 410);
+  });
+
+  it('keeps the draft pending and the session unchanged when the approved email can\'t be sent', async () => {
+    const session = harness.onlySession();
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB, CAROL],
+      email_body: 'Confirmed: Project sync on Tuesday 22 April, 11:00 AM EDT.',
+      confirmed_datetime: '2025-04-22T15:00:00Z',
+    });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'Tuesday at 11 works for everyone. Book it.', mailboxHash: session.session_id });
+    const before = harness.onlySession();
+
+    const link = reviewLink(harness.postmark.sentTo(ORGANIZER).at(-1)!);
+    harness.postmark.failNext();
+    const failed = await harness.reviewDraftLink(link, { verdict: 'approve' });
+    assert.equal(failed.status, 500);
+    assert.doesNotMatch(failed.html, /Email sent/);
+    assert.equal(harness.db.rows('session_drafts')[1].status, 'pending');
+    assert.equal(harness.onlySession().status, before.status);
+    assert.equal(harness.onlySession().confirmed_datetime, null);
+    assert.deepEqual(harness.db.rows('session_decisions').map(row => row.outcome), ['send_failed']);
+
+    // Approving again sends it
+    const approved = await harness.reviewDraftLink(link, { verdict: 'approve' });
+    assert.match(approved.html, /Email sent/);
+    assert.equal(harness.postmark.sentTo(BOB).length, 1);
+    assert.equal(harness.postmark.sentTo(CAROL).length, 1);
+    assert.equal(harness.db.rows('session_drafts')[1].status, 'approved');
+    assert.equal(harness.onlySession().status, 'confirmed');
+    assert.equal(harness.onlySession().confirmed_datetime, '2025-04-22T15:00:00Z');
+  });
+
+    it('sends nothing when the draft is rejected', async () => {
+    const rejected = await harness.reviewDraftLink(reviewLink(harness.postmark.sentTo(ORGANIZER).at(-1)!), { verdict: 'reject' });
+    assert.equal(rejected.status, 200);
+    assert.equal(harness.db.rows('session_drafts')[0].status, 'rejected');
+    assert.equal(harness.postmark.sentTo(BOB).length, 0);
+    assert.equal(harness.db.rows('session_decisions').length, 0);
+  });
+
+  it('supersedes a pending draft and lets the dashboard approve the newest one', async () => {
+    harness.setEnv('DASHBOARD_USERNAME', 'admin');
+    harness.setEnv('DASHBOARD_PASSWORD', 'dashboard-password');
+    const session = harness.onlySession();
+    const firstReview = harness.postmark.sentTo(ORGANIZER).at(-1)!;
+
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, CAROL], email_body: 'Hi both, Alice would like 45 minutes instead. When are you free?' });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'Actually, make it 45 minutes.', mailboxHash: session.session_id });
+
+    const [first, second] = harness.db.rows('session_drafts');
+    assert.equal(first.status, 'superseded');
+    assert.equal(second.status, 'pending');
+    assert.equal((await harness.reviewDraftLink(reviewLink(firstReview), { verdict: 'approve' })).status, 410);
+
+    const result = await harness.postAdminAction(session.session_id, 'approve_draft', undefined, { draft_id: second.draft_id, email_body: second.decision.email_body });
+    assert.equal(result.status, 303);
+    assert.match(result.notice!, /Approved the draft/);
+    assert.match(harness.postmark.sentTo(BOB).at(-1)!.TextBody!, /45 minutes instead/);
+    assert.equal(harness.db.rows('session_drafts')[1].reviewed_by, 'admin');
+  });
+
+  it('holds a decision made by the dashboard\'s "advance" for review too', async () => {
+    harness.setEnv('DASHBOARD_USERNAME', 'admin');
+    harness.setEnv('DASHBOARD_PASSWORD', 'dashboard-password');
+    const session = harness.onlySession();
+
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB, CAROL],
+      email_body: 'Confirmed: Project sync on Tuesday 22 April, 11:00 AM EDT.',
+      confirmed_datetime: '2025-04-22T15:00:00Z',
+    });
+    const result = await harness.postAdminAction(session.session_id, 'advance');
+    assert.match(result.notice!, /Held 'send_final_confirmation' as a draft/);
+
+    assert.equal(harness.postmark.sentTo(BOB).length, 0);
+    const [first, second] = harness.db.rows('session_drafts');
+    assert.equal(first.status, 'superseded');
+    assert.equal(second.status, 'pending');
+    assert.equal(second.decision.next_step, 'send_final_confirmation');
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+  });
+
+  it('sends emails addressed only to the organizer right away, and honors a session override', async () => {
+    const session = harness.onlySession();
+    harness.db.rows('session_drafts')[0].status = 'rejected';
+
+    // Organizer-only steps need no review
+    harness.model.queueDecision({ next_step: 'request_clarification', recipients: [ORGANIZER], email_body: 'Hi Alice, should this be in person or on a call?' });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'Any questions?', mailboxHash: session.session_id });
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /in person or on a call/);
+    assert.equal(harness.db.rows('session_drafts').length, 1);
+
+    // The session's own setting wins over the organizer's
+    harness.db.rows('scheduling_sessions')[0].draft_mode = false;
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, CAROL], email_body: ASK_BODY });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'On a call. Please ask them.', mailboxHash: session.session_id });
+    assert.equal(harness.postmark.sentTo(BOB).length, 1);
+    assert.equal(harness.db.rows('session_drafts').length, 1);
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, START, HOUR, type Harness } from '../harness';
+
+describe('nudge cron', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB],
+      email_body: 'Hi Bob, when are you free this week?',
+    });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      to: ['amy@scheduler.test'],
+      cc: [BOB],
+      subject: 'Budget review',
+      textBody: 'Amy, please set up a budget review with Bob.',
+      utcOffset: '-0400 (EDT)',
+    });
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('rejects requests without the cron secret', async () => {
+    assert.equal((await harness.runNudgeCron(null)).status, 401);
+    assert.equal((await harness.runNudgeCron('Bearer wrong-secret')).status, 401);
+  });
+
+  it('nudges twice, then escalates an unresponsive participant to the organizer', async () => {
+    // Not due yet
+    let run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.nudgesSent, 0);
+
+    // Tuesday 11:00 EDT: first nudge, and the organizer is told about it
+    mock.timers.tick(25 * HOUR);
+    run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.nudgesSent, 1);
+    assert.equal(run.body.summary?.organizerNotifications, 1);
+    assert.match(harness.postmark.sentTo(BOB).at(-1)!.Subject, /^Reminder:/);
+    assert.equal(harness.onlySession().participant_status_details[0].status, 'nudged_1');
+
+    // Wednesday: final nudge
+    mock.timers.tick(25 * HOUR);
+    run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.nudgesSent, 1);
+    assert.match(harness.postmark.sentTo(BOB).at(-1)!.Subject, /^Final Reminder:/);
+
+    // Thursday: escalate to the organizer
+    mock.timers.tick(25 * HOUR);
+    run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.escalations, 1);
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.Subject, /^Action Required:/);
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'escalated_to_organizer');
+    assert.equal(session.participant_status_details[0].status, 'escalated');
+    assert.deepEqual(harness.sessionEvents(session.session_id), [
+      '(new) -> pending_participant_response [session_created]',
+      'pending_participant_response -> escalated_to_organizer [cron_escalation]',
+    ]);
+  });
+
+  it('defers nudges that would land in quiet hours', async () => {
+    // Tuesday 23:00 EDT
+    mock.timers.tick(37 * HOUR);
+    const run = await harness.runNudgeCron();
+
+    assert.equal(run.body.summary?.nudgesSent, 0);
+    assert.equal(run.body.summary?.deferred, 1);
+    assert.equal(harness.postmark.sentTo(BOB).length, 1);
+  });
+
+  it('keeps a reply that lands while the run is in progress', async () => {
+    mock.timers.tick(25 * HOUR);
+
+    // Bob's reply is stored right after the cron lists the pending sessions
+    const rows = harness.db.rows.bind(harness.db);
+    let replied = false;
+    mock.method(harness.db, 'rows', (table: string) => {
+      if (table === 'organizer_settings' && !replied) {
+        replied = true;
+        const session = rows('scheduling_sessions')[0];
+        session.participant_status_details = [{ ...session.participant_status_details[0], status: 'received' }];
+      }
+      return rows(table);
+    });
+    const run = await harness.runNudgeCron();
+
+    assert.equal(run.body.summary?.nudgesSent, 0);
+    assert.equal(harness.postmark.sentTo(BOB).length, 1);
+    assert.equal(harness.onlySession().participant_status_details[0].status, 'received');
+  });
+
+  it('leaves a session that is busy for the next run', async () => {
+    mock.timers.tick(25 * HOUR);
+    const sessionId = harness.onlySession().session_id;
+    harness.db.seed('leases', [{ lease_name: `session:${sessionId}`, holder_id: 'webhook', expires_at: new Date(Date.now() + 60_000).toISOString() }]);
+
+    let run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.sessionsBusy, 1);
+    assert.equal(run.body.summary?.nudgesSent, 0);
+
+    harness.db.replaceRows('leases', []);
+    run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.nudgesSent, 1);
+  });
+
+  it('retries a nudge on the next run when sending fails', async () => {
+    mock.timers.tick(25 * HOUR);
+    harness.postmark.failNext();
+    let run = await harness.runNudgeCron();
+    assert.deepEqual(run.body.summary?.failures.map((failure: { reason: string }) => failure.reason), ['nudge_send_failed']);
+    assert.equal(harness.onlySession().participant_status_details[0].status, 'pending');
+
+    run = await harness.runNudgeCron();
+    assert.equal(run.body.summary?.nudgesSent, 1);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, DAN, START, type Harness } from '../harness';
+
+const JANE = 'jane@example.com';
+
+const TUESDAY_MORNING = { slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T15:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] };
+
+describe('participant changes by email', () => {
+  let harness: Harness;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, when are you free for a 30 minute project sync next week?',
+    });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+    sessionId = harness.onlySession().session_id;
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('adds someone the organizer asks for and waits for their reply too', async () => {
+    harness.model.queueParticipantChanges({ add: [{ email: JANE, replaces: null }], remove: [] });
+    harness.model.queueDecision({ next_step: 'no_action_needed', recipients: [], email_body: '' });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'Please add jane@example.com too.', mailboxHash: sessionId });
+
+    const ask = harness.postmark.sentTo(JANE);
+    assert.equal(ask.length, 1);
+    assert.match(ask[0].TextBody!, /Alice would like you to join "Project sync"/);
+    const session = harness.onlySession();
+    assert.deepEqual(session.participants, [BOB, CAROL, JANE]);
+    assert.equal(session.participant_status_details.at(-1).status, 'pending');
+    assert.ok(session.participant_status_details.at(-1).last_request_sent_at);
+    assert.equal(harness.db.rows('session_decisions').at(-2)!.cause, 'participant_change');
+    assert.match(harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt, /Participant Changes:.*Added jane@example.com/);
+
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+    const carolReply = await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Tuesday 9-11am is fine.' });
+    assert.equal(carolReply.body.status, 'success_waiting_for_others');
+    assert.equal(harness.model.pendingDecisions, 0);
+  });
+
+  it('drops a participant and moves on once everyone left has replied', async () => {
+    harness.model.queueAvailability(TUESDAY_MORNING);
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+
+    harness.model.queueParticipantChanges({ add: [], remove: [CAROL] });
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Hi Alice, Bob is free Tuesday at 9:00 AM EDT. Shall I book it?',
+    });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: "Let's drop Carol, she doesn't need to be there.", mailboxHash: sessionId });
+
+    const session = harness.onlySession();
+    assert.deepEqual(session.participants, [BOB]);
+    assert.deepEqual(session.participant_status_details.map((p: { email: string }) => p.email), [BOB]);
+    assert.equal(session.status, 'pending_organizer_confirmation');
+    assert.match(harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt, /Removed carol@example.com/);
+  });
+
+  it('lets someone the thread was forwarded to take a participant\'s place', async () => {
+    harness.model.queueAvailability(TUESDAY_MORNING);
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+
+    harness.model.queueParticipantChanges({ add: [{ email: DAN, replaces: CAROL }], remove: [] });
+    harness.model.queueAvailability(TUESDAY_MORNING);
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Hi Alice, Bob and Dan (for Carol) are both free Tuesday at 9:00 AM EDT. Shall I book it?',
+    });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: DAN, textBody: "Carol forwarded this to me, I'll attend in her place. Tuesday 9-11am works." });
+
+    const session = harness.onlySession();
+    assert.deepEqual(session.participants, [BOB, DAN]);
+    assert.equal(session.participant_status_details[1].status, 'received');
+    assert.equal(harness.postmark.sentTo(DAN).length, 0);
+    assert.ok(harness.db.rows('participant_availability').some(row => row.participant_email === DAN));
+    assert.equal(harness.sessionEvents(sessionId).at(-1), 'pending_participant_response -> pending_organizer_confirmation [participant_reply]');
+  });
+
+  it('only lets participants add people or hand over their own place', async () => {
+    // A plain reply from a known participant isn't checked for changes at all
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+    assert.equal(harness.model.calls.filter(call => call.kind === 'participants').length, 0);
+
+    harness.model.queueParticipantChanges({ add: [{ email: DAN, replaces: BOB }], remove: [BOB] });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Please remove Bob and invite Dan (dan@example.com) instead of him.' });
+
+    const session = harness.onlySession();
+    assert.deepEqual(session.participants, [BOB, CAROL, DAN]);
+    assert.equal(harness.postmark.sentTo(DAN).length, 1);
+
+    // Strangers can only add themselves
+    harness.model.queueParticipantChanges({ add: [{ email: JANE, replaces: null }], remove: [] });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: 'mallory@example.com', textBody: 'Looping in jane@example.com.' });
+    assert.deepEqual(harness.onlySession().participants, [BOB, CAROL, DAN]);
+  });
+});
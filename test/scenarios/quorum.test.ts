@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, DAN, START, type Harness } from '../harness';
+import { hasQuorum } from '../../lib/quorum';
+import type { ParticipantStatusDetail } from '../../lib/types';
+
+const TUESDAY_MORNING = { slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T15:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] };
+
+const PROPOSAL = {
+  next_step: 'propose_time_to_organizer' as const,
+  recipients: [ORGANIZER],
+  email_body: "Hi Alice, Bob is free Tuesday at 9:00 AM EDT. Carol hasn't replied yet, but she's optional. Shall I book it?",
+};
+
+describe('optional participants and quorum', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  // Bob in To (required), Carol and Dan in Cc (optional)
+  async function startSession(cc: string[] = [CAROL], textBody = 'Amy, please find 30 minutes next week for Bob and me. Carol is welcome too.') {
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, ...cc], email_body: 'Hi all, when are you free for a 30 minute project sync next week?' });
+    await harness.sendInbound({ from: ORGANIZER, fromName: 'Alice', to: ['amy@scheduler.test', BOB], cc, subject: 'Project sync', textBody, utcOffset: '-0400 (EDT)' });
+    return harness.onlySession().session_id;
+  }
+
+  it('treats Cc\'d guests as optional and proposes once the required ones have replied', async () => {
+    await startSession();
+    const details = harness.onlySession().participant_status_details;
+    assert.deepEqual(details.map((p: { email: string; required: boolean }) => [p.email, p.required]), [[BOB, true], [CAROL, false]]);
+
+    harness.model.queueAvailability(TUESDAY_MORNING);
+    harness.model.queueDecision(PROPOSAL);
+    const result = await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+    assert.equal(result.body.status, 'success');
+
+    const prompt = harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt;
+    assert.match(prompt, /carol@example.com\): pending \(optional\)/);
+    assert.match(prompt, /Quorum: reached \(rule: required\)/);
+    assert.match(prompt, /Computed Candidate Slots \(UTC, ranked best first, for the required participants\):\\n1\. 2025-04-22T13:00:00\.000Z/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /Shall I book it\?/);
+  });
+
+  it('reads optional attendees from the organizer\'s wording', async () => {
+    const sessionId = await startSession([CAROL, DAN], 'Amy, please find 30 minutes next week for Bob, Carol and me. Carol must attend. Dan is optional.');
+    const details = harness.onlySession().participant_status_details;
+    assert.deepEqual(details.map((p: { email: string; required: boolean }) => [p.email, p.required]), [[BOB, true], [CAROL, true], [DAN, false]]);
+
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+
+    // Later wording changes the flags too
+    harness.model.queueDecision(PROPOSAL);
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: "Carol is optional after all, no need to wait for her.", mailboxHash: sessionId });
+    assert.equal(harness.onlySession().participant_status_details[1].required, false);
+    assert.match(harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt, /Quorum: reached/);
+  });
+
+  it('waits for everyone when the organizer\'s quorum rule is "all"', async () => {
+    harness.db.seed('organizer_settings', [{ organizer_email: ORGANIZER, quorum_rule: 'all' }]);
+    await startSession();
+
+    const result = await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+    assert.equal(result.body.status, 'success_waiting_for_others');
+    assert.equal(harness.onlySession().status, 'pending_participant_response');
+  });
+
+  it('needs more than half of everyone under the session\'s "majority" rule', async () => {
+    await startSession([CAROL, DAN]);
+    harness.db.rows('scheduling_sessions')[0].quorum_rule = 'majority';
+
+    const bobReply = await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9-11am works for me.' });
+    assert.equal(bobReply.body.status, 'success_waiting_for_others');
+
+    harness.model.queueDecision(PROPOSAL);
+    const carolReply = await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Tuesday 9-11am works for me too.' });
+    assert.equal(carolReply.body.status, 'success');
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+  });
+
+  it('leaves cancelled participants out of every rule', () => {
+    const participant = (email: string, status: string, required: boolean) => ({ email, status, required }) as ParticipantStatusDetail;
+    const details = [participant(BOB, 'received', true), participant(CAROL, 'cancelled', true), participant(DAN, 'pending', false)];
+    assert.equal(hasQuorum(details, 'required'), true);
+    assert.equal(hasQuorum(details, 'all'), false);
+    assert.equal(hasQuorum([details[0], details[1]], 'all'), true);
+
+    // One of the two remaining participants has replied: not more than half
+    assert.equal(hasQuorum(details, 'majority'), false);
+    assert.equal(hasQuorum([...details, participant('erin@example.com', 'cancelled', false)], 'majority'), false);
+    assert.equal(hasQuorum([details[0], details[1], participant(DAN, 'received', false), participant('erin@example.com', 'pending', false)], 'majority'), true);
+  });
+});
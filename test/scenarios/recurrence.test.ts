@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ics, ORGANIZER, BOB, START, type Harness } from '../harness';
+import { detectRecurrence, detectRecurrenceChange } from '../../lib/recurrence';
+
+// Free Tuesday 22nd 9-11am EDT, but only 10-11am on the 29th
+const BOB_TUESDAYS = {
+  slots: [
+    { start: '2025-04-22T13:00:00Z', end: '2025-04-22T15:00:00Z', timezone: 'America/New_York', confidence: 0.9 },
+    { start: '2025-04-29T14:00:00Z', end: '2025-04-29T15:00:00Z', timezone: 'America/New_York', confidence: 0.9 },
+  ],
+};
+
+const SERIES_CONFIRMATION = {
+  next_step: 'send_final_confirmation' as const,
+  recipients: [ORGANIZER, BOB],
+  email_body: 'Confirmed: your weekly 1:1, Tuesdays 10:00 AM - 10:30 AM EDT, starting 22 April.',
+  intro: 'Hi both, your weekly 1:1 is booked.',
+  confirmed_datetime: '2025-04-22T14:00:00Z',
+  recurrence_scope: 'series' as const,
+};
+
+describe('recurring meetings', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  async function startSeries() {
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB], email_body: 'Hi Bob, which Tuesday mornings work for a weekly 30 minute 1:1?' });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB],
+      subject: '1:1',
+      textBody: 'Amy, please set up a weekly 30 minute 1:1 with Bob on Tuesdays.',
+      utcOffset: '-0400 (EDT)',
+    });
+  }
+
+  async function confirmSeries() {
+    await startSeries();
+    harness.model.queueAvailability(BOB_TUESDAYS);
+    harness.model.queueDecision({ next_step: 'propose_time_to_organizer', recipients: [ORGANIZER], email_body: 'Hi Alice, Bob can do Tuesdays at 10:00 AM EDT. Shall I book the series?' });
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday the 22nd 9-11am, and 10-11am on the 29th.' });
+    harness.model.queueDecision(SERIES_CONFIRMATION);
+    await harness.reply(harness.postmark.sentTo(ORGANIZER).at(-1)!, { from: ORGANIZER, textBody: 'Yes, book it.' });
+  }
+
+  it('detects how a meeting repeats', () => {
+    assert.equal(detectRecurrence('Can you set up a weekly 1:1 with Bob on Tuesdays?'), 'FREQ=WEEKLY;BYDAY=TU');
+    assert.equal(detectRecurrence('We need a biweekly sync for the next 6 weeks.'), 'FREQ=WEEKLY;INTERVAL=2;COUNT=3');
+    assert.equal(detectRecurrence('Standup every weekday at 9.'), 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    assert.equal(detectRecurrence('Let\'s meet every Tuesday and Thursday.'), 'FREQ=WEEKLY;BYDAY=TU,TH');
+    assert.equal(detectRecurrence('Every Tuesday we meet to go over the numbers.'), 'FREQ=WEEKLY;BYDAY=TU');
+    assert.equal(detectRecurrence('A monthly review, please.'), 'FREQ=MONTHLY');
+    assert.equal(detectRecurrence('Can we meet next Tuesday?\n\nOn Mon, Apr 7, Bob wrote:\n> our weekly sync'), null);
+  });
+
+  it('leaves one-off meetings alone when recurrence wording isn\'t about the meeting', () => {
+    assert.equal(detectRecurrence('Can you find 30 minutes for Bob and me? I can\'t do Mondays.'), null);
+    assert.equal(detectRecurrence('Please set up a call with Bob. I\'m free every day next week.'), null);
+    assert.equal(detectRecurrence('Let\'s find time to talk, weekly planning is getting out of hand.'), null);
+    assert.equal(detectRecurrence('Fridays don\'t work for me.'), null);
+    assert.equal(detectRecurrenceChange('Fridays don\'t work for me, could we meet Thursday instead?', null), null);
+    assert.equal(detectRecurrence('We don\'t need a weekly sync, just one call next week.'), null);
+  });
+
+  it('only offers first slots whose following occurrences are free too', async () => {
+    await startSeries();
+    assert.equal(harness.onlySession().recurrence_rule, 'FREQ=WEEKLY;BYDAY=TU');
+
+    harness.model.queueAvailability(BOB_TUESDAYS);
+    harness.model.queueDecision({ next_step: 'propose_time_to_organizer', recipients: [ORGANIZER], email_body: 'Hi Alice, Bob can do Tuesdays at 10:00 AM EDT.' });
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday the 22nd 9-11am, and 10-11am on the 29th.' });
+
+    const availabilityPrompt = harness.model.calls.filter(call => call.kind === 'availability').at(-1)!.prompt;
+    assert.match(availabilityPrompt, /Meeting: recurring/);
+    const prompt = harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt;
+    assert.match(prompt, /Recurrence: Every week on Tuesday \(RRULE FREQ=WEEKLY;BYDAY=TU\)/);
+    // 9:00 AM clashes with the 29th; 10:00 AM doesn't, and nothing is known about May yet
+    assert.doesNotMatch(prompt, /\d\. 2025-04-22T13:00:00\.000Z/);
+    assert.match(prompt, /1\. 2025-04-22T14:00:00\.000Z to 2025-04-22T14:30:00\.000Z \(confidence 0\.90, series: first 4 occurrences free, 2 participant-occurrence\(s\) unknown\)/);
+  });
+
+  it('confirms the series with a recurring calendar event', async () => {
+    await confirmSeries();
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'confirmed');
+    assert.equal(session.confirmed_datetime, '2025-04-22T14:00:00Z');
+    const confirmation = harness.postmark.sent.at(-1)!;
+    const invite = ics(confirmation);
+    assert.match(invite, /BEGIN:VTIMEZONE\r\nTZID:America\/New_York/);
+    assert.match(invite, /BEGIN:DAYLIGHT\r\nDTSTART:20250309T020000\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400/);
+    assert.match(invite, /DTSTART;TZID=America\/New_York:20250422T100000/);
+    assert.match(invite, /RRULE:FREQ=WEEKLY;BYDAY=TU/);
+    assert.match(confirmation.HtmlBody!, /Repeats[\s\S]*Every week on Tuesday/);
+  });
+
+  it('moves or cancels a single occurrence without touching the series', async () => {
+    await confirmSeries();
+    const confirmation = harness.postmark.sent.at(-1)!;
+
+    // Move the 29th to Wednesday the 30th
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB],
+      email_body: 'Done: just next week\'s 1:1 moves to Wednesday 30 April, 10:00 AM EDT.',
+      intro: 'Hi both, just next week\'s 1:1 moves.',
+      confirmed_datetime: '2025-04-30T14:00:00Z',
+      recurrence_scope: 'occurrence',
+      occurrence_start: '2025-04-29T14:00:00Z',
+    });
+    await harness.reply(confirmation, { from: ORGANIZER, textBody: 'Can we do Wednesday instead of Tuesday, just for the week of the 28th?' });
+
+    const prompt = harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt;
+    assert.match(prompt, /Upcoming Occurrences \(original UTC start\):\\n- 2025-04-22T14:00:00\.000Z = Tue, Apr 22/);
+    const move = ics(harness.postmark.sent.at(-1)!);
+    assert.match(move, /METHOD:REQUEST/);
+    assert.match(move, /DTSTART;TZID=America\/New_York:20250430T100000/);
+    assert.match(move, /RECURRENCE-ID;TZID=America\/New_York:20250429T100000/);
+    assert.doesNotMatch(move, /RRULE/);
+    assert.match(harness.postmark.sent.at(-1)!.HtmlBody!, /Occurrence moved/);
+
+    // Then cancel it, named by its new start
+    harness.model.queueDecision({
+      next_step: 'process_cancellation',
+      recipients: [ORGANIZER, BOB],
+      email_body: 'No problem, next week\'s 1:1 is cancelled. The series continues as usual.',
+      intro: 'Hi both, next week\'s 1:1 is cancelled.',
+      recurrence_scope: 'occurrence',
+      occurrence_start: '2025-04-30T14:00:00Z',
+    });
+    await harness.reply(confirmation, { from: ORGANIZER, textBody: 'Actually, let\'s skip next week\'s entirely.' });
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'confirmed');
+    assert.equal(session.confirmed_datetime, '2025-04-22T14:00:00Z');
+    assert.equal(session.ics_sequence, 2);
+    assert.deepEqual(session.recurrence_exceptions, [{ occurrence_start: '2025-04-29T14:00:00.000Z', new_start: null }]);
+    const cancel = ics(harness.postmark.sent.at(-1)!);
+    assert.match(cancel, /METHOD:CANCEL/);
+    assert.match(cancel, /RECURRENCE-ID;TZID=America\/New_York:20250429T100000/);
+    assert.match(harness.postmark.sent.at(-1)!.HtmlBody!, /Occurrence cancelled/);
+    assert.equal(harness.sessionEvents(session.session_id).at(-1), 'pending_organizer_confirmation -> confirmed [ai_decision]');
+  });
+
+  it('moves the whole series to another weekday', async () => {
+    await confirmSeries();
+    harness.db.rows('scheduling_sessions')[0].recurrence_exceptions = [{ occurrence_start: '2025-04-29T14:00:00.000Z', new_start: null }];
+
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB],
+      email_body: 'Updated: your weekly 1:1 is now on Wednesdays at 10:00 AM EDT, starting 23 April.',
+      confirmed_datetime: '2025-04-23T14:00:00Z',
+      recurrence_scope: 'series',
+    });
+    await harness.reply(harness.postmark.sent.at(-1)!, { from: ORGANIZER, textBody: 'Could we move our 1:1 to Wednesday from now on?' });
+
+    const session = harness.onlySession();
+    assert.equal(session.recurrence_rule, 'FREQ=WEEKLY;BYDAY=WE');
+    assert.equal(session.confirmed_datetime, '2025-04-23T14:00:00Z');
+    assert.deepEqual(session.recurrence_exceptions, []);
+    const update = ics(harness.postmark.sent.at(-1)!);
+    assert.match(update, /SEQUENCE:1/);
+    assert.match(update, /RRULE:FREQ=WEEKLY;BYDAY=WE/);
+    assert.match(update, /DTSTART;TZID=America\/New_York:20250423T100000/);
+  });
+});
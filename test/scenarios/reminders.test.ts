@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, START, HOUR, type Harness } from '../harness';
+import { dueReminderOffset, nextMeeting } from '../../lib/reminders';
+import type { SchedulingSession } from '../../lib/types';
+
+// The meeting: Tuesday 22 April, 11:00 AM EDT
+const MEETING = Date.parse('2025-04-22T15:00:00Z');
+const TUESDAY = { slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T16:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] };
+
+describe('pre-meeting reminders', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, CAROL], email_body: 'Hi both, when are you free for a 30 minute project sync next week?' });
+    await harness.sendInbound({ from: ORGANIZER, fromName: 'Alice', to: ['amy@scheduler.test'], cc: [BOB, CAROL], subject: 'Project sync', textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.', utcOffset: '-0400 (EDT)' });
+    harness.model.queueAvailability(TUESDAY);
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9am-12pm works.' });
+    harness.model.queueAvailability(TUESDAY);
+    harness.model.queueDecision({ next_step: 'propose_time_to_organizer', recipients: [ORGANIZER], email_body: 'Hi Alice, Bob and Carol are both free Tuesday at 11:00 AM EDT. Shall I book it?' });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Same for me, Tuesday 9am-12pm.', utcOffset: '-0400 (EDT)' });
+    harness.model.queueDecision({ next_step: 'send_final_confirmation', recipients: [ORGANIZER, BOB, CAROL], email_body: 'Confirmed: Project sync on Tuesday 22 April, 11:00 AM EDT.', confirmed_datetime: '2025-04-22T15:00:00Z' });
+    await harness.reply(harness.postmark.sentTo(ORGANIZER).at(-1)!, { from: ORGANIZER, textBody: 'Yes, book it.' });
+    assert.equal(harness.onlySession().status, 'confirmed');
+
+    // Bob is in London; the meeting is a 30 minute video call
+    const session = harness.db.rows('scheduling_sessions')[0];
+    session.participant_status_details[0].timezone = 'Europe/London';
+    session.meeting_duration = '30 minutes';
+    session.meeting_location = 'https://meet.example.com/project-sync';
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  function advanceTo(instant: number) {
+    mock.timers.tick(instant - Date.now());
+  }
+
+  it('rejects requests without the cron secret', async () => {
+    assert.equal((await harness.runReminderCron(null)).status, 401);
+    assert.equal((await harness.runReminderCron('Bearer wrong-secret')).status, 401);
+  });
+
+  it('reminds every attendee a day and an hour before, in their own time zone', async () => {
+    let run = await harness.runReminderCron();
+    assert.equal(run.body.summary?.remindersSent, 0);
+
+    advanceTo(MEETING - 24 * HOUR);
+    run = await harness.runReminderCron();
+    assert.equal(run.body.summary?.remindersSent, 3);
+    const bobReminder = harness.postmark.sentTo(BOB).at(-1)!;
+    assert.equal(bobReminder.Subject, 'Reminder: Project sync in 24 hours');
+    assert.match(bobReminder.TextBody!, /When: Tue, Apr 22, 2025, 4:00 PM - 4:30 PM GMT\+1/);
+    assert.match(bobReminder.TextBody!, /Join link: https:\/\/meet\.example\.com\/project-sync/);
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /When: Tue, Apr 22, 2025, 11:00 AM - 11:30 AM EDT/);
+    assert.match(harness.postmark.sentTo(CAROL).at(-1)!.TextBody!, /When: Tue, Apr 22, 2025, 11:00 AM - 11:30 AM EDT/);
+
+    // Each reminder goes out once
+    mock.timers.tick(5 * 60 * 1000);
+    assert.equal((await harness.runReminderCron()).body.summary?.remindersSent, 0);
+
+    advanceTo(MEETING - HOUR);
+    run = await harness.runReminderCron();
+    assert.equal(run.body.summary?.remindersSent, 3);
+    assert.equal(harness.postmark.sentTo(CAROL).at(-1)!.Subject, 'Reminder: Project sync in 1 hour');
+    assert.deepEqual(harness.db.rows('session_reminders').map(row => row.offset_minutes), [1440, 1440, 1440, 60, 60, 60]);
+
+    advanceTo(MEETING + HOUR);
+    assert.equal((await harness.runReminderCron()).body.summary?.remindersSent, 0);
+  });
+
+  it('uses the organizer\'s offsets and skips reminders that are too late', async () => {
+    harness.db.seed('organizer_settings', [{ organizer_email: ORGANIZER, reminder_offsets_minutes: [2880, 120] }]);
+
+    // Less than a day to go: the two-day reminder is long overdue, the two-hour one isn't due yet
+    advanceTo(MEETING - 20 * HOUR);
+    assert.equal((await harness.runReminderCron()).body.summary?.remindersSent, 0);
+
+    advanceTo(MEETING - 2 * HOUR);
+    assert.equal((await harness.runReminderCron()).body.summary?.remindersSent, 3);
+    assert.equal(harness.postmark.sentTo(BOB).at(-1)!.Subject, 'Reminder: Project sync in 2 hours');
+  });
+
+  it('stops once the meeting is cancelled', async () => {
+    harness.model.queueDecision({ next_step: 'process_cancellation', recipients: [ORGANIZER, BOB, CAROL], email_body: 'The project sync on Tuesday is cancelled.' });
+    await harness.reply(harness.postmark.sent.at(-1)!, { from: ORGANIZER, textBody: 'Please cancel the project sync.' });
+    assert.equal(harness.onlySession().status, 'cancelled');
+
+    advanceTo(MEETING - HOUR);
+    const run = await harness.runReminderCron();
+    assert.equal(run.body.summary?.sessionsChecked, 0);
+    assert.equal(harness.db.rows('session_reminders').length, 0);
+  });
+
+  it('finds the next occurrence of a series and picks the reminder that is due', () => {
+    const series = {
+      confirmed_datetime: '2025-04-22T14:00:00Z',
+      meeting_duration: '30 minutes',
+      organizer_timezone: 'America/New_York',
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU',
+      recurrence_exceptions: [
+        { occurrence_start: '2025-04-29T14:00:00.000Z', new_start: null },
+        { occurrence_start: '2025-05-06T14:00:00.000Z', new_start: '2025-05-07T14:00:00.000Z' },
+      ],
+    } as SchedulingSession;
+
+    assert.equal(new Date(nextMeeting(series, new Date('2025-04-23T00:00:00Z'))!.start).toISOString(), '2025-05-07T14:00:00.000Z');
+    assert.equal(new Date(nextMeeting(series, new Date('2025-05-08T00:00:00Z'))!.end).toISOString(), '2025-05-13T14:30:00.000Z');
+    assert.equal(nextMeeting({ ...series, recurrence_rule: null }, new Date('2025-04-23T00:00:00Z')), null);
+
+    const meeting = Date.parse('2025-05-07T14:00:00Z');
+    assert.equal(dueReminderOffset(meeting, [1440, 60], new Date(meeting - 30 * HOUR), []), null);
+    assert.equal(dueReminderOffset(meeting, [1440, 60], new Date(meeting - 20 * HOUR), []), 1440);
+    assert.equal(dueReminderOffset(meeting, [1440, 60], new Date(meeting - 20 * HOUR), [1440]), null);
+    assert.equal(dueReminderOffset(meeting, [1440, 60], new Date(meeting - 40 * 60 * 1000), [1440]), 60);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ics, ORGANIZER, BOB, CAROL, START, type Harness } from '../harness';
+
+const TUESDAY = { slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T16:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] };
+const THURSDAY = { slots: [{ start: '2025-04-24T18:00:00Z', end: '2025-04-24T20:00:00Z', timezone: 'America/New_York', confidence: 0.9 }] };
+
+describe('rescheduling a confirmed meeting', () => {
+  let harness: Harness;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+
+    // Book Tuesday 22 April, 11:00 AM EDT with Bob and Carol
+    harness.model.queueDecision({ next_step: 'ask_participant_availability', recipients: [BOB, CAROL], email_body: 'Hi both, when are you free for a 30 minute project sync next week?' });
+    await harness.sendInbound({ from: ORGANIZER, fromName: 'Alice', to: ['amy@scheduler.test'], cc: [BOB, CAROL], subject: 'Project sync', textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.', utcOffset: '-0400 (EDT)' });
+    sessionId = harness.onlySession().session_id;
+    harness.model.queueAvailability(TUESDAY);
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday 9am-12pm works.' });
+    harness.model.queueAvailability(TUESDAY);
+    harness.model.queueDecision({ next_step: 'propose_time_to_organizer', recipients: [ORGANIZER], email_body: 'Hi Alice, Bob and Carol are both free Tuesday at 11:00 AM EDT. Shall I book it?' });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Same for me, Tuesday 9am-12pm.' });
+    harness.model.queueDecision({ next_step: 'send_final_confirmation', recipients: [ORGANIZER, BOB, CAROL], email_body: 'Confirmed: Project sync on Tuesday 22 April, 11:00 AM EDT.', confirmed_datetime: '2025-04-22T15:00:00Z' });
+    await harness.reply(harness.postmark.sentTo(ORGANIZER).at(-1)!, { from: ORGANIZER, textBody: 'Yes, book it.' });
+    assert.equal(harness.onlySession().status, 'confirmed');
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  it('reopens the session for a participant\'s request and sends a "meeting moved" confirmation', async () => {
+    const confirmation = harness.postmark.sent.at(-1)!;
+
+    // Bob offers Thursday, so only Carol needs asking (and Alice is told)
+    harness.model.queueAvailability(THURSDAY);
+    harness.model.queueDecision({
+      next_step: 'reschedule_requested',
+      recipients: [CAROL, ORGANIZER],
+      email_body: 'Hi both, Bob can no longer make Tuesday 11:00 AM EDT and suggests Thursday 2-4pm EDT. Carol, does that work for you? Tuesday stays booked until we agree on a new time.',
+      intro: 'Hi both, Bob can no longer make Tuesday and suggests Thursday 2-4pm EDT.',
+    });
+    const result = await harness.reply(confirmation, { from: BOB, textBody: "Something came up on Tuesday, could we do Thursday? I'm free 2-4pm ET." });
+    assert.equal(result.body.status, 'success');
+
+    assert.match(harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt, /Confirmed Time: 2025-04-22T15:00:00\.000Z = Tue, Apr 22/);
+    let session = harness.onlySession();
+    assert.equal(session.status, 'pending_participant_response');
+    assert.equal(session.confirmed_datetime, '2025-04-22T15:00:00Z');
+    assert.deepEqual(session.participant_status_details.map((p: { email: string; status: string }) => [p.email, p.status]), [[BOB, 'received'], [CAROL, 'pending']]);
+    assert.deepEqual(harness.db.rows('participant_availability').map(row => row.participant_email), [BOB]);
+    const ask = harness.postmark.sentTo(CAROL).at(-1)!;
+    assert.match(ask.TextBody!, /Bob can no longer make Tuesday/);
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /Bob can no longer make Tuesday/);
+    assert.match(ask.HtmlBody!, /Finding a new time[\s\S]*Currently[\s\S]*Tue, Apr 22, 2025, 11:00 AM/);
+    assert.equal(harness.sessionEvents(sessionId).at(-1), 'confirmed -> pending_participant_response [ai_decision]');
+
+    // Carol agrees, Alice confirms: same session and invite, moved
+    harness.model.queueAvailability(THURSDAY);
+    harness.model.queueDecision({ next_step: 'propose_time_to_organizer', recipients: [ORGANIZER], email_body: 'Hi Alice, Bob and Carol can both do Thursday at 2:00 PM EDT. Shall I move it?' });
+    await harness.reply(ask, { from: CAROL, textBody: 'Thursday 2-4pm works for me too.' });
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB, CAROL],
+      email_body: 'The meeting has moved: Project sync is now Thursday 24 April, 2:00 PM EDT (was Tuesday 22 April, 11:00 AM EDT).',
+      intro: 'Hi everyone, the project sync has moved.',
+      confirmed_datetime: '2025-04-24T18:00:00Z',
+    });
+    await harness.reply(harness.postmark.sentTo(ORGANIZER).at(-1)!, { from: ORGANIZER, textBody: 'Yes, move it.' });
+
+    assert.match(harness.model.calls.filter(call => call.kind === 'decision').at(-1)!.prompt, /Confirmed Time: 2025-04-22T15:00:00\.000Z = [^\\]+ \(being rescheduled\)/);
+    session = harness.onlySession();
+    assert.equal(harness.db.rows('scheduling_sessions').length, 1);
+    assert.equal(session.status, 'confirmed');
+    assert.equal(session.confirmed_datetime, '2025-04-24T18:00:00Z');
+    assert.equal(session.ics_sequence, 1);
+    const moved = harness.postmark.sent.at(-1)!;
+    assert.equal(ics(moved).match(/UID:.*/)![0], ics(confirmation).match(/UID:.*/)![0]);
+    assert.match(ics(moved), /SEQUENCE:1/);
+    assert.match(moved.HtmlBody!, /Meeting moved[\s\S]*When[\s\S]*Thu, Apr 24, 2025, 2:00 PM[\s\S]*Was[\s\S]*Tue, Apr 22, 2025, 11:00 AM/);
+    assert.deepEqual(harness.sessionEvents(sessionId).slice(-3), [
+      'confirmed -> pending_participant_response [ai_decision]',
+      'pending_participant_response -> pending_organizer_confirmation [participant_reply]',
+      'pending_organizer_confirmation -> confirmed [ai_decision]',
+    ]);
+  });
+
+  it('lets the organizer move the meeting without any particular wording', async () => {
+    harness.model.queueDecision({
+      next_step: 'reschedule_requested',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, Alice would like to move the project sync to Thursday at 2:00 PM EDT. Does that work for you?',
+    });
+    await harness.reply(harness.postmark.sent.at(-1)!, { from: ORGANIZER, textBody: 'Could we do Thursday at 2pm instead?' });
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'pending_participant_response');
+    assert.deepEqual(session.participant_status_details.map((p: { status: string }) => p.status), ['pending', 'pending']);
+    assert.equal(harness.db.rows('participant_availability').length, 0);
+    for (const participant of [BOB, CAROL]) assert.match(harness.postmark.sentTo(participant).at(-1)!.TextBody!, /Alice would like to move/);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ics, ORGANIZER, BOB, CAROL, START, HOUR, type Harness, type SentEmail } from '../harness';
+
+const TUESDAY = { start: '2025-04-22T15:00:00Z', end: '2025-04-22T15:30:00Z' };
+const WEDNESDAY = { start: '2025-04-23T14:00:00Z', end: '2025-04-23T14:30:00Z' };
+
+// The "Works for me" / "Doesn't work" URLs in an email's text part, one pair per option
+function responseLinks(email: SentEmail) {
+  const accept = [...email.TextBody!.matchAll(/Works for me: (\S+)/g)].map(match => match[1]);
+  const decline = [...email.TextBody!.matchAll(/Doesn't work: (\S+)/g)].map(match => match[1]);
+  return { accept, decline };
+}
+
+describe('one-click response links', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+    harness.setEnv('APP_BASE_URL', 'https://amy.test');
+    harness.setEnv('RESPONSE_TOKEN_SECRET', 'test-response-secret');
+
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, when are you free for a 30 minute project sync next week?',
+    });
+    await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  async function proposeToOrganizer() {
+    harness.model.queueAvailability({ slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-23T17:00:00Z', timezone: 'America/New_York', confidence: 1 }] });
+    await harness.reply(harness.postmark.sentTo(BOB)[0], { from: BOB, textBody: 'Tuesday or Wednesday morning.', utcOffset: '-0400 (EDT)' });
+    harness.model.queueAvailability({ slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-23T17:00:00Z', timezone: 'America/New_York', confidence: 1 }] });
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Hi Alice, here are two options:\n\nOPTION 1: Tuesday 11:00 AM EDT\nOPTION 2: Wednesday 10:00 AM EDT',
+      intro: 'Hi Alice, here are two options.',
+      proposed_options: [TUESDAY, WEDNESDAY],
+      closing: 'Which one works best?',
+    });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], { from: CAROL, textBody: 'Same for me.', utcOffset: '-0400 (EDT)' });
+    return harness.postmark.sentTo(ORGANIZER).at(-1)!;
+  }
+
+  it('confirms the meeting when the organizer accepts an option, without another AI call', async () => {
+    const proposal = await proposeToOrganizer();
+    const links = responseLinks(proposal);
+    assert.equal(links.accept.length, 2);
+    assert.match(proposal.HtmlBody!, /Works for me/);
+    const decisionCalls = harness.model.calls.filter(call => call.kind === 'decision').length;
+
+    // Opening the link only shows a confirmation page
+    const preview = await harness.followLink(links.accept[1]);
+    assert.equal(preview.status, 200);
+    assert.match(preview.html, /Wed, Apr 23, 2025, 10:00 AM EDT/);
+    assert.match(preview.html, /<form method="post">/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+
+    const result = await harness.followLink(links.accept[1], 'POST');
+    assert.equal(result.status, 200);
+    assert.match(result.html, /Meeting confirmed/);
+
+    const session = harness.onlySession();
+    assert.equal(session.status, 'confirmed');
+    assert.equal(session.confirmed_datetime, WEDNESDAY.start);
+    assert.equal(session.active_proposal_id, null);
+    assert.equal(harness.model.calls.filter(call => call.kind === 'decision').length, decisionCalls);
+    assert.deepEqual(harness.sessionEvents(session.session_id).at(-1), 'pending_organizer_confirmation -> confirmed [slot_response]');
+
+    const confirmation = harness.postmark.sent.at(-1)!;
+    assert.equal(confirmation.To, [ORGANIZER, BOB, CAROL].join(', '));
+    assert.equal(confirmation.Headers?.find(header => header.Name === 'In-Reply-To')?.Value, `<${proposal.MessageID}>`);
+    assert.match(ics(confirmation), /DTSTART:20250423T140000Z/);
+
+    // The proposal is closed once acted on
+    assert.equal((await harness.followLink(links.accept[0], 'POST')).status, 410);
+  });
+
+  it('proposes a time to the organizer once every participant has accepted it', async () => {
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_participant',
+      recipients: [BOB, CAROL],
+      email_body: 'Alice suggested Tuesday at 11:00 AM EDT. Does that work for you?',
+      intro: 'Alice suggested a time.',
+      proposed_options: [TUESDAY],
+      closing: 'Does that work for you?',
+    });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'How about Tuesday 11am?', mailboxHash: harness.onlySession().session_id });
+
+    // Each participant gets their own links
+    const bobLinks = responseLinks(harness.postmark.sentTo(BOB).at(-1)!);
+    const carolLinks = responseLinks(harness.postmark.sentTo(CAROL).at(-1)!);
+    assert.notEqual(bobLinks.accept[0], carolLinks.accept[0]);
+
+    const bob = await harness.followLink(bobLinks.accept[0], 'POST');
+    assert.match(bob.html, /Everyone will hear back once the others have responded/);
+    assert.equal((await harness.followLink(bobLinks.accept[0], 'POST')).html.includes('Already recorded'), true);
+    assert.equal(harness.onlySession().status, 'pending_participant_response');
+
+    const carol = await harness.followLink(carolLinks.accept[0], 'POST');
+    assert.match(carol.html, /Everyone has accepted this time/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    const organizerProposal = harness.postmark.sentTo(ORGANIZER).at(-1)!;
+    assert.match(organizerProposal.TextBody!, /Everyone has accepted this time/);
+
+    // The organizer's own link confirms it
+    await harness.followLink(responseLinks(organizerProposal).accept[0], 'POST');
+    assert.equal(harness.onlySession().status, 'confirmed');
+    assert.equal(harness.onlySession().confirmed_datetime, TUESDAY.start);
+    assert.equal(harness.model.pendingDecisions, 0);
+  });
+
+  it('proposes a time once the required participants have accepted it', async () => {
+    harness.db.rows('scheduling_sessions')[0].participant_status_details[1].required = false;
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_participant',
+      recipients: [BOB, CAROL],
+      email_body: 'Alice suggested Tuesday at 11:00 AM EDT. Does that work for you?',
+      intro: 'Alice suggested a time.',
+      proposed_options: [TUESDAY],
+      closing: 'Does that work for you?',
+    });
+    await harness.sendInbound({ from: ORGANIZER, to: ['amy@scheduler.test'], subject: 'Re: Project sync', textBody: 'How about Tuesday 11am?', mailboxHash: harness.onlySession().session_id });
+
+    // Carol is optional, so Bob's answer is enough
+    const bob = await harness.followLink(responseLinks(harness.postmark.sentTo(BOB).at(-1)!).accept[0], 'POST');
+    assert.match(bob.html, /All the required participants have accepted this time/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    assert.match(harness.postmark.sentTo(ORGANIZER).at(-1)!.TextBody!, /All the required participants have accepted this time/);
+  });
+
+  it('rejects tampered and expired links', async () => {
+    const proposal = await proposeToOrganizer();
+    const link = responseLinks(proposal).accept[0];
+
+    const tampered = link.replace(/.$/, char => (char === 'A' ? 'B' : 'A'));
+    assert.equal((await harness.followLink(tampered, 'POST')).status, 400);
+
+    mock.timers.tick(8 * 24 * HOUR);
+    assert.equal((await harness.followLink(link, 'POST')).status, 410);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHarness, ORGANIZER, BOB, CAROL, START, type Harness } from '../harness';
+import { verifyInboundWebhook } from '../../lib/webhookAuth';
+import { detectSenderTimeZone, extractTimezoneFromHeaders } from '../../lib/timezone';
+
+describe('scheduling thread', () => {
+  let harness: Harness;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    harness = createHarness();
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    mock.timers.reset();
+  });
+
+  async function startSession() {
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB, CAROL],
+      email_body: 'Hi both, when are you free for a 30 minute project sync next week?',
+    });
+    const result = await harness.sendInbound({
+      from: ORGANIZER,
+      fromName: 'Alice',
+      to: ['amy@scheduler.test'],
+      cc: [BOB, CAROL],
+      subject: 'Project sync',
+      textBody: 'Amy, please find 30 minutes next week for Bob, Carol and me.',
+      utcOffset: '-0400 (EDT)',
+    });
+    assert.equal(result.status, 200);
+    return harness.onlySession();
+  }
+
+  it('collects availability, proposes a computed slot and confirms with an invite', async () => {
+    const session = await startSession();
+    assert.equal(session.status, 'pending_participant_response');
+    assert.equal(session.organizer_timezone, 'America/New_York');
+    assert.deepEqual(harness.postmark.sent.map(email => email.To), [BOB, CAROL]);
+    for (const participant of harness.onlySession().participant_status_details) {
+      assert.ok(participant.last_request_sent_at, `request time recorded for ${participant.email}`);
+    }
+
+    // Bob replies first: stored, but no AI call until everyone has answered
+    harness.model.queueAvailability({
+      slots: [{ start: '2025-04-22T13:00:00Z', end: '2025-04-22T17:00:00Z', timezone: 'America/New_York', confidence: 0.9 }],
+    });
+    const bobReply = await harness.reply(harness.postmark.sentTo(BOB)[0], {
+      from: BOB,
+      textBody: 'Tuesday 22nd, 9am to 1pm Eastern works for me.',
+      utcOffset: '-0400 (EDT)',
+    });
+    assert.equal(bobReply.body.status, 'success_waiting_for_others');
+    assert.equal(harness.model.calls.filter(call => call.kind === 'decision').length, 1);
+
+    // Carol's reply completes the set, so the organizer gets the intersection
+    harness.model.queueAvailability({
+      slots: [{ start: '2025-04-22T15:00:00Z', end: '2025-04-22T18:00:00Z', timezone: 'Europe/London', confidence: 1 }],
+    });
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Bob and Carol are both free on Tuesday 22 April at 11:00 AM EDT. Shall I book it?',
+    });
+    await harness.reply(harness.postmark.sentTo(CAROL)[0], {
+      from: CAROL,
+      textBody: 'Tuesday the 22nd, 4pm to 7pm UK time.',
+      utcOffset: '+0100 (BST)',
+    });
+
+    const proposalCall = harness.model.calls.filter(call => call.kind === 'decision')[1];
+    assert.match(proposalCall.prompt, /Computed Candidate Slots/);
+    assert.match(proposalCall.prompt, /Tue, Apr 22/);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    const proposal = harness.postmark.sentTo(ORGANIZER).at(-1)!;
+    assert.match(proposal.TextBody!, /Shall I book it/);
+
+    // Organizer accepts: everyone gets the confirmation with a calendar invite
+    harness.model.queueDecision({
+      next_step: 'send_final_confirmation',
+      recipients: [ORGANIZER, BOB, CAROL],
+      email_body: 'Confirmed: Project sync on Tuesday 22 April, 11:00 AM - 11:30 AM EDT.',
+      intro: 'Hi everyone, the project sync is booked.',
+      confirmed_datetime: '2025-04-22T15:00:00Z',
+    });
+    harness.db.seed('organizer_settings', [
+      { organizer_email: ORGANIZER, branding: { companyName: 'Acme', signature: 'Cheers,\nAmy at Acme' } },
+    ]);
+    await harness.reply(proposal, { from: ORGANIZER, textBody: 'Yes, book it.', utcOffset: '-0400 (EDT)' });
+
+    const finalSession = harness.onlySession();
+    assert.equal(finalSession.status, 'confirmed');
+    assert.equal(finalSession.confirmed_datetime, '2025-04-22T15:00:00Z');
+    assert.equal(finalSession.ics_sequence, 0);
+
+    const confirmation = harness.postmark.sent.at(-1)!;
+    assert.equal(confirmation.To, [ORGANIZER, BOB, CAROL].join(', '));
+    const invite = confirmation.Attachments?.[0];
+    assert.ok(invite, 'confirmation carries an ICS attachment');
+    assert.match(Buffer.from(invite.Content, 'base64').toString('utf8'), /METHOD:REQUEST/);
+
+    // Multipart: the text part keeps the AI's body, the HTML part renders a confirmation card,
+    // and both carry the organizer's signature
+    assert.match(confirmation.TextBody!, /Confirmed: Project sync[\s\S]*Cheers,\nAmy at Acme$/);
+    assert.match(confirmation.HtmlBody!, /Meeting confirmed/);
+    assert.match(confirmation.HtmlBody!, /Tue, Apr 22, 2025, 11:00 AM - [^<]+ EDT/);
+    assert.match(confirmation.HtmlBody!, /Cheers,<br>Amy at Acme/);
+
+    assert.deepEqual(harness.sessionEvents(finalSession.session_id), [
+      '(new) -> pending_participant_response [session_created]',
+      'pending_participant_response -> pending_organizer_confirmation [participant_reply]',
+      'pending_organizer_confirmation -> confirmed [ai_decision]',
+    ]);
+    assert.equal(harness.model.pendingDecisions, 0);
+  });
+
+  it('ignores a redelivered webhook', async () => {
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB],
+      email_body: 'Hi Bob, when are you free?',
+    });
+    const email = {
+      from: ORGANIZER,
+      to: ['amy@scheduler.test'],
+      cc: [BOB],
+      subject: 'Quick chat',
+      textBody: 'Amy, please set up a call with Bob.',
+      messageId: 'original-request@mail.test',
+    };
+
+    const first = await harness.sendInbound(email);
+    const second = await harness.sendInbound(email);
+
+    assert.equal(first.body.status, 'success');
+    assert.equal(second.body.status, 'ignored_duplicate');
+    assert.equal(harness.db.rows('scheduling_sessions').length, 1);
+    assert.equal(harness.postmark.sent.length, 1);
+  });
+
+  it('refuses to reopen a confirmed meeting without a reschedule request', async () => {
+    await startSession();
+    const session = harness.onlySession();
+    session.status = 'confirmed';
+    session.confirmed_datetime = '2025-04-22T15:00:00Z';
+    const sentBefore = harness.postmark.sent.length;
+
+    // Mentioning another time (or time zone) in passing is not a reschedule request
+    for (const textBody of ['Thanks Amy!', 'Thanks! Carol is in a different time zone, so please send her the invite too.', "At another time I'd love to grab lunch as well."]) {
+      harness.model.queueDecision({
+        next_step: 'ask_participant_availability',
+        recipients: [BOB, CAROL],
+        email_body: 'When are you free?',
+      });
+      const result = await harness.reply(harness.postmark.sent[0], { from: ORGANIZER, textBody });
+
+      assert.equal(result.body.status, 'rejected_illegal_transition');
+      assert.equal(harness.onlySession().status, 'confirmed');
+      assert.equal(harness.postmark.sent.length, sentBefore);
+    }
+
+    for (const textBody of ['Something came up. Could we find another time?', 'Can we move this to Thursday?', 'Can we move to Thursday instead?', 'Could you push this back an hour?']) {
+      harness.onlySession().status = 'confirmed';
+      harness.model.queueDecision({
+        next_step: 'ask_participant_availability',
+        recipients: [BOB, CAROL],
+        email_body: 'Alice would like to find another time. When are you free?',
+      });
+      await harness.reply(harness.postmark.sent[0], { from: ORGANIZER, textBody });
+      assert.equal(harness.onlySession().status, 'pending_participant_response', textBody);
+    }
+  });
+
+  it('reads the sender\'s time zone from a Date header that ends with a bare offset', () => {
+    const bare = [{ Name: 'Date', Value: 'Wed, 25 Jun 2025 14:56:34 +0200' }];
+    assert.equal(extractTimezoneFromHeaders(bare), 'GMT+0200');
+    assert.equal(detectSenderTimeZone('Any time on Friday works.', bare, BOB), 'Etc/GMT-2');
+    assert.equal(detectSenderTimeZone('Any time on Friday works.', [{ Name: 'Date', Value: 'Wed, 25 Jun 2025 14:56:34 +0530' }], BOB), 'Asia/Kolkata');
+    assert.equal(detectSenderTimeZone('Any time on Friday works.', [{ Name: 'Date', Value: 'Wed, 25 Jun 2025 14:56:34 -0700 (PDT)' }], BOB), 'America/Los_Angeles');
+  });
+
+  it('takes the client IP from the proxy\'s end of X-Forwarded-For', () => {
+    harness.setEnv('INBOUND_IP_ALLOWLIST', 'postmark');
+    const request = (forwardedFor: string) => new Request('http://localhost/api/schedule', { method: 'POST', headers: { 'x-forwarded-for': forwardedFor } });
+
+    // A client can put anything first; the proxy appends the address it actually saw
+    assert.deepEqual(verifyInboundWebhook(request('3.134.147.250, 203.0.113.9')), { authorized: false, reason: 'ip_not_allowed', clientIp: '203.0.113.9' });
+    assert.equal(verifyInboundWebhook(request('203.0.113.9, 3.134.147.250')).authorized, true);
+
+    harness.setEnv('TRUSTED_PROXY_HOPS', '2');
+    assert.equal(verifyInboundWebhook(request('3.134.147.250, 10.0.0.1')).clientIp, '3.134.147.250');
+  });
+
+  it('rejects unauthenticated webhooks in production unless explicitly allowed', () => {
+    const request = () => new Request('http://localhost/api/schedule', { method: 'POST' });
+    assert.equal(verifyInboundWebhook(request()).authorized, true);
+
+    harness.setEnv('NODE_ENV', 'production');
+    assert.deepEqual(verifyInboundWebhook(request()), { authorized: false, reason: 'auth_not_configured', clientIp: null });
+
+    harness.setEnv('INBOUND_WEBHOOK_ALLOW_UNAUTHENTICATED', 'true');
+    assert.equal(verifyInboundWebhook(request()).authorized, true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_WORKING_HOURS, findCandidateSlots, type ParticipantAvailability, type SlotConstraints } from '../../lib/slotEngine';
+import { BOB, CAROL, START } from '../harness';
+
+const NOW = START.getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const at = (iso: string) => Date.parse(iso);
+const starts = (slots: { start: number }[]) => slots.map(slot => new Date(slot.start).toISOString());
+
+function participant(email: string, timezone: string | null, windows: [string, string, number?][]): ParticipantAvailability {
+  return { email, timezone, windows: windows.map(([start, end, confidence]) => ({ start: at(start), end: at(end), confidence })) };
+}
+
+function constraints(overrides: Partial<SlotConstraints> = {}): SlotConstraints {
+  return { durationMinutes: 30, horizonStart: NOW, horizonEnd: NOW + 14 * DAY, maxPerDay: 10, maxCandidates: 10, ...overrides };
+}
+
+describe('slot engine', () => {
+  it('keeps the buffer free before and after the meeting', () => {
+    const both = [
+      participant(BOB, null, [['2025-04-22T13:00:00Z', '2025-04-22T15:00:00Z']]),
+      participant(CAROL, null, [['2025-04-22T13:00:00Z', '2025-04-22T15:00:00Z']]),
+    ];
+    assert.deepEqual(starts(findCandidateSlots(both, constraints({ bufferMinutes: 15 }))), ['2025-04-22T13:30:00.000Z', '2025-04-22T14:00:00.000Z']);
+    assert.equal(findCandidateSlots(both, constraints({ bufferMinutes: 15, durationMinutes: 120 })).length, 0);
+  });
+
+  it('only offers times inside everyone\'s working hours', () => {
+    // Both free all of Tuesday and Saturday: 9am in New York is 1pm UTC, 5pm in London is 4pm UTC
+    const allDay: [string, string][] = [['2025-04-22T00:00:00Z', '2025-04-23T00:00:00Z'], ['2025-04-26T00:00:00Z', '2025-04-27T00:00:00Z']];
+    const slots = findCandidateSlots(
+      [participant(BOB, 'America/New_York', allDay), participant(CAROL, 'Europe/London', allDay)],
+      constraints({ durationMinutes: 60, workingHours: DEFAULT_WORKING_HOURS })
+    );
+    assert.deepEqual(starts(slots), ['2025-04-22T13:00:00.000Z', '2025-04-22T13:30:00.000Z', '2025-04-22T14:00:00.000Z', '2025-04-22T14:30:00.000Z', '2025-04-22T15:00:00.000Z']);
+  });
+
+  it('ranks the most confident slots first, then the earliest', () => {
+    const slots = findCandidateSlots(
+      [
+        participant(BOB, null, [['2025-04-22T13:00:00Z', '2025-04-22T14:00:00Z', 0.5], ['2025-04-24T13:00:00Z', '2025-04-24T14:00:00Z', 1]]),
+        participant(CAROL, null, [['2025-04-22T13:00:00Z', '2025-04-24T14:00:00Z', 1]]),
+      ],
+      constraints({ durationMinutes: 60 })
+    );
+    assert.deepEqual(starts(slots), ['2025-04-24T13:00:00.000Z', '2025-04-22T13:00:00.000Z']);
+    assert.deepEqual(slots.map(slot => slot.minConfidence), [1, 0.5]);
+  });
+
+  it('stays within the horizon', () => {
+    const bob = participant(BOB, null, [['2025-04-14T12:00:00Z', '2025-04-14T15:00:00Z'], ['2025-04-30T13:00:00Z', '2025-04-30T14:00:00Z']]);
+    const slots = findCandidateSlots([bob], constraints({ durationMinutes: 60, horizonEnd: NOW + 7 * DAY }));
+    assert.deepEqual(starts(slots), ['2025-04-14T14:00:00.000Z']);
+  });
+
+  it('caps the slots per day by the organizer\'s calendar day', () => {
+    // 10pm to 2am UTC is one morning in Tokyo, but spans two UTC dates
+    const bob = participant(BOB, null, [['2025-04-22T22:00:00Z', '2025-04-23T02:00:00Z']]);
+    const capped = constraints({ durationMinutes: 60, stepMinutes: 60, maxPerDay: 1 });
+    assert.deepEqual(starts(findCandidateSlots([bob], { ...capped, timeZone: 'Asia/Tokyo' })), ['2025-04-22T22:00:00.000Z']);
+    assert.deepEqual(starts(findCandidateSlots([bob], capped)), ['2025-04-22T22:00:00.000Z', '2025-04-23T00:00:00.000Z']);
+  });
+});
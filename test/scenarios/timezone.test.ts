@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSenderTimeZone, resolveTimeZone } from '../../lib/timezone';
+import { BOB, START } from '../harness';
+
+const dateHeader = (offset: string) => [{ Name: 'Date', Value: `Mon, 14 Apr 2025 10:00:00 ${offset}` }];
+const EDT = dateHeader('-0400 (EDT)');
+
+describe('time zone detection', () => {
+  it('ignores lowercase words that spell an abbreviation', () => {
+    assert.equal(resolveTimeZone('1 pm eat', { referenceDate: START }), null);
+    assert.equal(resolveTimeZone('3 pm west', { referenceDate: START }), null);
+    assert.equal(resolveTimeZone('10am art', { referenceDate: START }), null);
+
+    assert.equal(detectSenderTimeZone('Tuesday after 1 pm eat lunch first', EDT, BOB), 'America/New_York');
+    assert.equal(detectSenderTimeZone('3 pm west office works', EDT, BOB), 'America/New_York');
+    assert.equal(detectSenderTimeZone('10am art class', EDT, BOB), 'America/New_York');
+  });
+
+  it('resolves uppercase abbreviations, using the offset to pick among candidates', () => {
+    assert.equal(resolveTimeZone('3 pm WEST', { referenceDate: START }), 'Europe/Lisbon');
+    assert.equal(resolveTimeZone('Friday 10am ART works', { referenceDate: START }), 'America/Argentina/Buenos_Aires');
+    assert.equal(resolveTimeZone('IST', { offsetMinutes: 60, referenceDate: START }), 'Europe/Dublin');
+    assert.equal(resolveTimeZone('IST', { offsetMinutes: 330, referenceDate: START }), 'Asia/Kolkata');
+  });
+
+  it('ignores a zone in the body that contradicts the Date header', () => {
+    assert.equal(detectSenderTimeZone('10am ART works for me', EDT, BOB), 'America/New_York');
+    assert.equal(detectSenderTimeZone('10am ART works for me', dateHeader('-0300'), BOB), 'America/Argentina/Buenos_Aires');
+    assert.equal(detectSenderTimeZone('Tuesday, 9am PDT', dateHeader('-0700 (PDT)'), BOB), 'America/Los_Angeles');
+  });
+});
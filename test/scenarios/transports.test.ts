@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { setEmailTransport } from '@/lib/emailTransport';
+import { createFileTransport } from '@/lib/transports/fileTransport';
+import { createHarness, ORGANIZER, BOB, type Harness } from '../harness';
+
+function rawEmail(lines: string[], body: string): string {
+  return [...lines, 'MIME-Version: 1.0', 'Content-Type: text/plain; charset=utf-8', '', body, ''].join('\r\n');
+}
+
+describe('raw MIME inbound adapter and file transport', () => {
+  let harness: Harness;
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-04-14T14:00:00Z') });
+    harness = createHarness();
+    outboxDir = await mkdtemp(path.join(tmpdir(), 'amy-outbox-'));
+    process.env.INBOUND_EMAIL_ADAPTER = 'mime';
+    process.env.EMAIL_OUTBOX_DIR = outboxDir;
+    setEmailTransport(createFileTransport());
+  });
+
+  afterEach(async () => {
+    harness.dispose();
+    delete process.env.EMAIL_OUTBOX_DIR;
+    mock.timers.reset();
+    await rm(outboxDir, { recursive: true, force: true });
+  });
+
+  it('threads a reply through the mailbox hash in the recipient address', async () => {
+    harness.model.queueDecision({
+      next_step: 'ask_participant_availability',
+      recipients: [BOB],
+      email_body: 'Hi Bob, when are you free?',
+    });
+    const first = await harness.sendRawInbound(rawEmail([
+      'From: Alice <alice@example.com>',
+      'To: amy@scheduler.test',
+      'Cc: bob@example.com',
+      'Subject: Coffee chat',
+      'Message-ID: <request-1@example.com>',
+      'Date: Mon, 14 Apr 2025 10:00:00 -0400 (EDT)',
+    ], 'Amy, please set up a coffee chat with Bob.'));
+    assert.equal(first.body.status, 'success');
+
+    const session = harness.onlySession();
+    assert.equal(session.organizer_email, ORGANIZER);
+    assert.equal(session.organizer_timezone, 'America/New_York');
+
+    // The request to Bob landed in the outbox as a complete message
+    const [fileName] = await readdir(outboxDir);
+    const written = await readFile(path.join(outboxDir, fileName), 'utf8');
+    assert.match(written, /^To: bob@example\.com$/m);
+    assert.match(written, new RegExp(`^Reply-To: amy\\+${session.session_id}@scheduler\\.test$`, 'm'));
+    const outboundMessageId = written.match(/^Message-ID: <(.+)>$/m)![1];
+
+    harness.model.queueDecision({
+      next_step: 'propose_time_to_organizer',
+      recipients: [ORGANIZER],
+      email_body: 'Bob is free Tuesday at 2pm.',
+    });
+    const reply = await harness.sendRawInbound(rawEmail([
+      'From: bob@example.com',
+      `To: amy+${session.session_id}@scheduler.test`,
+      'Subject: Re: Coffee chat',
+      'Message-ID: <reply-1@example.com>',
+      `In-Reply-To: <${outboundMessageId}>`,
+      'Date: Mon, 14 Apr 2025 11:00:00 -0400 (EDT)',
+    ], 'Tuesday at 2pm works.'));
+
+    assert.equal(reply.body.status, 'success');
+    assert.equal(harness.db.rows('scheduling_sessions').length, 1);
+    assert.equal(harness.onlySession().status, 'pending_organizer_confirmation');
+    assert.equal((await readdir(outboxDir)).length, 2);
+  });
+});